@@ -1,61 +1,249 @@
-const CACHE_NAME = 'health-dashboard-v3';
-const STATIC_ASSETS = [
-  '/',
-  '/index.html',
-  '/manifest.json',
-];
-
-// Install event - cache static assets
+// Replaced at build time with { version, urls } for every file Vite emits
+// (see precacheManifest in vite.config.ts); empty under the dev server
+const PRECACHE = self.__PRECACHE_MANIFEST || { version: 'dev', urls: [] };
+const CACHE_PREFIX = 'health-dashboard-';
+const PRECACHE_NAME = `${CACHE_PREFIX}precache-${PRECACHE.version}`;
+const RUNTIME_NAME = `${CACHE_PREFIX}runtime-${PRECACHE.version}`;
+const PRECACHED = new Set(PRECACHE.urls.map((url) => new URL(url, self.location.origin).href));
+const FLUSH_SYNC_TAG = 'flush-outbox';
+const FLUSH_REPLY_TIMEOUT_MS = 30 * 1000;
+
+// Install event - precache the whole build so a cold offline launch works.
+// The new worker then waits until the app asks it to take over.
 self.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => {
-      return cache.addAll(STATIC_ASSETS);
-    })
+    caches.open(PRECACHE_NAME).then((cache) => cache.addAll(PRECACHE.urls))
   );
-  self.skipWaiting();
 });
 
-// Activate event - clean up old caches
+// Activate event - drop caches from older builds
 self.addEventListener('activate', (event) => {
   event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
+    caches.keys()
+      .then((cacheNames) => Promise.all(
         cacheNames
-          .filter((name) => name !== CACHE_NAME)
+          .filter((name) => name !== PRECACHE_NAME && name !== RUNTIME_NAME)
           .map((name) => caches.delete(name))
-      );
-    })
+      ))
+      .then(() => self.clients.claim())
   );
-  self.clients.claim();
 });
 
-// Fetch event - network first, fallback to cache
+// Network first, falling back to whatever was cached
+function networkFirst(request, fallbackUrl) {
+  return fetch(request)
+    .then((response) => {
+      if (response.ok) {
+        const clone = response.clone();
+        caches.open(RUNTIME_NAME).then((cache) => cache.put(request, clone));
+      }
+      return response;
+    })
+    .catch(() =>
+      caches.match(request)
+        .then((cached) => cached || (fallbackUrl && caches.match(fallbackUrl)))
+        .then((cached) => cached || new Response('Offline', { status: 503 }))
+    );
+}
+
 self.addEventListener('fetch', (event) => {
   const { request } = event;
-  
-  // Skip non-GET requests
+
+  // Skip non-GET requests and anything off-origin (the sync backend)
   if (request.method !== 'GET') return;
-  
-  // Skip API calls and data requests
-  if (request.url.includes('/api/')) return;
-  
-  event.respondWith(
-    fetch(request)
-      .then((response) => {
-        // Clone and cache successful responses
-        if (response.ok) {
-          const clone = response.clone();
-          caches.open(CACHE_NAME).then((cache) => {
-            cache.put(request, clone);
-          });
-        }
-        return response;
-      })
-      .catch(() => {
-        // Fallback to cache on network failure
-        return caches.match(request).then((cached) => {
-          return cached || new Response('Offline', { status: 503 });
-        });
-      })
-  );
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.includes('/api/')) return;
+
+  // Hashed build files never change - serve them straight from the precache
+  if (PRECACHED.has(url.href) && !url.pathname.endsWith('/index.html')) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || networkFirst(request))
+    );
+    return;
+  }
+
+  // App navigations fall back to the precached shell when offline
+  const shellUrl = `${self.registration.scope}index.html`;
+  event.respondWith(networkFirst(request, request.mode === 'navigate' ? shellUrl : null));
+});
+
+// ============================================
+// UPDATES
+// ============================================
+
+self.addEventListener('message', (event) => {
+  if ((event.data || {}).type === 'sw:skip-waiting') self.skipWaiting();
+});
+
+// ============================================
+// BACKGROUND SYNC
+// ============================================
+// Queued writes live in the page's localStorage and need its auth session,
+// so the worker can't replay them itself. When connectivity returns it asks
+// an open window to flush, and fails the sync (so the browser retries later)
+// while changes are still pending.
+
+function requestFlush(client) {
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => reject(new Error('Flush timed out')), FLUSH_REPLY_TIMEOUT_MS);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      resolve(event.data);
+    };
+    client.postMessage({ type: 'sync:flush' }, [channel.port2]);
+  });
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== FLUSH_SYNC_TAG) return;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window' });
+    // Nothing open - the app flushes on its next launch
+    if (windows.length === 0) return;
+
+    const { remaining } = await requestFlush(windows[0]);
+    if (remaining > 0) throw new Error(`${remaining} changes still pending`);
+  })());
+});
+
+// ============================================
+// REMINDERS
+// ============================================
+// The app posts today's reminder list (with done flags) every minute while
+// it is open; checks also run on periodic sync for installed apps.
+
+const REMINDER_DB = 'master-mausam-reminders';
+const REMINDER_STORE = 'kv';
+const REMINDER_SYNC_TAG = 'habit-reminders';
+// Reminders missed by more than this (e.g. the device was off) are skipped
+const REMINDER_LATE_LIMIT_MS = 2 * 60 * 60 * 1000;
+
+function openReminderDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(REMINDER_DB, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(REMINDER_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Read a key and optionally replace it, in one transaction
+async function updateReminderValue(key, update) {
+  const db = await openReminderDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(REMINDER_STORE, update ? 'readwrite' : 'readonly');
+    const store = tx.objectStore(REMINDER_STORE);
+    const request = store.get(key);
+    let current;
+    request.onsuccess = () => {
+      current = request.result;
+      if (update) store.put(update(current), key);
+    };
+    tx.oncomplete = () => {
+      db.close();
+      resolve(current);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+}
+
+function localDateKey(date) {
+  const pad = (n) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+async function checkReminders() {
+  const state = await updateReminderValue('state');
+  if (!state || Notification.permission !== 'granted') return;
+
+  const now = new Date();
+  const today = localDateKey(now);
+  const due = [];
+
+  // Claim due reminders before showing them so overlapping checks can't double-fire
+  await updateReminderValue('fired', (fired) => {
+    const kept = (fired || []).filter((key) => key.startsWith(today));
+    state.reminders.forEach((reminder) => {
+      const [hours, minutes] = reminder.time.split(':').map(Number);
+      const late = now - new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+      const key = `${today}|${reminder.habitId}|${reminder.time}`;
+      if (late < 0 || late > REMINDER_LATE_LIMIT_MS || kept.includes(key)) return;
+
+      kept.push(key);
+      // Done flags only count for the day the app worked them out for
+      if (state.date === today && reminder.done) return;
+      due.push(reminder);
+    });
+    return kept;
+  });
+
+  await Promise.all(due.map((reminder) =>
+    self.registration.showNotification(`${reminder.icon} ${reminder.name}`, {
+      body: reminder.step > 1 ? 'Second one still to do today' : 'Not done yet today',
+      tag: `reminder:${reminder.habitId}`,
+      renotify: true,
+      icon: `${self.registration.scope}icon-192.svg`,
+      data: { userId: state.userId, habitId: reminder.habitId, date: today, step: reminder.step },
+      actions: reminder.canMarkDone ? [{ action: 'mark-done', title: 'Mark done' }] : [],
+    })
+  ));
+}
+
+self.addEventListener('message', (event) => {
+  const port = event.ports[0];
+  const reply = (value) => port && port.postMessage(value);
+  const { type, state } = event.data || {};
+
+  if (type === 'reminders:update') {
+    event.waitUntil(
+      updateReminderValue('state', () => state || null)
+        .then(checkReminders)
+        .then(() => reply(true), (err) => {
+          console.warn('[SW] Reminder check failed:', err);
+          reply(false);
+        })
+    );
+  } else if (type === 'reminders:take-marks') {
+    event.waitUntil(
+      updateReminderValue('marks', () => []).then((marks) => reply(marks || []), () => reply([]))
+    );
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === REMINDER_SYNC_TAG) event.waitUntil(checkReminders());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const { data } = event.notification;
+  event.notification.close();
+  if (!data || !data.habitId) return;
+
+  event.waitUntil((async () => {
+    if (event.action === 'mark-done') {
+      // Entries are written by the app, which owns auth and the sync queue
+      await updateReminderValue('marks', (marks) => [...(marks || []), data]);
+      // Later reminders today that this tap covers stay quiet
+      await updateReminderValue('state', (state) => state && {
+        ...state,
+        reminders: state.reminders.map((r) =>
+          r.habitId === data.habitId && r.step <= data.step ? { ...r, done: true } : r
+        ),
+      });
+    }
+
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      windows.forEach((client) => client.postMessage({ type: 'reminders:marked' }));
+      if (event.action !== 'mark-done') await windows[0].focus();
+      return;
+    }
+    // Nothing open to write the entry - the app applies queued taps on start
+    await self.clients.openWindow(self.registration.scope);
+  })());
 });
@@ -1,21 +1,25 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import './index.css';
 import { HealthModule } from './modules/health/HealthModule';
 import { HomeModule } from './modules/home/HomeModule';
+import { DataModule } from './modules/data/DataModule';
+import { DataTransfer } from './components/DataTransfer';
+import { Snapshots } from './components/Snapshots';
+import { Reminders } from './components/Reminders';
+import { SyncCenter } from './components/SyncCenter';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { UpgradeBlockedNotice } from './components/UpgradeBlockedNotice';
 import { useAuth } from './contexts/AuthContext';
-import { runMigrations } from './lib/migrations';
-
-// Legacy storage keys for data migration
-const OLD_STORAGE_KEYS = [
-  'masterMausam.health.habits.v1',
-  'masterMausam.health.order.v1',
-  'masterMausam.health.fastingHours.v1',
-  'masterMausam.health.lastFastingHours.v1',
-  'habit-tracker-v5',
-];
+import { Auth, LogoutButton } from './components/Auth';
+import { runMigrations, LATEST_SCHEMA_VERSION, type MigrationResult } from './lib/migrations';
+import { startReminders } from './lib/reminders';
+import { restEndpoint } from './lib/sync';
 
 type Tab = 'home' | 'health' | 'data' | 'settings';
 
+// Past this the app opens anyway, so a stuck IndexedDB can't leave it on the loading screen
+const MIGRATION_TIMEOUT_MS = 3000;
+
 function Logo({ size = 24 }: { size?: number }) {
   return (
     <svg width={size} height={size} viewBox="0 0 32 32" fill="none">
@@ -72,107 +76,91 @@ function TabButton({
   );
 }
 
-function PlaceholderCard({ title, icon }: { title: string; icon: string }) {
-  return (
-    <div className="flex flex-col items-center justify-center h-[60vh] text-center">
-      <div className="text-6xl mb-4">{icon}</div>
-      <h2 className="text-xl font-semibold text-[#c9d1d9] mb-2">{title}</h2>
-      <p className="text-[#8b949e]">Coming soon</p>
-    </div>
-  );
-}
-
 function App() {
   const [activeTab, setActiveTab] = useState<Tab>('health');
-  const { isLoading: authLoading } = useAuth();
-  const [migrationsRun, setMigrationsRun] = useState(false);
-  const [debugInfo, setDebugInfo] = useState<string[]>([]);
-
-  // Debug logging
-  useEffect(() => {
-    const logs: string[] = [];
-    logs.push(`Time: ${new Date().toISOString()}`);
-    logs.push(`UserAgent: ${navigator.userAgent.slice(0, 50)}...`);
-    logs.push(`Screen: ${window.innerWidth}x${window.innerHeight}`);
-    logs.push(`localStorage: ${typeof localStorage !== 'undefined' ? 'OK' : 'N/A'}`);
-    
-    try {
-      localStorage.setItem('test', '1');
-      localStorage.removeItem('test');
-      logs.push('localStorage write: OK');
-    } catch (e) {
-      logs.push(`localStorage error: ${e}`);
-    }
-    
-    setDebugInfo(logs);
-    console.log('[App] Debug:', logs);
-  }, []);
+  const { isLoading: authLoading, isAuthenticated, isLocalMode, user } = useAuth();
+  const [migration, setMigration] = useState<{ userId: string; result: MigrationResult } | null>(null);
+  const [migrationNoticeDismissed, setMigrationNoticeDismissed] = useState(false);
 
-  // Run migrations on mount
+  // Migrate the signed-in user's local data before anything reads it
+  const userId = user?.id ?? null;
   useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    let settled = false;
     console.log('[App] Starting migrations...');
-    
-    // Set a timeout to force progress if migrations hang
+
+    // Open the app with the problem shown; the real result replaces this if it arrives later
     const timeout = setTimeout(() => {
-      console.log('[App] Migration timeout - forcing continue');
-      setDebugInfo(prev => [...prev, 'Migration timeout - forcing']);
-      setMigrationsRun(true);
-    }, 3000);
-    
-    runMigrations().then((result) => {
-      clearTimeout(timeout);
-      console.log('[App] Migrations done:', result);
-      setDebugInfo(prev => [...prev, `Migrations done: ${result.success}`]);
-      setMigrationsRun(true);
-    }).catch((err) => {
-      clearTimeout(timeout);
-      console.error('[App] Migrations failed:', err);
-      setDebugInfo(prev => [...prev, `Migration error: ${err.message}`]);
-      setMigrationsRun(true);
-    });
-    
-    return () => clearTimeout(timeout);
-  }, []);
+      if (settled || cancelled) return;
+      console.warn('[App] Migration timeout - continuing without it');
+      setMigration({
+        userId,
+        result: {
+          success: false,
+          applied: 0,
+          version: 0,
+          errors: [`Local data upgrade didn't finish within ${MIGRATION_TIMEOUT_MS / 1000}s (another tab may be holding the database); still trying in the background`],
+        },
+      });
+    }, MIGRATION_TIMEOUT_MS);
 
-  const clearLegacyData = useCallback(() => {
-    if (confirm('This will clear all legacy data from old storage. Continue?')) {
-      OLD_STORAGE_KEYS.forEach(key => {
-        localStorage.removeItem(key);
-        sessionStorage.removeItem(key);
+    runMigrations()
+      .catch((err): MigrationResult => ({
+        success: false,
+        applied: 0,
+        version: 0,
+        errors: [err instanceof Error ? err.message : String(err)],
+      }))
+      .then((result) => {
+        settled = true;
+        clearTimeout(timeout);
+        console.log('[App] Migrations done:', result);
+        if (!cancelled) setMigration({ userId, result });
       });
-      alert('Legacy data cleared');
-    }
-  }, []);
 
-  // Show loading state with debug
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [userId]);
+
+  const migrationsRun = !userId || migration?.userId === userId;
+
+  // Keep the service worker's reminders current for whoever is signed in
+  useEffect(() => {
+    if (!userId || !migrationsRun) return;
+    return startReminders(userId);
+  }, [userId, migrationsRun]);
+
+  // Show loading state
   if (authLoading || !migrationsRun) {
     return (
       <>
         <Favicon />
+        <UpgradeBlockedNotice />
         <div className="fixed inset-0 z-[100] flex flex-col items-center justify-center bg-[#0d1117] p-4">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#58a6ff] mb-4" />
-          <p className="text-[#8b949e] text-sm mb-4">Loading...</p>
-          
-          {/* Debug info visible on screen */}
-          <div className="bg-[#161b22] border border-[#30363d] rounded-lg p-3 max-w-sm w-full">
-            <p className="text-xs text-[#8b949e] mb-2">Debug:</p>
-            <p className="text-xs text-[#6e7681] font-mono">authLoading: {authLoading ? 'true' : 'false'}</p>
-            <p className="text-xs text-[#6e7681] font-mono">migrationsRun: {migrationsRun ? 'true' : 'false'}</p>
-            {debugInfo.map((log, i) => (
-              <p key={i} className="text-xs text-[#6e7681] font-mono break-all">
-                {log}
-              </p>
-            ))}
-          </div>
+          <p className="text-[#8b949e] text-sm">Loading...</p>
         </div>
       </>
     );
   }
 
-  // Always show app (no login)
+  if (!isAuthenticated || !user) {
+    return (
+      <>
+        <Favicon />
+        <Auth />
+      </>
+    );
+  }
+
   return (
     <>
       <Favicon />
+      <UpdatePrompt />
+      <UpgradeBlockedNotice />
       <div className="min-h-screen bg-[#0d1117]">
         {/* Top Bar */}
         <header className="sticky top-0 z-50 bg-[#161b22] border-b border-[#30363d]">
@@ -201,45 +189,71 @@ function App() {
           </div>
         </header>
 
-        {/* Main Content */}
-        <main className="max-w-6xl mx-auto px-4 py-6">
+        {/* Main Content - keyed by user so hook state never carries across accounts */}
+        <main key={user.id} className="max-w-6xl mx-auto px-4 py-6">
+          {migration && migration.result.errors.length > 0 && !migrationNoticeDismissed && (
+            <div className="mb-4 flex items-start gap-3 p-3 bg-[#f85149]/10 border border-[#f85149]/30 rounded-lg text-xs text-[#f85149]">
+              <div className="flex-1 min-w-0 space-y-0.5">
+                <p>Upgrading local data ran into a problem. It will be retried next launch; details are in Settings.</p>
+                {migration.result.errors.map((error, i) => <p key={i} className="font-mono break-all">{error}</p>)}
+              </div>
+              <button onClick={() => setMigrationNoticeDismissed(true)} className="text-[#8b949e] hover:text-[#c9d1d9]">
+                Dismiss
+              </button>
+            </div>
+          )}
           {activeTab === 'home' && <HomeModule />}
           {activeTab === 'health' && <HealthModule />}
-          {activeTab === 'data' && <PlaceholderCard title="Data" icon="📊" />}
+          {activeTab === 'data' && <DataModule />}
           {activeTab === 'settings' && (
             <div className="space-y-4">
               <h2 className="text-lg font-semibold text-[#c9d1d9]">Settings</h2>
               
               <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
                 <h3 className="text-sm font-medium text-[#8b949e] mb-3">Data Management</h3>
-                <button
-                  onClick={clearLegacyData}
-                  className="px-4 py-2 bg-[#f85149]/10 text-[#f85149] border border-[#f85149]/30 rounded-lg text-sm hover:bg-[#f85149]/20 transition-colors"
-                >
-                  Clear Legacy Data
-                </button>
-                <p className="text-xs text-[#6e7681] mt-2">
-                  Remove old localStorage data from previous versions
+                <p className="text-sm text-[#c9d1d9]">
+                  Local data format v{migration?.result.version ?? '?'} of {LATEST_SCHEMA_VERSION}
                 </p>
+                <p className="text-xs text-[#6e7681] mt-1">
+                  Data from older versions of the app is upgraded automatically on launch
+                </p>
+                {migration && migration.result.errors.length > 0 && (
+                  <div className="mt-2 p-2 bg-[#f85149]/10 border border-[#f85149]/30 rounded-lg text-xs text-[#f85149] space-y-0.5">
+                    <p>Some upgrades failed and will be retried next launch:</p>
+                    {migration.result.errors.map((error, i) => <p key={i} className="font-mono break-all">{error}</p>)}
+                  </div>
+                )}
               </div>
 
+              <DataTransfer />
+
+              <Snapshots />
+
+              <Reminders />
+
               <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
                 <h3 className="text-sm font-medium text-[#8b949e] mb-3">Account</h3>
-                <div className="text-sm text-[#c9d1d9]">
-                  <p>Guest User</p>
-                  <p className="text-xs text-[#6e7681] mt-1">Local mode - no login required</p>
-                </div>
+                {isLocalMode ? (
+                  <div className="text-sm text-[#c9d1d9]">
+                    <p>Local User</p>
+                    {restEndpoint ? (
+                      <p className="text-xs text-[#6e7681] mt-1 break-all">Syncing with REST API at {restEndpoint}</p>
+                    ) : (
+                      <p className="text-xs text-[#6e7681] mt-1">Local mode - data stays on this device</p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="text-sm text-[#c9d1d9] min-w-0">
+                      <p className="truncate">{user.email}</p>
+                      <p className="text-xs text-[#6e7681] mt-1">Signed in with magic link</p>
+                    </div>
+                    <LogoutButton />
+                  </div>
+                )}
               </div>
 
-              <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
-                <h3 className="text-sm font-medium text-[#8b949e] mb-3">Sync</h3>
-                <p className="text-sm text-[#c9d1d9]">
-                  Data automatically syncs between devices when online.
-                </p>
-                <p className="text-xs text-[#6e7681] mt-2">
-                  Changes are saved locally first, then synced to the server.
-                </p>
-              </div>
+              <SyncCenter />
             </div>
           )}
         </main>
@@ -1,8 +1,93 @@
-// Auth component no longer used - login removed
+import { useState, FormEvent } from 'react';
+import { LogOut, Mail } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+
+// Magic-link sign-in screen, shown by App when there is no session
 export function Auth() {
-  return null;
+  const { signInWithEmail } = useAuth();
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+
+    const result = await signInWithEmail(email.trim());
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setSentTo(email.trim());
+    }
+    setIsSending(false);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#0d1117] p-4">
+      <div className="bg-[#161b22] border border-[#30363d] rounded-2xl w-full max-w-sm p-6">
+        <h1 className="text-xl font-semibold text-[#c9d1d9] mb-1">Master Mausam</h1>
+        <p className="text-sm text-[#8b949e] mb-6">Sign in to sync your habits across devices</p>
+
+        {sentTo ? (
+          <div className="text-center">
+            <Mail className="mx-auto text-[#58a6ff] mb-3" size={32} />
+            <p className="text-sm text-[#c9d1d9]">Check your email</p>
+            <p className="text-xs text-[#8b949e] mt-1">
+              We sent a sign-in link to <span className="text-[#c9d1d9]">{sentTo}</span>
+            </p>
+            <button
+              onClick={() => setSentTo(null)}
+              className="mt-4 text-xs text-[#58a6ff] hover:underline"
+            >
+              Use a different email
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="text-xs font-medium text-[#8b949e]">Email</label>
+              <input
+                type="email"
+                required
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                className="w-full mt-1 px-3 py-2 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff]"
+                placeholder="you@example.com"
+              />
+            </div>
+
+            {error && (
+              <p className="text-xs text-[#f85149]">{error}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={!email || isSending}
+              className="w-full py-2.5 bg-[#238636] text-white rounded-lg font-medium text-sm hover:bg-[#2ea043] disabled:opacity-50"
+            >
+              {isSending ? 'Sending...' : 'Send magic link'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
 }
 
 export function LogoutButton() {
-  return null;
+  const { signOut, isLocalMode } = useAuth();
+
+  if (isLocalMode) return null;
+
+  return (
+    <button
+      onClick={signOut}
+      className="flex items-center gap-2 px-4 py-2 bg-[#21262d] text-[#c9d1d9] border border-[#30363d] rounded-lg text-sm hover:bg-[#30363d] transition-colors"
+    >
+      <LogOut size={14} />
+      Sign out
+    </button>
+  );
 }
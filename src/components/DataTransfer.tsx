@@ -0,0 +1,269 @@
+import { useMemo, useRef, useState, ChangeEvent } from 'react';
+import { Download, Upload } from 'lucide-react';
+import {
+  type ImportData,
+  type ImportMode,
+  type ImportPlan,
+  loadAllData,
+  buildExport,
+  exportToCsv,
+  planImport,
+  applyImport,
+  countPlanChanges,
+} from '../lib/dataTransfer';
+import { IMPORTERS, readImportSources } from '../lib/importers';
+import { takeSnapshot } from '../lib/snapshots';
+
+function downloadFile(contents: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Export / import card for the Settings tab
+export function DataTransfer() {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [incoming, setIncoming] = useState<ImportData | null>(null);
+  const [current, setCurrent] = useState<ImportData | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [sourceLabel, setSourceLabel] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const plan: ImportPlan | null = useMemo(
+    () => (incoming && current ? planImport(current, incoming, mode) : null),
+    [incoming, current, mode]
+  );
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const data = await loadAllData();
+      const stamp = new Date().toLocaleDateString('en-CA');
+      if (format === 'json') {
+        downloadFile(JSON.stringify(buildExport(data), null, 2), `master-mausam-${stamp}.json`, 'application/json');
+      } else {
+        downloadFile(exportToCsv(data), `master-mausam-${stamp}.csv`, 'text/csv');
+      }
+    } catch (err) {
+      console.error('[Export] Failed:', err);
+      setMessage('Export failed - check the console for details');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setIncoming(null);
+    setCurrent(null);
+    setErrors([]);
+    setWarnings([]);
+    setSourceLabel(null);
+    setProgress(null);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])];
+    if (files.length === 0) return;
+    reset();
+    setMessage(null);
+    setFileName(files.map(f => f.name).join(', '));
+
+    try {
+      const result = await readImportSources(files);
+      if (!result.data) {
+        setErrors(result.errors);
+        return;
+      }
+      setSourceLabel(result.importer?.label ?? null);
+      setWarnings(result.warnings ?? []);
+      setIncoming(result.data);
+      setCurrent(await loadAllData());
+    } catch (err) {
+      console.error('[Import] Failed to read file:', err);
+      setIncoming(null);
+      setErrors([`Couldn't read the file: ${err instanceof Error ? err.message : 'unknown error'}`]);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    if (plan.mode === 'replace' && (plan.habits.removed.length > 0 || plan.entries.removed.length > 0)) {
+      const confirmed = window.confirm(
+        `Replace will delete ${plan.habits.removed.length} habits and ${plan.entries.removed.length} entries that are not in the file. Continue?`
+      );
+      if (!confirmed) return;
+    }
+
+    setProgress({ done: 0, total: countPlanChanges(plan) });
+    try {
+      await takeSnapshot('import', `Before importing ${fileName}`, current ?? undefined);
+    } catch (err) {
+      console.error('[Import] Snapshot failed:', err);
+      setProgress(null);
+      setMessage("Couldn't save a snapshot first, so nothing was imported");
+      return;
+    }
+
+    try {
+      await applyImport(plan, (done, total) => setProgress({ done, total }));
+      setMessage(`Imported ${fileName}: ${countPlanChanges(plan)} changes applied`);
+      reset();
+    } catch (err) {
+      console.error('[Import] Failed:', err);
+      setProgress(null);
+      setMessage('Import stopped partway - changes written so far are kept');
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-2 px-3 py-2 bg-[#21262d] text-[#c9d1d9] border border-[#30363d] rounded-lg text-sm hover:bg-[#30363d] transition-colors disabled:opacity-50';
+
+  return (
+    <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
+      <h3 className="text-sm font-medium text-[#8b949e] mb-3">Export & Import</h3>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => handleExport('json')} disabled={isExporting} className={buttonClass}>
+          <Download size={14} /> Export JSON
+        </button>
+        <button onClick={() => handleExport('csv')} disabled={isExporting} className={buttonClass}>
+          <Download size={14} /> Export CSV
+        </button>
+        <button onClick={() => fileInput.current?.click()} disabled={progress !== null} className={buttonClass}>
+          <Upload size={14} /> Import file…
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.csv,.zip,.db"
+          multiple
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+      <p className="text-xs text-[#6e7681] mt-2">
+        JSON keeps everything (schedules, archive state, fasting times). CSV has one row per habit and day.
+      </p>
+      <p className="text-xs text-[#6e7681] mt-1">
+        Also imports: {IMPORTERS.slice(1).map(i => i.label).join(', ')} (backup .db, or CSV export .zip).
+        Habitica, Streaks and other apps have no importer of their own: put their CSV export into date, habit and value columns first.
+      </p>
+
+      {message && <p className="text-xs text-[#58a6ff] mt-3">{message}</p>}
+
+      {errors.length > 0 && (
+        <div className="mt-3 p-3 bg-[#f85149]/10 border border-[#f85149]/30 rounded-lg">
+          <p className="text-sm text-[#f85149] mb-1">{fileName} can't be imported:</p>
+          <ul className="text-xs text-[#f85149]/90 list-disc pl-4 space-y-0.5">
+            {errors.map((error, i) => <li key={i}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {plan && (
+        <div className="mt-3 p-3 bg-[#0d1117] border border-[#30363d] rounded-lg space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm text-[#c9d1d9] truncate">{fileName}</p>
+              {sourceLabel && <p className="text-xs text-[#6e7681]">{sourceLabel}</p>}
+            </div>
+            <div className="flex gap-1 shrink-0">
+              {(['merge', 'replace'] as ImportMode[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  disabled={progress !== null}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-lg capitalize transition-colors ${
+                    mode === option ? 'bg-[#238636] text-white' : 'bg-[#21262d] text-[#8b949e] hover:bg-[#30363d]'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-[#6e7681]">
+            {mode === 'merge'
+              ? 'Adds new habits and days, updates changed ones, keeps everything else.'
+              : 'Makes your data match the file exactly - anything not in it is deleted.'}
+          </p>
+
+          {warnings.length > 0 && (
+            <ul className="text-xs text-[#d29922] list-disc pl-4 space-y-0.5">
+              {warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+            </ul>
+          )}
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[#6e7681]">
+                <th className="text-left font-normal" />
+                <th className="font-normal text-right">New</th>
+                <th className="font-normal text-right">Changed</th>
+                <th className="font-normal text-right">Same</th>
+                <th className="font-normal text-right">Removed</th>
+              </tr>
+            </thead>
+            <tbody className="text-[#c9d1d9]">
+              <tr>
+                <td>Habits</td>
+                <td className="text-right text-green-400">{plan.habits.added.length}</td>
+                <td className="text-right text-[#d29922]">{plan.habits.updated.length}</td>
+                <td className="text-right text-[#6e7681]">{plan.habits.unchanged}</td>
+                <td className="text-right text-[#f85149]">{plan.habits.removed.length}</td>
+              </tr>
+              <tr>
+                <td>Entries</td>
+                <td className="text-right text-green-400">{plan.entries.added.length}</td>
+                <td className="text-right text-[#d29922]">{plan.entries.updated.length}</td>
+                <td className="text-right text-[#6e7681]">{plan.entries.unchanged}</td>
+                <td className="text-right text-[#f85149]">{plan.entries.removed.length}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          {(plan.habits.added.length > 0 || plan.habits.removed.length > 0) && (
+            <div className="text-xs space-y-1">
+              {plan.habits.added.length > 0 && (
+                <p className="text-green-400">+ {plan.habits.added.map(h => `${h.icon} ${h.name}`).join(', ')}</p>
+              )}
+              {plan.habits.removed.length > 0 && (
+                <p className="text-[#f85149]">− {plan.habits.removed.map(h => `${h.icon} ${h.name}`).join(', ')}</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-2">
+            {progress && (
+              <span className="text-xs text-[#8b949e] mr-auto">Importing {progress.done}/{progress.total}…</span>
+            )}
+            <button
+              onClick={reset}
+              disabled={progress !== null}
+              className="px-3 py-1.5 text-sm text-[#8b949e] hover:text-[#c9d1d9] disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={progress !== null || countPlanChanges(plan) === 0}
+              className="px-3 py-1.5 bg-[#238636] text-white rounded-lg text-sm hover:bg-[#2ea043] transition-colors disabled:opacity-50"
+            >
+              {countPlanChanges(plan) === 0 ? 'Nothing to import' : 'Import'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { getLocalCache } from '../lib/sync';
+import { areNotificationsSupported, normalizeReminders, requestNotificationPermission } from '../lib/reminders';
+
+// Reminder permission and overview for the Settings tab
+export function Reminders() {
+  const supported = areNotificationsSupported();
+  const [permission, setPermission] = useState<NotificationPermission>(supported ? Notification.permission : 'denied');
+  const [reminderCount, setReminderCount] = useState<{ habits: number; times: number } | null>(null);
+
+  useEffect(() => {
+    getLocalCache()
+      .then(({ habits }) => {
+        const withReminders = habits.filter(h => !h.archived && normalizeReminders(h.reminders));
+        setReminderCount({
+          habits: withReminders.length,
+          times: withReminders.reduce((sum, h) => sum + normalizeReminders(h.reminders)!.length, 0),
+        });
+      })
+      .catch(err => console.warn('[Reminders] Failed to load habits:', err));
+  }, []);
+
+  const handleEnable = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  return (
+    <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
+      <h3 className="text-sm font-medium text-[#8b949e] mb-3">Reminders</h3>
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm text-[#c9d1d9] min-w-0">
+          <p className="flex items-center gap-1.5">
+            {permission === 'granted' ? <Bell size={14} className="text-[#238636]" /> : <BellOff size={14} className="text-[#6e7681]" />}
+            {!supported
+              ? "This browser can't show notifications"
+              : permission === 'granted'
+                ? 'Notifications on'
+                : permission === 'denied'
+                  ? 'Notifications blocked in browser settings'
+                  : 'Notifications off'}
+          </p>
+          {reminderCount && (
+            <p className="text-xs text-[#6e7681] mt-1">
+              {reminderCount.times > 0
+                ? `${reminderCount.times} reminder${reminderCount.times === 1 ? '' : 's'} across ${reminderCount.habits} habit${reminderCount.habits === 1 ? '' : 's'}. Set times when editing a habit.`
+                : 'No reminders yet. Set times when editing a habit.'}
+            </p>
+          )}
+        </div>
+        {supported && permission === 'default' && (
+          <button
+            onClick={handleEnable}
+            className="px-3 py-1.5 bg-[#238636] text-white rounded-lg text-xs font-medium hover:bg-[#2ea043] transition-colors shrink-0"
+          >
+            Enable
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-[#6e7681] mt-2">
+        Reminders arrive while the app is open, or in the background once it is installed. Done habits are skipped.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useState } from 'react';
+import { History, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  type Snapshot,
+  type SnapshotReason,
+  getSnapshots,
+  deleteSnapshot,
+  takeSnapshot,
+  restoreSnapshot,
+} from '../lib/snapshots';
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  import: 'Import',
+  migration: 'Upgrade',
+  seed: 'Seeding',
+  delete: 'Delete',
+  restore: 'Restore',
+  reset: 'Reset',
+  manual: 'Manual',
+};
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+// Snapshot list for the Settings tab
+export function Snapshots() {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setSnapshots(await getSnapshots());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleTake = async () => {
+    setBusyId('new');
+    setMessage(null);
+    try {
+      const snapshot = await takeSnapshot('manual', 'Manual snapshot');
+      setMessage(snapshot ? 'Snapshot saved' : 'Nothing to save yet');
+    } catch (err) {
+      console.error('[Snapshots] Failed to save:', err);
+      setMessage("Couldn't save the snapshot");
+    }
+    setBusyId(null);
+    refresh();
+  };
+
+  const handleRestore = async (snapshot: Snapshot) => {
+    const confirmed = confirm(
+      `Restore "${snapshot.label}" from ${formatTimestamp(snapshot.created_at)}? ` +
+      'Habits and entries will be put back exactly as they were; anything added since is removed. ' +
+      'Your current data is snapshotted first.'
+    );
+    if (!confirmed) return;
+
+    setBusyId(snapshot.id);
+    setMessage(null);
+    try {
+      await restoreSnapshot(snapshot.id, (done, total) => setProgress({ done, total }));
+      setMessage(`Restored "${snapshot.label}"`);
+    } catch (err) {
+      console.error('[Snapshots] Restore failed:', err);
+      setMessage('Restore stopped partway - try again, or restore the "Before restoring" snapshot');
+    }
+    setBusyId(null);
+    setProgress(null);
+    refresh();
+  };
+
+  const handleDelete = async (snapshot: Snapshot) => {
+    if (!confirm(`Delete the snapshot "${snapshot.label}"?`)) return;
+    await deleteSnapshot(snapshot.id);
+    refresh();
+  };
+
+  return (
+    <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-[#8b949e]">Snapshots</h3>
+        <button
+          onClick={handleTake}
+          disabled={busyId !== null}
+          className="flex items-center gap-1.5 px-2.5 py-1 bg-[#21262d] text-[#c9d1d9] border border-[#30363d] rounded-lg text-xs hover:bg-[#30363d] transition-colors disabled:opacity-50"
+        >
+          <History size={12} /> Take snapshot
+        </button>
+      </div>
+      <p className="text-xs text-[#6e7681] mb-3">
+        Saved on this device before imports, upgrades, seeding, permanent deletes and cache resets. The last 10 are kept.
+      </p>
+
+      {message && <p className="text-xs text-[#58a6ff] mb-3">{message}</p>}
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-[#6e7681] text-center py-4">No snapshots yet</p>
+      ) : (
+        <ul className="divide-y divide-[#21262d]">
+          {snapshots.map(snapshot => (
+            <li key={snapshot.id} className="flex items-center gap-3 py-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-[#c9d1d9] truncate">{snapshot.label}</p>
+                <p className="text-xs text-[#6e7681]">
+                  <span className="px-1.5 py-0.5 mr-1.5 bg-[#21262d] rounded text-[10px] uppercase tracking-wide">
+                    {REASON_LABELS[snapshot.reason]}
+                  </span>
+                  {formatTimestamp(snapshot.created_at)} · {snapshot.habits.length} habits · {snapshot.entries.length} entries
+                </p>
+              </div>
+              {busyId === snapshot.id && progress ? (
+                <span className="text-xs text-[#8b949e]">{progress.done}/{progress.total}</span>
+              ) : (
+                <>
+                  <button
+                    onClick={() => handleRestore(snapshot)}
+                    disabled={busyId !== null}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-[#58a6ff] hover:bg-[#58a6ff]/10 rounded transition-colors disabled:opacity-50"
+                  >
+                    <RotateCcw size={12} /> Restore
+                  </button>
+                  <button
+                    onClick={() => handleDelete(snapshot)}
+                    disabled={busyId !== null}
+                    className="p-1 text-[#6e7681] hover:text-[#f85149] transition-colors disabled:opacity-50"
+                    title="Delete snapshot"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CloudDownload, CloudUpload, Download, RefreshCw, Wifi, WifiOff } from 'lucide-react';
+import { useSync } from '../hooks/useSync';
+import { type CacheStats, type SyncTable, getCacheStats, getLocalCache, hasRemoteBackend } from '../lib/sync';
+import { type SyncEvent, type SyncOutcome, describeOperation, getSyncEvents, subscribeSyncEvents } from '../lib/syncLog';
+import { buildDebugBundle } from '../lib/debugBundle';
+import { takeSnapshot } from '../lib/snapshots';
+
+type Action = 'push' | 'pull' | 'reset';
+
+const TABLE_LABELS: Record<SyncTable, string> = {
+  habits: 'Habits',
+  habit_entries: 'Entries',
+};
+
+const OUTCOME_COLORS: Record<SyncOutcome, string> = {
+  success: 'text-[#238636]',
+  queued: 'text-[#d29922]',
+  failed: 'text-[#f85149]',
+  superseded: 'text-[#8b949e]',
+  dead_letter: 'text-[#f85149]',
+};
+
+const RECENT_EVENTS = 8;
+
+function formatTimestamp(iso: string | null): string {
+  if (!iso) return 'Never';
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Sync status, diagnostics and manual controls for the Settings tab
+export function SyncCenter() {
+  const {
+    isOnline,
+    lastSyncByTable,
+    pendingChanges,
+    conflicts,
+    errors,
+    failedChanges,
+    retryFailedChange,
+    discardFailedChange,
+    clearErrors,
+    forcePush,
+    forcePull,
+    resetCache,
+    configError,
+  } = useSync();
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [busy, setBusy] = useState<Action | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [events, setEvents] = useState<SyncEvent[]>([]);
+  const hasBackend = hasRemoteBackend() && !configError;
+
+  useEffect(() => {
+    const refreshEvents = () => setEvents(getSyncEvents().slice(-RECENT_EVENTS).reverse());
+    refreshEvents();
+    return subscribeSyncEvents(refreshEvents);
+  }, []);
+
+  const refreshStats = useCallback(async () => {
+    try {
+      setCacheStats(await getCacheStats());
+    } catch (err) {
+      console.warn('[Sync] Failed to read cache stats:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats]);
+
+  const run = async (action: Action, task: () => Promise<string>) => {
+    setBusy(action);
+    setMessage(null);
+    try {
+      setMessage({ text: await task(), isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), isError: true });
+    }
+    setBusy(null);
+    refreshStats();
+  };
+
+  const handlePush = () => run('push', async () => {
+    const remaining = await forcePush();
+    return remaining === 0 ? 'All changes pushed' : `${remaining} change${remaining === 1 ? '' : 's'} still waiting - see errors below`;
+  });
+
+  const handlePull = () => run('pull', async () => {
+    const { habits, entries } = await forcePull();
+    return `Pulled ${habits} habits and ${entries} entries`;
+  });
+
+  const handleReset = () => {
+    const confirmed = confirm(
+      'Replace everything stored on this device with the cloud copy? ' +
+      (pendingChanges > 0 ? `${pendingChanges} change${pendingChanges === 1 ? '' : 's'} not yet pushed will be lost. ` : '') +
+      'The local data is snapshotted first.'
+    );
+    if (!confirmed) return;
+
+    run('reset', async () => {
+      await takeSnapshot('reset', 'Before resetting from the cloud', await getLocalCache());
+      const { habits, entries, discarded } = await resetCache();
+      return `Reloaded ${habits} habits and ${entries} entries from the cloud` +
+        (discarded > 0 ? `, dropped ${discarded} queued change${discarded === 1 ? '' : 's'}` : '');
+    });
+  };
+
+  const handleRetry = (id: string) => run('push', async () => {
+    const remaining = await retryFailedChange(id);
+    return remaining === 0 ? 'Change pushed' : `${remaining} change${remaining === 1 ? '' : 's'} still waiting`;
+  });
+
+  const handleDiscard = (id: string) => {
+    if (!confirm("Discard this change? It won't reach the cloud, and the next sync shows the cloud's version.")) return;
+    discardFailedChange(id);
+  };
+
+  const handleDownloadBundle = async () => {
+    try {
+      const bundle = await buildDebugBundle();
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `master-mausam-debug-${bundle.created_at.slice(0, 19).replace(/:/g, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('[Sync] Failed to build debug bundle:', err);
+      setMessage({ text: "Couldn't build the debug bundle", isError: true });
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-1.5 px-2.5 py-1 bg-[#21262d] text-[#c9d1d9] border border-[#30363d] rounded-lg text-xs hover:bg-[#30363d] transition-colors disabled:opacity-50';
+
+  return (
+    <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-[#8b949e]">Sync</h3>
+        {hasBackend ? (
+          <span className={`flex items-center gap-1 text-xs ${isOnline ? 'text-[#238636]' : 'text-[#d29922]'}`}>
+            {isOnline ? <Wifi size={12} /> : <WifiOff size={12} />} {isOnline ? 'Online' : 'Offline'}
+          </span>
+        ) : (
+          <span className="text-xs text-[#6e7681]">Local only</span>
+        )}
+      </div>
+      <p className="text-xs text-[#6e7681] mb-3">
+        {hasBackend
+          ? 'Changes are saved locally first, then synced to the server.'
+          : configError || 'No cloud backend configured - data stays on this device.'}
+      </p>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1.5 text-sm mb-3">
+        {(Object.keys(TABLE_LABELS) as SyncTable[]).map(table => (
+          <div key={table} className="contents">
+            <dt className="text-[#8b949e]">{TABLE_LABELS[table]} last synced</dt>
+            <dd className="text-[#c9d1d9] text-right">{formatTimestamp(lastSyncByTable[table])}</dd>
+          </div>
+        ))}
+        <dt className="text-[#8b949e]">Pending changes</dt>
+        <dd className={`text-right ${pendingChanges > 0 ? 'text-[#d29922]' : 'text-[#c9d1d9]'}`}>{pendingChanges}</dd>
+        <dt className="text-[#8b949e]">Conflicts</dt>
+        <dd className="text-[#c9d1d9] text-right">{conflicts.length}</dd>
+        <dt className="text-[#8b949e]">Local cache</dt>
+        <dd className="text-[#c9d1d9] text-right">
+          {cacheStats
+            ? `${cacheStats.habits} habits · ${cacheStats.entries} entries · ${formatBytes(cacheStats.bytes)}`
+            : '…'}
+        </dd>
+        {cacheStats?.storageUsed != null && (
+          <>
+            <dt className="text-[#8b949e]">Storage used</dt>
+            <dd className="text-[#c9d1d9] text-right">{formatBytes(cacheStats.storageUsed)}</dd>
+          </>
+        )}
+      </dl>
+
+      {hasBackend && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          <button onClick={handlePush} disabled={busy !== null} className={buttonClass}>
+            <CloudUpload size={12} /> {busy === 'push' ? 'Pushing…' : 'Push now'}
+          </button>
+          <button onClick={handlePull} disabled={busy !== null} className={buttonClass}>
+            <CloudDownload size={12} /> {busy === 'pull' ? 'Pulling…' : 'Pull now'}
+          </button>
+          <button
+            onClick={handleReset}
+            disabled={busy !== null}
+            className="flex items-center gap-1.5 px-2.5 py-1 text-[#f85149] border border-[#f85149]/30 rounded-lg text-xs hover:bg-[#f85149]/10 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw size={12} className={busy === 'reset' ? 'animate-spin' : ''} /> Reset from cloud
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs mb-3 ${message.isError ? 'text-[#f85149]' : 'text-[#58a6ff]'}`}>{message.text}</p>
+      )}
+
+      {failedChanges.length > 0 && (
+        <div className="mb-3 p-2 bg-[#f85149]/10 border border-[#f85149]/30 rounded-lg">
+          <h4 className="text-xs font-medium text-[#f85149] mb-1">
+            Failed changes ({failedChanges.length})
+          </h4>
+          <p className="text-xs text-[#8b949e] mb-1.5">
+            Set aside so the rest of the queue could sync. Retry once the cause is fixed, or discard.
+          </p>
+          <ul className="max-h-40 overflow-y-auto divide-y divide-[#21262d]">
+            {failedChanges.map(change => (
+              <li key={change.id} className="flex items-start gap-2 py-1.5 text-xs">
+                <div className="flex-1 min-w-0">
+                  <p className="text-[#c9d1d9] font-mono truncate">
+                    {change.kind} {describeOperation(change).entryId ?? ''}
+                  </p>
+                  <p className="text-[#6e7681]">
+                    {formatTimestamp(change.failed_at)} · {change.reason === 'rejected' ? 'Rejected by the server' : `Gave up after ${change.attempts} attempts`}
+                  </p>
+                  {change.last_error && <p className="text-[#f85149] font-mono break-all">{change.last_error}</p>}
+                </div>
+                <button
+                  onClick={() => handleRetry(change.id)}
+                  disabled={busy !== null || !hasBackend}
+                  className="text-[#58a6ff] hover:underline disabled:opacity-50"
+                >
+                  Retry
+                </button>
+                <button onClick={() => handleDiscard(change.id)} className="text-[#6e7681] hover:text-[#f85149]">
+                  Discard
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-xs font-medium text-[#8b949e]">Recent activity</h4>
+        <button onClick={handleDownloadBundle} className="flex items-center gap-1 text-xs text-[#58a6ff] hover:underline">
+          <Download size={12} /> Debug bundle
+        </button>
+      </div>
+      {events.length === 0 ? (
+        <p className="text-xs text-[#6e7681] mb-3">No sync calls logged yet</p>
+      ) : (
+        <ul className="mb-3 font-mono text-[11px] space-y-0.5">
+          {events.map(event => (
+            <li key={event.id} className="flex items-center gap-2 min-w-0">
+              <span className="text-[#6e7681] shrink-0">{new Date(event.at).toLocaleTimeString()}</span>
+              <span className="text-[#c9d1d9] truncate flex-1" title={event.error_message ?? event.entry_id ?? undefined}>
+                {event.operation}
+              </span>
+              <span className="text-[#6e7681] shrink-0">{event.duration_ms} ms</span>
+              <span className={`shrink-0 ${OUTCOME_COLORS[event.outcome]}`}>
+                {event.outcome}{event.error_code ? ` (${event.error_code})` : ''}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-xs font-medium text-[#8b949e]">Recent errors</h4>
+        {errors.length > 0 && (
+          <button onClick={clearErrors} className="text-xs text-[#6e7681] hover:text-[#c9d1d9]">
+            Clear
+          </button>
+        )}
+      </div>
+      {errors.length === 0 ? (
+        <p className="text-xs text-[#6e7681]">None</p>
+      ) : (
+        <ul className="max-h-40 overflow-y-auto divide-y divide-[#21262d]">
+          {errors.map((error, i) => (
+            <li key={`${error.at}:${i}`} className="py-1.5 text-xs">
+              <p className="text-[#c9d1d9]">
+                <span className="text-[#6e7681] mr-1.5">{formatTimestamp(error.at)}</span>
+                {error.message}
+                {error.code && <span className="text-[#6e7681] ml-1.5 font-mono">{error.code}</span>}
+              </p>
+              <p className="text-[#f85149] font-mono break-all">{error.detail}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { applyServiceWorkerUpdate, isUpdateAvailable, subscribeServiceWorkerUpdate } from '../lib/serviceWorker';
+
+// "Update available" banner, shown once a new build has been precached
+export function UpdatePrompt() {
+  const [available, setAvailable] = useState(isUpdateAvailable());
+  const [dismissed, setDismissed] = useState(false);
+  const [isReloading, setIsReloading] = useState(false);
+
+  useEffect(() => subscribeServiceWorkerUpdate(setAvailable), []);
+
+  if (!available || dismissed) return null;
+
+  return (
+    <div className="fixed top-3 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 pl-4 pr-2 py-2 max-w-[calc(100vw-2rem)] bg-[#161b22] border border-[#30363d] rounded-lg shadow-lg">
+      <span className="text-sm text-[#c9d1d9]">A new version is available</span>
+      <button
+        onClick={() => {
+          setIsReloading(true);
+          applyServiceWorkerUpdate();
+        }}
+        disabled={isReloading}
+        className="flex items-center gap-1 px-2.5 py-1 bg-[#238636] text-white rounded text-xs font-medium hover:bg-[#2ea043] transition-colors disabled:opacity-50"
+      >
+        <RefreshCw size={12} className={isReloading ? 'animate-spin' : ''} /> Reload
+      </button>
+      <button onClick={() => setDismissed(true)} className="p-1 text-[#6e7681] hover:text-[#c9d1d9]" title="Later">
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { isUpgradeBlocked, subscribeUpgradeBlocked } from '../lib/localDb';
+
+// Shown while a tab running an older version keeps the local cache from upgrading
+export function UpgradeBlockedNotice() {
+  const [blocked, setBlocked] = useState(isUpgradeBlocked());
+
+  useEffect(() => subscribeUpgradeBlocked(setBlocked), []);
+
+  if (!blocked) return null;
+
+  return (
+    <div className="fixed top-3 left-1/2 -translate-x-1/2 z-[110] flex items-start gap-2 px-4 py-2 max-w-[calc(100vw-2rem)] bg-[#161b22] border border-[#d29922]/50 rounded-lg shadow-lg">
+      <AlertTriangle size={16} className="text-[#d29922] shrink-0 mt-0.5" />
+      <p className="text-sm text-[#c9d1d9]">
+        Master Mausam is open in another tab running an older version. Close or reload that tab to finish updating this one.
+      </p>
+    </div>
+  );
+}
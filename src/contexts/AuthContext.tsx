@@ -1,4 +1,6 @@
-import { createContext, useContext, useState, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase, isSupabaseAuthEnabled, LOCAL_USER_ID } from '../lib/supabase';
 
 interface User {
   id: string;
@@ -7,30 +9,79 @@ interface User {
 
 interface AuthContextType {
   user: User | null;
+  session: Session | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  isLocalMode: boolean;
+  signInWithEmail: (email: string) => Promise<{ error: string | null }>;
+  signOut: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Fixed dev user - always logged in
-const DEV_USER: User = {
-  id: '895cd28a-37ea-443c-b7bb-eca88c857d05',
-  email: 'mausampatel111@gmail.com',
-  app_metadata: {},
-  user_metadata: {},
-  aud: 'authenticated',
-  created_at: new Date().toISOString(),
-} as User;
+// Without Supabase Auth there is nobody to sign in as - use a single local profile
+const LOCAL_USER: User = {
+  id: LOCAL_USER_ID,
+  email: '',
+};
+
+function toUser(session: Session | null): User | null {
+  if (!session) return null;
+  return {
+    id: session.user.id,
+    email: session.user.email ?? '',
+  };
+}
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user] = useState<User>(DEV_USER);
-  const [isLoading] = useState(false);
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(isSupabaseAuthEnabled);
+
+  useEffect(() => {
+    if (!isSupabaseAuthEnabled) return;
+
+    // INITIAL_SESSION fires once the stored session (or magic-link token in the URL) is read
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setIsLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const signInWithEmail = useCallback(async (email: string): Promise<{ error: string | null }> => {
+    if (!isSupabaseAuthEnabled) {
+      return { error: 'Sign-in requires the Supabase backend' };
+    }
+
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: `${window.location.origin}${import.meta.env.BASE_URL}`,
+      },
+    });
+    return { error: error?.message ?? null };
+  }, []);
+
+  const signOut = useCallback(async () => {
+    if (!isSupabaseAuthEnabled) return;
+
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('[Auth] Sign out failed:', error);
+    }
+  }, []);
+
+  const user = isSupabaseAuthEnabled ? toUser(session) : LOCAL_USER;
 
   const value: AuthContextType = {
     user,
+    session,
     isLoading,
-    isAuthenticated: true,
+    isAuthenticated: user !== null,
+    isLocalMode: !isSupabaseAuthEnabled,
+    signInWithEmail,
+    signOut,
   };
 
   return (
@@ -2,6 +2,11 @@ import { useEffect, useState, useCallback, useRef } from 'react';
 import {
   Habit,
   HabitEntry,
+  EntryData,
+  SyncConflict,
+  SyncError,
+  SyncTable,
+  DeadLetter,
   getHabits,
   getHabitEntries,
   saveHabit,
@@ -11,10 +16,25 @@ import {
   reorderHabits,
   getHabitEntry,
   getCurrentSyncStatus,
+  subscribeSyncStatus,
+  subscribeToHabitChanges,
+  subscribeToEntryChanges,
+  getConflicts,
+  dismissConflict as dismissSyncConflict,
+  clearConflicts as clearSyncConflicts,
   checkOnlineStatus,
-  isSupabaseConfigured,
-  checkSupabaseConfig,
+  hasRemoteBackend,
+  checkBackendConfig,
+  getSyncErrors,
+  clearSyncErrors,
+  flushPendingChanges,
+  pullFromCloud,
+  resetCacheFromCloud,
+  getDeadLetters,
+  retryFailedChange,
+  discardFailedChange,
 } from '../lib/sync';
+import { applyRowChange } from '../lib/changeFeed';
 
 // ============================================
 // HABITS HOOK - CLOUD FIRST WITH PROACTIVE SYNC
@@ -27,11 +47,13 @@ interface UseHabitsReturn {
   isOnline: boolean;
   lastSyncAt: string | null;
   isSyncing: boolean;
-  refetch: () => Promise<void>;
+  refetch: (showLoading?: boolean) => Promise<void>;
   addHabit: (habit: Omit<Habit, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<Habit>;
   updateHabit: (id: string, updates: Partial<Habit>) => Promise<Habit | null>;
   removeHabit: (id: string) => Promise<void>;
   reorder: (habitIds: string[]) => Promise<void>;
+  // Hold back polled and realtime updates, e.g. while a drag is in progress
+  holdUpdates: (held: boolean) => void;
 }
 
 export function useHabits(): UseHabitsReturn {
@@ -43,36 +65,55 @@ export function useHabits(): UseHabitsReturn {
   const [isSyncing, setIsSyncing] = useState(false);
   const isMounted = useRef(true);
   const syncInterval = useRef<NodeJS.Timeout | null>(null);
+  const isFeedLive = useRef(false);
 
-  // Check Supabase config on mount
+  // Incoming data is held while a drag is in progress or a reorder is being
+  // written, so a poll can't snap the board back to the old order. Anything
+  // skipped meanwhile is caught up with one refetch afterwards.
+  const isHeld = useRef(false);
+  const reordersInFlight = useRef(0);
+  const orderVersion = useRef(0);
+  const missedUpdate = useRef(false);
+
+  const isOrderLocked = useCallback(() => isHeld.current || reordersInFlight.current > 0, []);
+
+  // Check sync backend config on mount
   useEffect(() => {
-    const config = checkSupabaseConfig();
+    const config = checkBackendConfig();
     if (!config.ok) {
       console.error('[useHabits]', config.error);
-      setError(config.error || 'Supabase not configured');
+      setError(config.error || 'Sync backend not configured');
     }
   }, []);
 
-  // Fetch habits from cloud or localStorage
+  // Fetch habits from cloud or IndexedDB cache
   const fetchHabits = useCallback(async (showLoading = true) => {
     if (showLoading) setIsLoading(true);
     setError(null);
     
-    // If Supabase not configured, load from localStorage only
-    if (!isSupabaseConfigured) {
-      console.log('[useHabits] Supabase not configured, using localStorage fallback');
+    const version = orderVersion.current;
+    // Results from before (or during) a local reorder would undo it on screen
+    const isStale = () => {
+      if (!isOrderLocked() && version === orderVersion.current) return false;
+      missedUpdate.current = true;
+      return true;
+    };
+
+    // If no sync backend, load from IndexedDB cache only
+    if (!hasRemoteBackend()) {
+      console.log('[useHabits] No sync backend, using IndexedDB fallback');
       try {
         const { getLocalCache } = await import('../lib/sync');
-        const cache = getLocalCache();
-        if (isMounted.current) {
+        const cache = await getLocalCache();
+        if (isMounted.current && !isStale()) {
           setHabits(cache.habits);
           setIsOnline(false);
           setLastSyncAt(null);
         }
       } catch (err) {
-        console.error('[useHabits] Failed to load from localStorage:', err);
+        console.error('[useHabits] Failed to load from IndexedDB:', err);
         if (isMounted.current) {
-          setError('Failed to load habits from local storage');
+          setError('Failed to load habits from local cache');
         }
       } finally {
         if (isMounted.current) {
@@ -87,7 +128,7 @@ export function useHabits(): UseHabitsReturn {
     
     try {
       const data = await getHabits();
-      if (isMounted.current) {
+      if (isMounted.current && !isStale()) {
         setHabits(data);
         const status = getCurrentSyncStatus();
         setIsOnline(status.isOnline);
@@ -102,12 +143,12 @@ export function useHabits(): UseHabitsReturn {
         setIsLoading(false);
       }
     }
-  }, []);
+  }, [isOrderLocked]);
 
-  // PROACTIVE SYNC: Poll every 30 seconds (only if Supabase configured)
+  // PROACTIVE SYNC: Poll every 30 seconds (only if a sync backend is configured)
   useEffect(() => {
-    if (!isSupabaseConfigured) {
-      // Initial load from localStorage when no Supabase
+    if (!hasRemoteBackend()) {
+      // Initial load from IndexedDB cache when no sync backend
       fetchHabits();
       return;
     }
@@ -115,9 +156,9 @@ export function useHabits(): UseHabitsReturn {
     // Initial load from cloud
     fetchHabits();
 
-    // Set up polling interval (30 seconds)
+    // Set up polling interval (30 seconds) - fallback while realtime is down
     syncInterval.current = setInterval(() => {
-      if (document.visibilityState === 'visible') {
+      if (document.visibilityState === 'visible' && !isFeedLive.current) {
         console.log('[Sync] Polling for updates...');
         fetchHabits(false); // Don't show loading spinner on poll
       }
@@ -130,10 +171,10 @@ export function useHabits(): UseHabitsReturn {
     };
   }, [fetchHabits]);
 
-  // PROACTIVE SYNC: Refresh when tab becomes visible
+  // PROACTIVE SYNC: Refresh when tab becomes visible (unless realtime kept us current)
   useEffect(() => {
     const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
+      if (document.visibilityState === 'visible' && !isFeedLive.current) {
         console.log('[Sync] Tab visible, refreshing data...');
         fetchHabits(false);
       }
@@ -143,6 +184,25 @@ export function useHabits(): UseHabitsReturn {
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
   }, [fetchHabits]);
 
+  // REALTIME: Apply row-level changes from other devices as they arrive
+  useEffect(() => {
+    return subscribeToHabitChanges(
+      (change) => {
+        if (!isMounted.current) return;
+        if (isOrderLocked()) {
+          missedUpdate.current = true;
+          return;
+        }
+        setHabits(prev => applyRowChange(prev, change).sort((a, b) => a.order_index - b.order_index));
+      },
+      (live) => {
+        // Catch up on anything missed while the channel was down
+        if (live && !isFeedLive.current) fetchHabits(false);
+        isFeedLive.current = live;
+      }
+    );
+  }, [fetchHabits, isOrderLocked]);
+
   // Cleanup
   useEffect(() => {
     return () => {
@@ -211,30 +271,50 @@ export function useHabits(): UseHabitsReturn {
     }
   }, []);
 
-  // Reorder habits - cloud first
+  // Catch up on whatever was held back, once nothing is holding it anymore
+  const flushMissed = useCallback(() => {
+    if (isOrderLocked() || !missedUpdate.current || !isMounted.current) return;
+    missedUpdate.current = false;
+    fetchHabits(false);
+  }, [fetchHabits, isOrderLocked]);
+
+  const holdUpdates = useCallback((held: boolean) => {
+    isHeld.current = held;
+    if (!held) flushMissed();
+  }, [flushMissed]);
+
+  // Reorder habits - optimistic, so a drop lands immediately; one write per call
   const reorder = useCallback(async (habitIds: string[]): Promise<void> => {
+    orderVersion.current += 1;
+    reordersInFlight.current += 1;
     setIsSyncing(true);
+
+    // Habits left out of habitIds (e.g. archived) keep their place after the reordered ones
+    setHabits(prev => {
+      const positions = new Map(habitIds.map((id, index) => [id, index]));
+      return prev
+        .map(h => positions.has(h.id) ? { ...h, order_index: positions.get(h.id)! } : h)
+        .sort((a, b) => a.order_index - b.order_index);
+    });
+
     try {
       await reorderHabits(habitIds);
-      
+
       if (isMounted.current) {
-        setHabits(prev => {
-          const habitMap = new Map(prev.map(h => [h.id, h]));
-          return habitIds
-            .map((id, index) => {
-              const habit = habitMap.get(id);
-              return habit ? { ...habit, order_index: index } : null;
-            })
-            .filter((h): h is Habit => h !== null);
-        });
         const status = getCurrentSyncStatus();
         setIsOnline(status.isOnline);
         setLastSyncAt(new Date().toISOString());
       }
+    } catch (err) {
+      // Put back whatever the backend actually has
+      missedUpdate.current = true;
+      throw err;
     } finally {
+      reordersInFlight.current -= 1;
       setIsSyncing(false);
+      flushMissed();
     }
-  }, []);
+  }, [flushMissed]);
 
   return {
     habits,
@@ -248,6 +328,7 @@ export function useHabits(): UseHabitsReturn {
     updateHabit,
     removeHabit,
     reorder,
+    holdUpdates,
   };
 }
 
@@ -261,9 +342,9 @@ interface UseHabitEntriesReturn {
   error: string | null;
   isOnline: boolean;
   isSyncing: boolean;
-  refetch: () => Promise<void>;
+  refetch: (showLoading?: boolean) => Promise<void>;
   getEntry: (habitId: string, date: string) => Promise<HabitEntry | undefined>;
-  setEntry: (habitId: string, date: string, data: { value: number; fasting_hours?: number; note?: string }) => Promise<HabitEntry>;
+  setEntry: (habitId: string, date: string, data: EntryData) => Promise<HabitEntry>;
   removeEntry: (habitId: string, date: string) => Promise<void>;
 }
 
@@ -275,17 +356,18 @@ export function useHabitEntries(options?: { habitId?: string }): UseHabitEntries
   const [isSyncing, setIsSyncing] = useState(false);
   const isMounted = useRef(true);
   const syncInterval = useRef<NodeJS.Timeout | null>(null);
+  const isFeedLive = useRef(false);
 
   const fetchEntries = useCallback(async (showLoading = true) => {
     if (showLoading) setIsLoading(true);
     setError(null);
     
-    // If Supabase not configured, load from localStorage only
-    if (!isSupabaseConfigured) {
-      console.log('[useHabitEntries] Supabase not configured, using localStorage fallback');
+    // If no sync backend, load from IndexedDB cache only
+    if (!hasRemoteBackend()) {
+      console.log('[useHabitEntries] No sync backend, using IndexedDB fallback');
       try {
         const { getLocalCache } = await import('../lib/sync');
-        const cache = getLocalCache();
+        const cache = await getLocalCache();
         let entries = cache.entries;
         if (options?.habitId) {
           entries = entries.filter(e => e.habit_id === options.habitId);
@@ -295,9 +377,9 @@ export function useHabitEntries(options?: { habitId?: string }): UseHabitEntries
           setIsOnline(false);
         }
       } catch (err) {
-        console.error('[useHabitEntries] Failed to load from localStorage:', err);
+        console.error('[useHabitEntries] Failed to load from IndexedDB:', err);
         if (isMounted.current) {
-          setError('Failed to load entries from local storage');
+          setError('Failed to load entries from local cache');
         }
       } finally {
         if (isMounted.current) {
@@ -325,10 +407,10 @@ export function useHabitEntries(options?: { habitId?: string }): UseHabitEntries
     }
   }, [options?.habitId]);
 
-  // PROACTIVE SYNC: Poll every 30 seconds (only if Supabase configured)
+  // PROACTIVE SYNC: Poll every 30 seconds (only if a sync backend is configured)
   useEffect(() => {
-    if (!isSupabaseConfigured) {
-      // Initial load from localStorage when no Supabase
+    if (!hasRemoteBackend()) {
+      // Initial load from IndexedDB cache when no sync backend
       fetchEntries();
       return;
     }
@@ -336,9 +418,9 @@ export function useHabitEntries(options?: { habitId?: string }): UseHabitEntries
     // Initial load from cloud
     fetchEntries();
 
-    // Set up polling interval
+    // Set up polling interval - fallback while realtime is down
     syncInterval.current = setInterval(() => {
-      if (document.visibilityState === 'visible') {
+      if (document.visibilityState === 'visible' && !isFeedLive.current) {
         console.log('[Sync] Polling entries for updates...');
         fetchEntries(false);
       }
@@ -354,7 +436,7 @@ export function useHabitEntries(options?: { habitId?: string }): UseHabitEntries
   // PROACTIVE SYNC: Refresh when tab becomes visible
   useEffect(() => {
     const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
+      if (document.visibilityState === 'visible' && !isFeedLive.current) {
         console.log('[Sync] Tab visible, refreshing entries...');
         fetchEntries(false);
       }
@@ -364,6 +446,22 @@ export function useHabitEntries(options?: { habitId?: string }): UseHabitEntries
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
   }, [fetchEntries]);
 
+  // REALTIME: Apply row-level changes from other devices as they arrive
+  useEffect(() => {
+    return subscribeToEntryChanges(
+      (change) => {
+        if (!isMounted.current) return;
+        const habitId = change.new?.habit_id ?? change.old?.habit_id;
+        if (options?.habitId && habitId && habitId !== options.habitId) return;
+        setEntries(prev => applyRowChange(prev, change));
+      },
+      (live) => {
+        if (live && !isFeedLive.current) fetchEntries(false);
+        isFeedLive.current = live;
+      }
+    );
+  }, [fetchEntries, options?.habitId]);
+
   useEffect(() => {
     return () => {
       isMounted.current = false;
@@ -378,7 +476,7 @@ export function useHabitEntries(options?: { habitId?: string }): UseHabitEntries
   const setEntry = useCallback(async (
     habitId: string,
     date: string,
-    data: { value: number; fasting_hours?: number; note?: string }
+    data: EntryData
   ): Promise<HabitEntry> => {
     setIsSyncing(true);
     
@@ -390,6 +488,8 @@ export function useHabitEntries(options?: { habitId?: string }): UseHabitEntries
       date,
       value: data.value,
       fasting_hours: data.fasting_hours,
+      fasting_started_at: data.fasting_started_at,
+      fasting_ended_at: data.fasting_ended_at,
       note: data.note,
       updated_at: new Date().toISOString(),
     };
@@ -461,20 +561,40 @@ export function useHabitEntries(options?: { habitId?: string }): UseHabitEntries
 interface UseSyncReturn {
   isOnline: boolean;
   lastSyncAt: string | null;
+  lastSyncByTable: Record<SyncTable, string | null>;
   isChecking: boolean;
+  pendingChanges: number;
+  conflicts: SyncConflict[];
+  errors: SyncError[];
+  // Queued changes the backend rejected or that ran out of attempts
+  failedChanges: DeadLetter[];
   checkConnection: () => Promise<boolean>;
+  dismissConflict: (id: string) => void;
+  clearConflicts: () => void;
+  clearErrors: () => void;
+  // Manual controls for the Settings sync panel; these throw on failure
+  forcePush: () => Promise<number>;
+  forcePull: () => Promise<{ habits: number; entries: number }>;
+  resetCache: () => Promise<{ habits: number; entries: number; discarded: number }>;
+  retryFailedChange: (id: string) => Promise<number>;
+  discardFailedChange: (id: string) => void;
   configError: string | null;
 }
 
 export function useSync(): UseSyncReturn {
   const [isOnline, setIsOnline] = useState(true);
   const [lastSyncAt, setLastSyncAt] = useState<string | null>(null);
+  const [lastSyncByTable, setLastSyncByTable] = useState<Record<SyncTable, string | null>>({ habits: null, habit_entries: null });
   const [isChecking, setIsChecking] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [errors, setErrors] = useState<SyncError[]>([]);
+  const [failedChanges, setFailedChanges] = useState<DeadLetter[]>([]);
   const [configError, setConfigError] = useState<string | null>(null);
 
   // Check config on mount
   useEffect(() => {
-    const config = checkSupabaseConfig();
+    const config = checkBackendConfig();
     if (!config.ok) {
       setConfigError(config.error || 'Configuration error');
       setIsOnline(false);
@@ -486,10 +606,25 @@ export function useSync(): UseSyncReturn {
     const status = getCurrentSyncStatus();
     setIsOnline(status.isOnline);
     setLastSyncAt(status.lastSyncAt);
+    setLastSyncByTable(status.lastSyncByTable);
+    setPendingChanges(status.pendingChanges);
+    setConflicts(getConflicts());
+    setErrors(getSyncErrors());
+    setFailedChanges(getDeadLetters());
+
+    return subscribeSyncStatus((next) => {
+      setIsOnline(next.isOnline);
+      setLastSyncAt(next.lastSyncAt);
+      setLastSyncByTable(next.lastSyncByTable);
+      setPendingChanges(next.pendingChanges);
+      setConflicts(getConflicts());
+      setErrors(getSyncErrors());
+      setFailedChanges(getDeadLetters());
+    });
   }, []);
 
   const checkConnection = useCallback(async (): Promise<boolean> => {
-    if (!isSupabaseConfigured) {
+    if (!hasRemoteBackend()) {
       setIsOnline(false);
       return false;
     }
@@ -510,11 +645,64 @@ export function useSync(): UseSyncReturn {
     }
   }, []);
 
+  // Replay queued changes as soon as the browser reports connectivity
+  useEffect(() => {
+    const handleOnline = () => {
+      console.log('[Sync] Back online, replaying pending changes...');
+      checkConnection();
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [checkConnection]);
+
+  // Keep retrying while changes are waiting (outbox applies its own backoff)
+  useEffect(() => {
+    if (!hasRemoteBackend() || pendingChanges === 0) return;
+
+    const retryInterval = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        checkConnection();
+      }
+    }, 30000);
+
+    return () => clearInterval(retryInterval);
+  }, [pendingChanges, checkConnection]);
+
+  const dismissConflict = useCallback((id: string) => {
+    dismissSyncConflict(id);
+  }, []);
+
+  const clearConflicts = useCallback(() => {
+    clearSyncConflicts();
+  }, []);
+
+  const clearErrors = useCallback(() => {
+    clearSyncErrors();
+  }, []);
+
+  const forcePush = useCallback(() => flushPendingChanges({ force: true }), []);
+  const forcePull = useCallback(() => pullFromCloud(), []);
+  const resetCache = useCallback(() => resetCacheFromCloud(), []);
+
   return {
     isOnline,
     lastSyncAt,
+    lastSyncByTable,
     isChecking,
+    pendingChanges,
+    conflicts,
+    errors,
+    failedChanges,
     checkConnection,
+    dismissConflict,
+    clearConflicts,
+    clearErrors,
+    forcePush,
+    forcePull,
+    resetCache,
+    retryFailedChange,
+    discardFailedChange,
     configError,
   };
 }
@@ -0,0 +1,136 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+
+// ============================================
+// UNDO / REDO HISTORY
+// ============================================
+
+/**
+ * One reversible edit. Both directions write through the normal sync path,
+ * so an undo is just another change as far as the backend is concerned.
+ */
+export interface UndoAction {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+interface UseUndoHistoryReturn {
+  canUndo: boolean;
+  canRedo: boolean;
+  // Most recent action, for the snackbar; cleared when it times out
+  notice: { label: string; kind: 'done' | 'undone' | 'redone' } | null;
+  record: (action: UndoAction) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  dismiss: () => void;
+}
+
+const MAX_HISTORY = 50;
+const NOTICE_MS = 5000;
+
+// Shortcuts stay out of the way while the user is typing
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Undo stack for the current screen, with Ctrl+Z / Ctrl+Shift+Z (and
+ * Cmd on macOS). Steps run one at a time; presses while one is in flight
+ * are ignored rather than queued.
+ */
+export function useUndoHistory(): UseUndoHistoryReturn {
+  const [past, setPast] = useState<UndoAction[]>([]);
+  const [future, setFuture] = useState<UndoAction[]>([]);
+  const [notice, setNotice] = useState<UseUndoHistoryReturn['notice']>(null);
+  const isRunning = useRef(false);
+  const noticeTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const showNotice = useCallback((label: string, kind: 'done' | 'undone' | 'redone') => {
+    if (noticeTimer.current) clearTimeout(noticeTimer.current);
+    setNotice({ label, kind });
+    noticeTimer.current = setTimeout(() => setNotice(null), NOTICE_MS);
+  }, []);
+
+  const dismiss = useCallback(() => {
+    if (noticeTimer.current) clearTimeout(noticeTimer.current);
+    setNotice(null);
+  }, []);
+
+  // A new edit starts a new branch, so anything undone can't be redone anymore
+  const record = useCallback((action: UndoAction) => {
+    setPast(prev => [...prev, action].slice(-MAX_HISTORY));
+    setFuture([]);
+    showNotice(action.label, 'done');
+  }, [showNotice]);
+
+  const undo = useCallback(async () => {
+    const action = past[past.length - 1];
+    if (!action || isRunning.current) return;
+
+    isRunning.current = true;
+    try {
+      await action.undo();
+      setPast(prev => prev.slice(0, -1));
+      setFuture(prev => [...prev, action]);
+      showNotice(action.label, 'undone');
+    } catch (err) {
+      console.warn('[Undo] Failed to undo:', action.label, err);
+    } finally {
+      isRunning.current = false;
+    }
+  }, [past, showNotice]);
+
+  const redo = useCallback(async () => {
+    const action = future[future.length - 1];
+    if (!action || isRunning.current) return;
+
+    isRunning.current = true;
+    try {
+      await action.redo();
+      setFuture(prev => prev.slice(0, -1));
+      setPast(prev => [...prev, action]);
+      showNotice(action.label, 'redone');
+    } catch (err) {
+      console.warn('[Undo] Failed to redo:', action.label, err);
+    } finally {
+      isRunning.current = false;
+    }
+  }, [future, showNotice]);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  useEffect(() => {
+    return () => {
+      if (noticeTimer.current) clearTimeout(noticeTimer.current);
+    };
+  }, []);
+
+  return {
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    notice,
+    record,
+    undo,
+    redo,
+    dismiss,
+  };
+}
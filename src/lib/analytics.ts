@@ -0,0 +1,149 @@
+import type { Habit } from './sync';
+import { getCompletionRatio } from './habitProgress';
+import { getSchedule, getScheduledProgress, isDueOn } from './schedule';
+
+type AmountMaps = Map<string, Map<string, number>>;
+
+export interface DateSpan {
+  start: string;  // YYYY-MM-DD, inclusive
+  end: string;
+}
+
+/**
+ * Every local date key from start to end, inclusive
+ */
+export function datesInSpan({ start, end }: DateSpan): string[] {
+  const dates: string[] = [];
+  const [year, month, day] = start.split('-').map(Number);
+  for (let i = 0; ; i++) {
+    const date = new Date(year, month - 1, day + i).toLocaleDateString('en-CA');
+    if (date > end) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+function ratioOf(habit: Habit, amounts: AmountMaps, date: string): number {
+  return getCompletionRatio(habit, amounts.get(habit.id)?.get(date) ?? 0);
+}
+
+// ============================================
+// HEATMAP
+// ============================================
+
+export interface HeatmapDay {
+  date: string;
+  due: number;      // Habits due that day
+  percent: number;  // Combined completion, 0-100
+}
+
+/**
+ * Completion of all due habits per day
+ */
+export function buildHeatmap(habits: Habit[], amounts: AmountMaps, dates: string[]): HeatmapDay[] {
+  return dates.map(date => {
+    let due = 0;
+    let done = 0;
+    habits.forEach(habit => {
+      if (!isDueOn(getSchedule(habit), date)) return;
+      due += 1;
+      done += ratioOf(habit, amounts, date);
+    });
+    return { date, due, percent: due > 0 ? Math.round((done / due) * 100) : 0 };
+  });
+}
+
+// ============================================
+// TRENDS
+// ============================================
+
+export interface TrendPoint {
+  start: string;    // First date in the bucket
+  percent: number;
+}
+
+/**
+ * Completion rate per consecutive block of `bucketDays` days
+ */
+export function buildTrend(habit: Habit, amounts: AmountMaps, dates: string[], bucketDays: number): TrendPoint[] {
+  const schedule = getSchedule(habit);
+  const points: TrendPoint[] = [];
+  for (let i = 0; i < dates.length; i += bucketDays) {
+    const bucket = dates.slice(i, i + bucketDays);
+    const { count, total } = getScheduledProgress(schedule, bucket, date => ratioOf(habit, amounts, date));
+    points.push({ start: bucket[0], percent: total > 0 ? Math.round((count / total) * 100) : 0 });
+  }
+  return points;
+}
+
+// ============================================
+// DAY OF WEEK
+// ============================================
+
+/**
+ * Completion percent for each weekday (0 = Sunday), or null when the
+ * habit was never due on that weekday in the range
+ */
+export function weekdayBreakdown(habit: Habit, amounts: AmountMaps, dates: string[]): (number | null)[] {
+  const schedule = getSchedule(habit);
+  const due = Array(7).fill(0);
+  const done = Array(7).fill(0);
+
+  dates.forEach(date => {
+    if (!isDueOn(schedule, date)) return;
+    const [year, month, day] = date.split('-').map(Number);
+    const weekday = new Date(year, month - 1, day).getDay();
+    due[weekday] += 1;
+    done[weekday] += ratioOf(habit, amounts, date);
+  });
+
+  return due.map((count, weekday) => (count > 0 ? Math.round((done[weekday] / count) * 100) : null));
+}
+
+// ============================================
+// CORRELATION
+// ============================================
+
+const MIN_SHARED_DAYS = 7;
+
+/**
+ * Pearson correlation of daily completion between two habits, over days
+ * both were due. Null when there is too little data or one never varies.
+ */
+export function correlate(a: Habit, b: Habit, amounts: AmountMaps, dates: string[]): number | null {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const scheduleA = getSchedule(a);
+  const scheduleB = getSchedule(b);
+
+  dates.forEach(date => {
+    if (!isDueOn(scheduleA, date) || !isDueOn(scheduleB, date)) return;
+    xs.push(ratioOf(a, amounts, date));
+    ys.push(ratioOf(b, amounts, date));
+  });
+  if (xs.length < MIN_SHARED_DAYS) return null;
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    const dx = x - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  });
+  if (varianceX === 0 || varianceY === 0) return null;
+
+  return Math.round((covariance / Math.sqrt(varianceX * varianceY)) * 100) / 100;
+}
+
+export function correlationMatrix(habits: Habit[], amounts: AmountMaps, dates: string[]): (number | null)[][] {
+  return habits.map((a, i) =>
+    habits.map((b, j) => (i === j ? 1 : correlate(a, b, amounts, dates)))
+  );
+}
@@ -0,0 +1,54 @@
+import type { Habit } from './sync';
+
+// Column default in the habits table
+export const DEFAULT_CATEGORY = 'general';
+
+// The set the seed SQL uses, in board order; anything else sorts after these
+export const HABIT_CATEGORIES = [
+  'health',
+  'fitness',
+  'nutrition',
+  'wellness',
+  'learning',
+  'lifestyle',
+  'discipline',
+  DEFAULT_CATEGORY,
+];
+
+export function getCategory(habit: Pick<Habit, 'category'>): string {
+  return normalizeCategory(habit.category);
+}
+
+export function normalizeCategory(category: string | null | undefined): string {
+  return category?.trim().toLowerCase() || DEFAULT_CATEGORY;
+}
+
+export function formatCategory(category: string): string {
+  return category.charAt(0).toUpperCase() + category.slice(1);
+}
+
+function categoryRank(category: string): number {
+  const index = HABIT_CATEGORIES.indexOf(category);
+  return index === -1 ? HABIT_CATEGORIES.length - 1 : index;
+}
+
+/**
+ * Habits bucketed by category, known categories first in their usual order,
+ * then custom ones alphabetically, with "general" last. Habits keep their
+ * relative order within a group.
+ */
+export function groupByCategory<T extends Pick<Habit, 'category'>>(habits: T[]): { category: string; habits: T[] }[] {
+  const groups = new Map<string, T[]>();
+  habits.forEach(habit => {
+    const category = getCategory(habit);
+    if (!groups.has(category)) groups.set(category, []);
+    groups.get(category)!.push(habit);
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => {
+      if (a === DEFAULT_CATEGORY || b === DEFAULT_CATEGORY) return a === DEFAULT_CATEGORY ? 1 : -1;
+      return categoryRank(a) - categoryRank(b) || a.localeCompare(b);
+    })
+    .map(([category, habits]) => ({ category, habits }));
+}
@@ -0,0 +1,128 @@
+import type { RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+
+// Types
+export type FeedTable = 'habits' | 'habit_entries';
+
+export interface RowChange<T> {
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: T | null;        // Row after the change (null on delete)
+  old: Partial<T> | null; // At least the primary key on update/delete
+}
+
+export type ChangeListener<T> = (change: RowChange<T>) => void;
+export type LiveListener = (live: boolean) => void;
+
+/**
+ * Source of row-level changes for a table.
+ * `onLive` reports whether the feed is currently connected, so callers can
+ * fall back to polling while it isn't.
+ */
+export interface ChangeFeed {
+  subscribe<T extends { id: string }>(
+    table: FeedTable,
+    onChange: ChangeListener<T>,
+    onLive?: LiveListener
+  ): () => void;
+}
+
+export interface LocalChangeFeed extends ChangeFeed {
+  emit<T extends { id: string }>(table: FeedTable, change: RowChange<T>): void;
+  setLive(live: boolean): void;
+}
+
+// ============================================
+// SUPABASE REALTIME
+// ============================================
+
+/**
+ * Change feed backed by Supabase Realtime postgres_changes, scoped to one user.
+ * Realtime never delivers DELETEs on a filtered subscription, so deletes come
+ * from a second, unfiltered listener. With RLS on, those carry only the
+ * deleted row's primary key (old.id); ids of rows this user never had are
+ * no-ops for the cache and applyRowChange.
+ */
+export function createSupabaseChangeFeed(client: SupabaseClient, userId: string): ChangeFeed {
+  return {
+    subscribe(table, onChange, onLive) {
+      const forward = (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+        onChange({
+          type: payload.eventType,
+          new: payload.eventType === 'DELETE' ? null : payload.new as never,
+          old: Object.keys(payload.old || {}).length > 0 ? payload.old as never : null,
+        });
+      };
+
+      const channel = client
+        .channel(`${table}:${userId}:${crypto.randomUUID()}`)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter: `user_id=eq.${userId}` }, forward)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter: `user_id=eq.${userId}` }, forward)
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, forward)
+        .subscribe((status, err) => {
+          if (err) console.warn(`[Realtime] ${table} channel error:`, err);
+          onLive?.(status === 'SUBSCRIBED');
+        });
+
+      return () => {
+        onLive?.(false);
+        client.removeChannel(channel);
+      };
+    },
+  };
+}
+
+// ============================================
+// LOCAL (IN-PROCESS) FEED
+// ============================================
+
+/**
+ * In-process change feed. Nothing arrives unless `emit` is called, which
+ * makes it usable as a fake in tests and for local-only setups.
+ */
+export function createLocalChangeFeed(initiallyLive = true): LocalChangeFeed {
+  const listeners = new Map<FeedTable, Set<ChangeListener<never>>>();
+  const liveListeners = new Set<LiveListener>();
+  let live = initiallyLive;
+
+  return {
+    subscribe(table, onChange, onLive) {
+      if (!listeners.has(table)) listeners.set(table, new Set());
+      const tableListeners = listeners.get(table)!;
+      tableListeners.add(onChange as ChangeListener<never>);
+
+      if (onLive) {
+        liveListeners.add(onLive);
+        onLive(live);
+      }
+
+      return () => {
+        tableListeners.delete(onChange as ChangeListener<never>);
+        if (onLive) liveListeners.delete(onLive);
+      };
+    },
+    emit(table, change) {
+      listeners.get(table)?.forEach(listener => listener(change as RowChange<never>));
+    },
+    setLive(next) {
+      live = next;
+      liveListeners.forEach(listener => listener(next));
+    },
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Apply a single row change to a list of rows keyed by id
+ */
+export function applyRowChange<T extends { id: string }>(rows: T[], change: RowChange<T>): T[] {
+  const id = change.new?.id ?? change.old?.id;
+  if (!id) return rows;
+
+  const rest = rows.filter(row => row.id !== id);
+  if (change.type === 'DELETE' || !change.new) return rest;
+
+  const existing = rows.find(row => row.id === id);
+  return [...rest, existing ? { ...existing, ...change.new } : change.new];
+}
@@ -0,0 +1,479 @@
+import {
+  type Habit,
+  type HabitEntry,
+  type HabitSchedule,
+  getHabits,
+  getHabitEntries,
+  saveHabit,
+  saveHabitEntry,
+  deleteHabit,
+  deleteHabitEntry,
+  syncBackend,
+} from './sync';
+import { toCsv, parseCsvRecords } from './csv';
+import { getCategory, normalizeCategory } from './categories';
+import { isValidReminderTime, normalizeReminders } from './reminders';
+
+// Types
+export interface ExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  backend: string;
+  habits: Habit[];
+  entries: HabitEntry[];
+}
+
+export interface ImportData {
+  habits: Habit[];
+  entries: HabitEntry[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportPlan {
+  mode: ImportMode;
+  habits: { added: Habit[]; updated: Habit[]; unchanged: number; removed: Habit[] };
+  entries: { added: HabitEntry[]; updated: HabitEntry[]; unchanged: number; removed: HabitEntry[] };
+}
+
+// Constants
+export const EXPORT_FORMAT = 'master-mausam-export';
+export const EXPORT_VERSION = 1;
+const MAX_ERRORS = 20;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Columns of the flat CSV export, one row per habit/date
+const CSV_COLUMNS = [
+  'habit_id', 'habit_name', 'icon', 'color', 'is_two_step', 'kind', 'unit', 'target_value', 'category',
+  'date', 'value', 'fasting_hours', 'note',
+] as const;
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Load every habit and entry for the signed-in user (cloud first, cache when offline)
+ */
+export async function loadAllData(): Promise<ImportData> {
+  const [habits, entries] = await Promise.all([getHabits(), getHabitEntries()]);
+  return { habits, entries };
+}
+
+export function buildExport(data: ImportData): ExportFile {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    backend: syncBackend,
+    habits: data.habits,
+    entries: [...data.entries].sort((a, b) => a.date.localeCompare(b.date) || a.habit_id.localeCompare(b.habit_id)),
+  };
+}
+
+/**
+ * Flat CSV for spreadsheets. Habits without entries get a row with an empty
+ * date so they survive a round trip; schedules, reminders and archive state
+ * are JSON only.
+ */
+export function exportToCsv(data: ImportData): string {
+  const byHabit = new Map<string, HabitEntry[]>();
+  data.entries.forEach(e => {
+    const list = byHabit.get(e.habit_id) || [];
+    list.push(e);
+    byHabit.set(e.habit_id, list);
+  });
+
+  const rows: (string | number | boolean | null | undefined)[][] = [[...CSV_COLUMNS]];
+  data.habits.forEach(habit => {
+    const habitColumns = [habit.id, habit.name, habit.icon, habit.color, habit.is_two_step, habit.kind ?? 'standard', habit.unit, habit.target_value, getCategory(habit)];
+    const entries = (byHabit.get(habit.id) || []).sort((a, b) => a.date.localeCompare(b.date));
+    if (entries.length === 0) {
+      rows.push([...habitColumns, '', '', '', '']);
+    }
+    entries.forEach(e => rows.push([...habitColumns, e.date, e.value, e.fasting_hours, e.note]));
+  });
+
+  return toCsv(rows);
+}
+
+// ============================================
+// PARSING & VALIDATION
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Check every field of a schedule variant so an import can't store a schedule
+ * isDueOn can't read
+ */
+function validateSchedule(raw: unknown, path: string, errors: string[]): HabitSchedule | null {
+  if (raw == null) return null;
+  if (!isRecord(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  switch (raw.type) {
+    case 'daily':
+      return { type: 'daily' };
+    case 'weekdays': {
+      const { days } = raw;
+      if (!Array.isArray(days) || !days.every(d => typeof d === 'number' && Number.isInteger(d) && d >= 0 && d <= 6)) {
+        errors.push(`${path}.days must be a list of weekdays 0-6`);
+        return null;
+      }
+      return { type: 'weekdays', days: days as number[] };
+    }
+    case 'times_per_period': {
+      const { times, period } = raw;
+      if (!isPositiveInteger(times)) errors.push(`${path}.times must be a whole number of at least 1`);
+      if (period !== 'week' && period !== 'month') errors.push(`${path}.period must be "week" or "month"`);
+      if (!isPositiveInteger(times) || (period !== 'week' && period !== 'month')) return null;
+      return { type: 'times_per_period', times, period };
+    }
+    case 'interval': {
+      const { every, start } = raw;
+      const validStart = typeof start === 'string' && DATE_PATTERN.test(start);
+      if (!isPositiveInteger(every)) errors.push(`${path}.every must be a whole number of at least 1`);
+      if (!validStart) errors.push(`${path}.start must be YYYY-MM-DD`);
+      if (!isPositiveInteger(every) || !validStart) return null;
+      return { type: 'interval', every, start: start as string };
+    }
+    default:
+      errors.push(`${path}.type must be "daily", "weekdays", "times_per_period" or "interval"`);
+      return null;
+  }
+}
+
+function validateHabit(raw: unknown, index: number, errors: string[]): Habit | null {
+  const path = `habits[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push(`${path} is not an object`);
+    return null;
+  }
+  if (typeof raw.id !== 'string' || !raw.id) errors.push(`${path}.id is missing`);
+  if (typeof raw.name !== 'string' || !raw.name.trim()) errors.push(`${path}.name is missing`);
+  if (raw.kind !== undefined && raw.kind !== 'standard' && raw.kind !== 'fasting') errors.push(`${path}.kind must be "standard" or "fasting"`);
+  const schedule = validateSchedule(raw.schedule, `${path}.schedule`, errors);
+  if (raw.category != null && typeof raw.category !== 'string') errors.push(`${path}.category must be a string`);
+  if (raw.reminders != null && (!Array.isArray(raw.reminders) || !raw.reminders.every(t => typeof t === 'string' && isValidReminderTime(t)))) {
+    errors.push(`${path}.reminders must be a list of HH:MM times`);
+  }
+  if (typeof raw.id !== 'string' || typeof raw.name !== 'string') return null;
+
+  return {
+    id: raw.id,
+    user_id: '',
+    name: raw.name.trim(),
+    icon: typeof raw.icon === 'string' && raw.icon ? raw.icon : '⭐',
+    color: typeof raw.color === 'string' && raw.color ? raw.color : '#3b82f6',
+    order_index: typeof raw.order_index === 'number' ? raw.order_index : index,
+    is_two_step: raw.is_two_step === true || raw.is_two_step === 'true',
+    kind: raw.kind === 'fasting' ? 'fasting' : 'standard',
+    target_value: optionalNumber(raw.target_value) ?? null,
+    unit: typeof raw.unit === 'string' && raw.unit ? raw.unit : null,
+    archived: raw.archived === true,
+    schedule,
+    category: normalizeCategory(typeof raw.category === 'string' ? raw.category : null),
+    reminders: normalizeReminders(raw.reminders as string[] | null | undefined),
+    created_at: typeof raw.created_at === 'string' ? raw.created_at : '',
+    updated_at: typeof raw.updated_at === 'string' ? raw.updated_at : '',
+  };
+}
+
+function validateEntry(raw: unknown, index: number, habitIds: Set<string>, errors: string[]): HabitEntry | null {
+  const path = `entries[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push(`${path} is not an object`);
+    return null;
+  }
+  const value = Number(raw.value);
+  if (typeof raw.habit_id !== 'string' || !habitIds.has(raw.habit_id)) errors.push(`${path}.habit_id does not match any habit`);
+  if (typeof raw.date !== 'string' || !DATE_PATTERN.test(raw.date)) errors.push(`${path}.date must be YYYY-MM-DD`);
+  if (!Number.isFinite(value) || value < 0) errors.push(`${path}.value must be a non-negative number`);
+  if (typeof raw.habit_id !== 'string' || typeof raw.date !== 'string' || !Number.isFinite(value)) return null;
+
+  return {
+    id: '',
+    user_id: '',
+    habit_id: raw.habit_id,
+    date: raw.date,
+    value,
+    fasting_hours: optionalNumber(raw.fasting_hours),
+    fasting_started_at: typeof raw.fasting_started_at === 'string' ? raw.fasting_started_at : null,
+    fasting_ended_at: typeof raw.fasting_ended_at === 'string' ? raw.fasting_ended_at : null,
+    note: typeof raw.note === 'string' && raw.note ? raw.note : null,
+    updated_at: typeof raw.updated_at === 'string' ? raw.updated_at : '',
+  };
+}
+
+function validateData(rawHabits: unknown[], rawEntries: unknown[], errors: string[]): ImportData {
+  const habits = rawHabits
+    .map((raw, i) => validateHabit(raw, i, errors))
+    .filter((h): h is Habit => h !== null);
+
+  const ids = new Set<string>();
+  habits.forEach(h => {
+    if (ids.has(h.id)) errors.push(`Habit id ${h.id} appears more than once`);
+    ids.add(h.id);
+  });
+
+  const seen = new Set<string>();
+  const entries = rawEntries
+    .map((raw, i) => validateEntry(raw, i, ids, errors))
+    .filter((e): e is HabitEntry => e !== null)
+    .filter(e => {
+      const key = `${e.habit_id}|${e.date}`;
+      if (seen.has(key)) errors.push(`More than one entry for habit ${e.habit_id} on ${e.date}`);
+      seen.add(key);
+      return true;
+    });
+
+  return { habits, entries };
+}
+
+function parseJsonExport(text: string, errors: string[]): ImportData | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    errors.push('File is not valid JSON');
+    return null;
+  }
+
+  if (!isRecord(parsed) || parsed.format !== EXPORT_FORMAT) {
+    errors.push('Not a Master Mausam export (missing "format" field)');
+    return null;
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > EXPORT_VERSION) {
+    errors.push(`Unsupported export version ${String(parsed.version)} (this app reads up to ${EXPORT_VERSION})`);
+    return null;
+  }
+  if (!Array.isArray(parsed.habits) || !Array.isArray(parsed.entries)) {
+    errors.push('Export must contain "habits" and "entries" arrays');
+    return null;
+  }
+
+  return validateData(parsed.habits, parsed.entries, errors);
+}
+
+function parseCsvExport(text: string, errors: string[]): ImportData | null {
+  const records = parseCsvRecords(text);
+  const missing = ['habit_name', 'date', 'value'].filter(column => records.length > 0 && !(column in records[0]));
+  if (records.length === 0 || missing.length > 0) {
+    errors.push(records.length === 0 ? 'CSV file is empty' : `CSV is missing columns: ${missing.join(', ')}`);
+    return null;
+  }
+
+  // Rows without a habit_id are grouped by name
+  const rawHabits = new Map<string, Record<string, unknown>>();
+  const rawEntries: Record<string, unknown>[] = [];
+  records.forEach(record => {
+    const habitId = record.habit_id || `csv:${record.habit_name.toLowerCase()}`;
+    if (!rawHabits.has(habitId)) {
+      rawHabits.set(habitId, {
+        id: habitId,
+        name: record.habit_name,
+        icon: record.icon,
+        color: record.color,
+        is_two_step: record.is_two_step,
+        kind: record.kind || undefined,
+        unit: record.unit,
+        target_value: record.target_value,
+        category: record.category,
+      });
+    }
+    if (record.date) {
+      rawEntries.push({
+        habit_id: habitId,
+        date: record.date,
+        value: record.value,
+        fasting_hours: record.fasting_hours,
+        note: record.note,
+      });
+    }
+  });
+
+  return validateData([...rawHabits.values()], rawEntries, errors);
+}
+
+/**
+ * Parse and validate an export file. JSON is detected by its leading brace,
+ * anything else is read as CSV. Returns null data when there are errors.
+ */
+export function parseImportFile(text: string): { data: ImportData | null; errors: string[] } {
+  const errors: string[] = [];
+  const data = text.trimStart().startsWith('{') ? parseJsonExport(text, errors) : parseCsvExport(text, errors);
+
+  if (errors.length > MAX_ERRORS) {
+    const hidden = errors.length - MAX_ERRORS;
+    errors.length = MAX_ERRORS;
+    errors.push(`…and ${hidden} more`);
+  }
+  return { data: errors.length === 0 ? data : null, errors };
+}
+
+// ============================================
+// DIFF & APPLY
+// ============================================
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function habitChanged(a: Habit, b: Habit): boolean {
+  return a.name !== b.name
+    || a.icon !== b.icon
+    || a.color !== b.color
+    || a.is_two_step !== b.is_two_step
+    || (a.kind ?? 'standard') !== (b.kind ?? 'standard')
+    || (a.target_value ?? null) !== (b.target_value ?? null)
+    || (a.unit || null) !== (b.unit || null)
+    || !!a.archived !== !!b.archived
+    || JSON.stringify(a.schedule ?? null) !== JSON.stringify(b.schedule ?? null)
+    || getCategory(a) !== getCategory(b)
+    || JSON.stringify(normalizeReminders(a.reminders)) !== JSON.stringify(normalizeReminders(b.reminders));
+}
+
+function entryChanged(a: HabitEntry, b: HabitEntry): boolean {
+  return a.value !== b.value
+    || (a.fasting_hours ?? null) !== (b.fasting_hours ?? null)
+    || (a.fasting_started_at ?? null) !== (b.fasting_started_at ?? null)
+    || (a.fasting_ended_at ?? null) !== (b.fasting_ended_at ?? null)
+    || (a.note || null) !== (b.note || null);
+}
+
+/**
+ * Work out what an import would change. Imported habits are matched to
+ * existing ones by id, then by name; unmatched habits get a fresh id so a
+ * file from another account never collides with its rows. Merge keeps
+ * everything not in the file, replace removes it.
+ *
+ * `preserveIds` is for restoring this account's own data: habits match by
+ * id only and keep their original ids.
+ */
+export function planImport(
+  current: ImportData,
+  incoming: ImportData,
+  mode: ImportMode,
+  options: { preserveIds?: boolean } = {}
+): ImportPlan {
+  const byId = new Map(current.habits.map(h => [h.id, h]));
+  const byName = new Map(options.preserveIds ? [] : current.habits.map(h => [normalizeName(h.name), h]));
+  const nextOrder = current.habits.reduce((max, h) => Math.max(max, h.order_index + 1), 0);
+
+  const plan: ImportPlan = {
+    mode,
+    habits: { added: [], updated: [], unchanged: 0, removed: [] },
+    entries: { added: [], updated: [], unchanged: 0, removed: [] },
+  };
+
+  // Imported habit id -> id it will be saved under
+  const habitIdMap = new Map<string, string>();
+  const matched = new Set<string>();
+
+  incoming.habits.forEach((habit, i) => {
+    const existing = byId.get(habit.id) ?? byName.get(normalizeName(habit.name));
+    if (existing && !matched.has(existing.id)) {
+      matched.add(existing.id);
+      habitIdMap.set(habit.id, existing.id);
+      const next = {
+        ...habit,
+        id: existing.id,
+        order_index: mode === 'replace' ? habit.order_index : existing.order_index,
+        created_at: existing.created_at,
+      };
+      if (habitChanged(existing, next)) plan.habits.updated.push(next);
+      else plan.habits.unchanged += 1;
+    } else {
+      const id = options.preserveIds ? habit.id : crypto.randomUUID();
+      habitIdMap.set(habit.id, id);
+      plan.habits.added.push({ ...habit, id, order_index: mode === 'replace' ? habit.order_index : nextOrder + i });
+    }
+  });
+
+  const currentEntries = new Map(current.entries.map(e => [`${e.habit_id}|${e.date}`, e]));
+  const incomingKeys = new Set<string>();
+
+  incoming.entries.forEach(entry => {
+    const habitId = habitIdMap.get(entry.habit_id);
+    if (!habitId) return;
+    const key = `${habitId}|${entry.date}`;
+    incomingKeys.add(key);
+
+    const next = { ...entry, habit_id: habitId };
+    const existing = currentEntries.get(key);
+    if (!existing) plan.entries.added.push(next);
+    else if (entryChanged(existing, next)) plan.entries.updated.push(next);
+    else plan.entries.unchanged += 1;
+  });
+
+  if (mode === 'replace') {
+    plan.habits.removed = current.habits.filter(h => !matched.has(h.id));
+    // Entries of removed habits go with the habit
+    const removedIds = new Set(plan.habits.removed.map(h => h.id));
+    plan.entries.removed = current.entries.filter(e =>
+      !removedIds.has(e.habit_id) && !incomingKeys.has(`${e.habit_id}|${e.date}`)
+    );
+  }
+
+  return plan;
+}
+
+export function countPlanChanges(plan: ImportPlan): number {
+  return plan.habits.added.length + plan.habits.updated.length + plan.habits.removed.length
+    + plan.entries.added.length + plan.entries.updated.length + plan.entries.removed.length;
+}
+
+/**
+ * Write a plan through the sync layer, habits before their entries.
+ * Writes are sequential so offline imports queue in order.
+ */
+export async function applyImport(
+  plan: ImportPlan,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  const total = countPlanChanges(plan);
+  let done = 0;
+  const step = () => onProgress?.(++done, total);
+
+  for (const habit of [...plan.habits.added, ...plan.habits.updated]) {
+    const { user_id: _userId, updated_at: _updatedAt, ...fields } = habit;
+    await saveHabit({ ...fields, created_at: fields.created_at || undefined });
+    step();
+  }
+
+  for (const entry of [...plan.entries.added, ...plan.entries.updated]) {
+    await saveHabitEntry(entry.habit_id, entry.date, {
+      value: entry.value,
+      fasting_hours: entry.fasting_hours,
+      fasting_started_at: entry.fasting_started_at ?? null,
+      fasting_ended_at: entry.fasting_ended_at ?? null,
+      note: entry.note ?? null,
+    });
+    step();
+  }
+
+  for (const entry of plan.entries.removed) {
+    await deleteHabitEntry(entry.habit_id, entry.date);
+    step();
+  }
+
+  for (const habit of plan.habits.removed) {
+    await deleteHabit(habit.id);
+    step();
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  type CacheStats,
+  type SyncError,
+  type SyncStatus,
+  getCacheStats,
+  getConflicts,
+  getDeadLetters,
+  getCurrentSyncStatus,
+  getSyncErrors,
+  syncBackend,
+} from './sync';
+import { getOutbox } from './outbox';
+import { type SyncEvent, describeOperation, getSyncEvents } from './syncLog';
+import { getCurrentSchemaVersion, LATEST_SCHEMA_VERSION } from './migrations';
+
+// Types
+
+/**
+ * Everything needed to look into a sync problem, for attaching to a bug
+ * report. Holds ids, timings and error text, but no habit names, notes or
+ * logged values.
+ */
+export interface DebugBundle {
+  format: 'master-mausam-debug';
+  version: 1;
+  created_at: string;
+  app: {
+    mode: string;
+    backend: string;
+    schema_version: number | null;
+    latest_schema_version: number;
+  };
+  environment: {
+    user_agent: string;
+    online: boolean;
+    language: string;
+    time_zone: string;
+    service_worker: 'controlled' | 'uncontrolled' | 'unsupported';
+  };
+  status: SyncStatus;
+  outbox: {
+    kind: string;
+    table: string;
+    entry_id: string | null;
+    created_at: string;
+    attempts: number;
+    next_attempt_at: string;
+    last_error: string | null;
+  }[];
+  dead_letters: {
+    kind: string;
+    entry_id: string | null;
+    failed_at: string;
+    reason: string;
+    attempts: number;
+    last_error: string | null;
+  }[];
+  conflicts: { entry_id: string; detected_at: string }[];
+  errors: SyncError[];
+  events: SyncEvent[];
+  cache: CacheStats | null;
+}
+
+/**
+ * Collect the current sync state for the signed-in user
+ */
+export async function buildDebugBundle(): Promise<DebugBundle> {
+  const [schemaVersion, cache] = await Promise.all([
+    getCurrentSchemaVersion().catch(() => null),
+    getCacheStats().catch(() => null),
+  ]);
+
+  return {
+    format: 'master-mausam-debug',
+    version: 1,
+    created_at: new Date().toISOString(),
+    app: {
+      mode: import.meta.env.MODE,
+      backend: syncBackend,
+      schema_version: schemaVersion,
+      latest_schema_version: LATEST_SCHEMA_VERSION,
+    },
+    environment: {
+      user_agent: navigator.userAgent,
+      online: navigator.onLine,
+      language: navigator.language,
+      time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      service_worker: !('serviceWorker' in navigator)
+        ? 'unsupported'
+        : navigator.serviceWorker.controller ? 'controlled' : 'uncontrolled',
+    },
+    status: getCurrentSyncStatus(),
+    outbox: getOutbox().map(op => {
+      const { table, entryId } = describeOperation(op);
+      return {
+        kind: op.kind,
+        table,
+        entry_id: entryId,
+        created_at: op.created_at,
+        attempts: op.attempts,
+        next_attempt_at: op.next_attempt_at,
+        last_error: op.last_error ?? null,
+      };
+    }),
+    dead_letters: getDeadLetters().map(d => ({
+      kind: d.kind,
+      entry_id: describeOperation(d).entryId,
+      failed_at: d.failed_at,
+      reason: d.reason,
+      attempts: d.attempts,
+      last_error: d.last_error ?? null,
+    })),
+    conflicts: getConflicts().map(c => ({ entry_id: c.entry_id, detected_at: c.detected_at })),
+    errors: getSyncErrors(),
+    events: getSyncEvents(),
+    cache,
+  };
+}
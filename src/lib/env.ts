@@ -0,0 +1,5 @@
+/**
+ * Vite's import.meta.env, or an empty object when modules are loaded outside
+ * Vite (the specs under tests/ import them directly)
+ */
+export const env: Partial<ImportMetaEnv> = import.meta.env ?? {};
@@ -0,0 +1,77 @@
+import type { Habit, HabitEntry } from './sync';
+
+export const DEFAULT_FASTING_HOURS = 18;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function isFastingHabit(habit: Pick<Habit, 'kind'>): boolean {
+  return habit.kind === 'fasting';
+}
+
+/**
+ * Goal length of a fast in hours
+ */
+export function getFastingGoal(habit: Pick<Habit, 'target_value'>): number {
+  return habit.target_value && habit.target_value > 0 ? habit.target_value : DEFAULT_FASTING_HOURS;
+}
+
+/**
+ * The fast that has been started but not stopped, if any
+ */
+export function findActiveFast(entries: HabitEntry[]): HabitEntry | null {
+  return entries.find(e => e.fasting_started_at && !e.fasting_ended_at) ?? null;
+}
+
+export function hoursBetween(start: string, end: string): number {
+  const hours = (new Date(end).getTime() - new Date(start).getTime()) / HOUR_MS;
+  return Math.max(0, Math.round(hours * 10) / 10);
+}
+
+/**
+ * Format elapsed time as H:MM:SS for the running timer
+ */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * Average logged hours per week (Mon-Sun), oldest first.
+ * Weeks without any fast average to 0.
+ */
+export function getWeeklyAverages(
+  hoursByDate: Map<string, number>,
+  weeks: number,
+  today = new Date()
+): { weekStart: string; average: number; days: number }[] {
+  const monday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+
+  const result: { weekStart: string; average: number; days: number }[] = [];
+  for (let w = weeks - 1; w >= 0; w--) {
+    const start = new Date(monday);
+    start.setDate(start.getDate() - w * 7);
+
+    let total = 0;
+    let days = 0;
+    for (let d = 0; d < 7; d++) {
+      const date = new Date(start);
+      date.setDate(date.getDate() + d);
+      const hours = hoursByDate.get(date.toLocaleDateString('en-CA')) ?? 0;
+      if (hours > 0) {
+        total += hours;
+        days += 1;
+      }
+    }
+
+    result.push({
+      weekStart: start.toLocaleDateString('en-CA'),
+      average: days > 0 ? Math.round((total / days) * 10) / 10 : 0,
+      days,
+    });
+  }
+  return result;
+}
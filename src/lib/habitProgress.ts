@@ -0,0 +1,48 @@
+import type { Habit, HabitEntry } from './sync';
+import { isFastingHabit, getFastingGoal } from './fasting';
+
+type ProgressHabit = Pick<Habit, 'is_two_step' | 'kind' | 'target_value' | 'unit'>;
+
+/**
+ * Quantitative habits record an amount (litres, pages, km) against a target
+ * instead of a done/not-done value
+ */
+export function isQuantitative(habit: ProgressHabit): boolean {
+  return !!habit.unit;
+}
+
+export function getTarget(habit: ProgressHabit): number {
+  if (isFastingHabit(habit)) return getFastingGoal(habit);
+  return habit.target_value && habit.target_value > 0 ? habit.target_value : 1;
+}
+
+export function getUnit(habit: ProgressHabit): string | null {
+  return isFastingHabit(habit) ? 'h' : habit.unit ?? null;
+}
+
+/**
+ * The number a day is measured by: hours fasted for fasting habits,
+ * otherwise the entry value
+ */
+export function getEntryAmount(habit: ProgressHabit, entry: Pick<HabitEntry, 'value' | 'fasting_hours'>): number {
+  if (isFastingHabit(habit)) return entry.fasting_hours ?? 0;
+  return entry.value;
+}
+
+/**
+ * How much of the day's goal an amount covers, from 0 to 1
+ */
+export function getCompletionRatio(habit: ProgressHabit, value: number): number {
+  if (value <= 0) return 0;
+  if (isQuantitative(habit) || isFastingHabit(habit)) return Math.min(value / getTarget(habit), 1);
+  if (habit.is_two_step) return value >= 2 ? 1 : 0.5;
+  return value >= 1 ? 1 : 0;
+}
+
+/**
+ * Format an amount with its unit, e.g. "2.5 L"
+ */
+export function formatQuantity(value: number, unit?: string | null): string {
+  const rounded = Math.round(value * 100) / 100;
+  return unit ? `${rounded} ${unit}` : `${rounded}`;
+}
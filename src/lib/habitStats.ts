@@ -0,0 +1,79 @@
+import type { Habit, HabitEntry } from './sync';
+import { getCompletionRatio, getEntryAmount } from './habitProgress';
+import { getSchedule, getScheduledProgress, isDueOn } from './schedule';
+import { calculateStreaks } from './streaks';
+
+export interface CompletionRate {
+  count: number;
+  total: number;
+  percent: number;
+}
+
+/**
+ * Per-habit map of date → amount (entry value, or hours for fasting habits)
+ */
+export function buildAmountMaps(habits: Habit[], entries: HabitEntry[]): Map<string, Map<string, number>> {
+  const habitMap = new Map(habits.map(h => [h.id, h]));
+  const maps = new Map<string, Map<string, number>>(habits.map(h => [h.id, new Map()]));
+
+  entries.forEach(entry => {
+    const habit = habitMap.get(entry.habit_id);
+    if (habit) maps.get(habit.id)!.set(entry.date, getEntryAmount(habit, entry));
+  });
+  return maps;
+}
+
+/**
+ * Local date keys for `days` days ending `endOffset` days before `today`, oldest first
+ */
+export function dateRange(days: number, endOffset = 0, today = new Date()): string[] {
+  const dates: string[] = [];
+  for (let i = days - 1 + endOffset; i >= endOffset; i--) {
+    const d = new Date(today.getFullYear(), today.getMonth(), today.getDate() - i);
+    dates.push(d.toLocaleDateString('en-CA'));
+  }
+  return dates;
+}
+
+/**
+ * Combined completion across habits over a set of dates, counting only due days
+ */
+export function getCompletionRate(
+  habits: Habit[],
+  amounts: Map<string, Map<string, number>>,
+  dates: string[]
+): CompletionRate {
+  let count = 0;
+  let total = 0;
+  habits.forEach(habit => {
+    const values = amounts.get(habit.id) ?? new Map<string, number>();
+    const progress = getScheduledProgress(getSchedule(habit), dates, date => getCompletionRatio(habit, values.get(date) ?? 0));
+    count += progress.count;
+    total += progress.total;
+  });
+  return {
+    count: Math.round(count * 10) / 10,
+    total: Math.round(total * 10) / 10,
+    percent: total > 0 ? Math.round((count / total) * 100) : 0,
+  };
+}
+
+export function isDueToday(habit: Habit, today: string): boolean {
+  return isDueOn(getSchedule(habit), today);
+}
+
+/**
+ * The habit with the longest streak still running today
+ */
+export function getBestCurrentStreak(
+  habits: Habit[],
+  amounts: Map<string, Map<string, number>>,
+  today: string
+): { habit: Habit; current: number } | null {
+  let best: { habit: Habit; current: number } | null = null;
+  habits.forEach(habit => {
+    const { current } = calculateStreaks(habit, amounts.get(habit.id) ?? new Map(), today);
+    if (current > 0 && (!best || current > best.current)) best = { habit, current };
+  });
+  return best;
+}
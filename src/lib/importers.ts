@@ -0,0 +1,438 @@
+import type { Habit, HabitEntry, HabitSchedule } from './sync';
+import { type ImportData, parseImportFile } from './dataTransfer';
+import { parseCsvRecords } from './csv';
+import { isZip, readZip } from './zip';
+import { isSqlite, openSqlite, type SqliteValue } from './sqlite';
+import { DEFAULT_CATEGORY } from './categories';
+
+// Types
+export interface ImportSourceFile {
+  name: string;
+  data: Uint8Array;
+}
+
+export interface ImporterResult {
+  data: ImportData | null;
+  errors: string[];
+  warnings?: string[];
+}
+
+/**
+ * A source format the Import button understands. Importers only produce
+ * ImportData; diffing and writing go through planImport/applyImport.
+ */
+export interface HabitImporter {
+  id: string;
+  label: string;
+  detect(files: ImportSourceFile[]): boolean;
+  read(files: ImportSourceFile[]): Promise<ImporterResult>;
+}
+
+// Constants - same tables as scripts/migrate-full.cjs
+const COLOR_MAP: Record<string, string> = {
+  teal: '#14b8a6', stone: '#78716c', red: '#ef4444', violet: '#8b5cf6',
+  fuchsia: '#d946ef', lime: '#84cc16', slate: '#64748b', sky: '#0ea5e9',
+  yellow: '#eab308', orange: '#f97316', blue: '#3b82f6', green: '#22c55e',
+  purple: '#a855f7', pink: '#ec4899', gray: '#6b7280',
+};
+
+const DEFAULT_EMOJIS: Record<string, string> = {
+  'Fasting': '🍽️', '5 Ltr Water': '💧', 'No Eat Outside': '🏠', 'Running': '🏃',
+  'Exercise': '💪', 'Protine': '🥩', 'Meditation': '🧘', 'Vitamins 2 Times': '💊',
+  'Reading': '📖', '2 Brush': '🪥', 'Travel': '✈️', 'No Fap': '🚫', '🦋': '🦋',
+};
+
+const TWO_STEP_NAMES = ['Vitamins 2 Times', '2 Brush'];
+const FALLBACK_ICON = '✓';
+const FALLBACK_COLOR = COLOR_MAP.blue;
+
+// Loop Habit Tracker stores colors as an index into its Material palette
+const LOOP_PALETTE = [
+  '#D32F2F', '#E64A19', '#F57C00', '#FF8F00', '#F9A825', '#AFB42B', '#7CB342', '#388E3C',
+  '#00897B', '#00ACC1', '#039BE5', '#1976D2', '#303F9F', '#5E35B1', '#8E24AA', '#D81B60',
+  '#5D4037', '#303030', '#757575', '#AAAAAA',
+];
+
+// Loop checkmark values
+const LOOP_YES_MANUAL = 2;
+const LOOP_NUMERIC_SCALE = 1000;  // Numeric habits store amount x1000
+
+// ============================================
+// MAPPING HELPERS
+// ============================================
+
+function iconFor(name: string): string {
+  const key = Object.keys(DEFAULT_EMOJIS).find(k => k.toLowerCase() === name.trim().toLowerCase());
+  return key ? DEFAULT_EMOJIS[key] : FALLBACK_ICON;
+}
+
+function hexToRgb(hex: string): [number, number, number] | null {
+  const match = hex.trim().match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return null;
+  const n = parseInt(match[1], 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/**
+ * Map a color name or hex value onto the app palette: names go through the
+ * migrate-full color map, hex values snap to the closest palette color
+ */
+function colorFor(color: string | null | undefined): string {
+  if (!color) return FALLBACK_COLOR;
+  const named = COLOR_MAP[color.trim().toLowerCase()];
+  if (named) return named;
+
+  const rgb = hexToRgb(color);
+  if (!rgb) return FALLBACK_COLOR;
+  let best = FALLBACK_COLOR;
+  let bestDistance = Infinity;
+  Object.values(COLOR_MAP).forEach(candidate => {
+    const [r, g, b] = hexToRgb(candidate)!;
+    const distance = (r - rgb[0]) ** 2 + (g - rgb[1]) ** 2 + (b - rgb[2]) ** 2;
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+function makeHabit(id: string, name: string, fields: Partial<Habit>): Habit {
+  return {
+    id,
+    user_id: '',
+    name: name.trim(),
+    icon: iconFor(name),
+    color: FALLBACK_COLOR,
+    order_index: 0,
+    is_two_step: TWO_STEP_NAMES.includes(name.trim()),
+    kind: 'standard',
+    target_value: null,
+    unit: null,
+    archived: false,
+    schedule: null,
+    category: DEFAULT_CATEGORY,
+    reminders: null,
+    created_at: '',
+    updated_at: '',
+    ...fields,
+  };
+}
+
+function makeEntry(habitId: string, date: string, value: number, note?: string | null): HabitEntry {
+  return { id: '', user_id: '', habit_id: habitId, date, value, note: note || null, updated_at: '' };
+}
+
+/**
+ * "X times every N days" as a schedule
+ */
+function frequencyToSchedule(times: number, days: number): HabitSchedule | null {
+  if (!(times > 0) || !(days > 0) || times >= days) return null;
+  if (days === 7) return { type: 'times_per_period', times, period: 'week' };
+  if (days >= 28 && days <= 31) return { type: 'times_per_period', times, period: 'month' };
+  if (times === 1) return { type: 'interval', every: days, start: new Date().toLocaleDateString('en-CA') };
+  return null;
+}
+
+/**
+ * Normalise the date formats other trackers write (ISO, ISO with time, locale dates)
+ */
+function toDateKey(raw: string): string | null {
+  const iso = raw.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+  if (iso) return iso[1];
+  const parsed = new Date(raw);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toLocaleDateString('en-CA');
+}
+
+function textOf(file: ImportSourceFile): string {
+  return new TextDecoder().decode(file.data);
+}
+
+function baseName(file: ImportSourceFile): string {
+  return file.name.split('/').pop()!.toLowerCase();
+}
+
+function csvHeader(file: ImportSourceFile): string[] {
+  const firstLine = textOf(file).replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0];
+  return firstLine.split(',').map(h => h.trim().replace(/^"|"$/g, '').toLowerCase());
+}
+
+// ============================================
+// MASTER MAUSAM (own export)
+// ============================================
+
+const nativeImporter: HabitImporter = {
+  id: 'master-mausam',
+  label: 'Master Mausam export',
+  detect(files) {
+    if (files.length !== 1) return false;
+    const [file] = files;
+    if (baseName(file).endsWith('.json')) return true;
+    return baseName(file).endsWith('.csv') && csvHeader(file).includes('habit_name');
+  },
+  async read([file]) {
+    return parseImportFile(textOf(file));
+  },
+};
+
+// ============================================
+// LOOP HABIT TRACKER
+// ============================================
+
+interface LoopHabit {
+  key: string;
+  habit: Habit;
+  numeric: boolean;
+}
+
+function loopHabit(key: string, row: {
+  name: string;
+  position: number;
+  color: string | null;
+  numeric: boolean;
+  unit: string;
+  target: number;
+  archived: boolean;
+  freqNum: number;
+  freqDen: number;
+  reminder?: string | null;
+}): LoopHabit {
+  return {
+    key,
+    numeric: row.numeric,
+    habit: makeHabit(`loop:${key}`, row.name, {
+      color: colorFor(row.color),
+      order_index: row.position,
+      archived: row.archived,
+      // Loop numeric habits may have no unit; ours need one to be quantitative
+      unit: row.numeric ? row.unit || 'count' : null,
+      target_value: row.numeric && row.target > 0 ? row.target : null,
+      schedule: frequencyToSchedule(row.freqNum, row.freqDen),
+      reminders: row.reminder ? [row.reminder] : null,
+    }),
+  };
+}
+
+// Loop stores one optional reminder as hour and minute columns (null or -1 when off)
+function loopReminder(hour: SqliteValue, minute: SqliteValue): string | null {
+  if (typeof hour !== 'number' || typeof minute !== 'number' || hour < 0 || minute < 0) return null;
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+function loopValue(habit: LoopHabit, raw: number): number | null {
+  if (habit.numeric) return raw > 0 ? raw / LOOP_NUMERIC_SCALE : null;
+  // YES_AUTO (1) is implied by the frequency, not a real check-in
+  return raw === LOOP_YES_MANUAL ? 1 : null;
+}
+
+function readLoopDatabase(file: ImportSourceFile): ImporterResult {
+  const db = openSqlite(file.data);
+  const num = (value: SqliteValue) => (typeof value === 'number' ? value : Number(value ?? 0));
+
+  const warnings: string[] = [];
+  const rows = db.readTable('habits').filter(row => {
+    if (String(row.name ?? '').trim()) return true;
+    warnings.push(`Skipped habit ${String(row.id)} - it has no name`);
+    return false;
+  });
+  const habits = rows.map(row => loopHabit(String(row.id), {
+    name: String(row.name),
+    position: num(row.position),
+    color: LOOP_PALETTE[num(row.color)] ?? null,
+    numeric: num(row.type) === 1,
+    unit: String(row.unit ?? ''),
+    target: num(row.target_value),
+    archived: num(row.archived) === 1,
+    freqNum: num(row.freq_num),
+    freqDen: num(row.freq_den),
+    reminder: loopReminder(row.reminder_hour, row.reminder_min),
+  }));
+  const byKey = new Map(habits.map(h => [h.key, h]));
+
+  const entries: HabitEntry[] = [];
+  db.readTable('repetitions').forEach(row => {
+    const habit = byKey.get(String(row.habit));
+    if (!habit) return;
+    const value = loopValue(habit, num(row.value));
+    if (value === null) return;
+    // Timestamps are midnight UTC of the day
+    const date = new Date(num(row.timestamp)).toISOString().slice(0, 10);
+    entries.push(makeEntry(habit.habit.id, date, value, typeof row.notes === 'string' ? row.notes : null));
+  });
+
+  return { data: { habits: habits.map(h => h.habit), entries }, errors: [], warnings };
+}
+
+function readLoopCsv(files: ImportSourceFile[]): ImporterResult {
+  const habitsFile = files.find(f => f.name.toLowerCase() === 'habits.csv') ?? files.find(f => baseName(f) === 'habits.csv');
+  // The top-level Checkmarks.csv has one column per habit; per-habit folders repeat the data
+  const checkmarksFile = files
+    .filter(f => baseName(f) === 'checkmarks.csv')
+    .sort((a, b) => a.name.split('/').length - b.name.split('/').length)[0];
+  if (!habitsFile || !checkmarksFile) {
+    return { data: null, errors: ['Loop CSV export needs both Habits.csv and Checkmarks.csv'] };
+  }
+
+  const warnings: string[] = [];
+  const habits: LoopHabit[] = [];
+  parseCsvRecords(textOf(habitsFile)).forEach((row, i) => {
+    const name = String(row.name ?? '').trim();
+    if (!name) {
+      warnings.push(`Skipped Habits.csv row ${i + 2} - it has no name`);
+      return;
+    }
+    // Older exports have NumRepetitions/Interval instead of FrequencyNumerator/Denominator
+    const freqNum = Number(row.frequencynumerator || row.numrepetitions || 1);
+    const freqDen = Number(row.frequencydenominator || row.interval || 1);
+    habits.push(loopHabit(String(i), {
+      name,
+      position: Number(row.position) || i,
+      color: row.color,
+      numeric: /^(1|num)/i.test(row.type ?? ''),
+      unit: row.unit ?? '',
+      target: Number(row['target value'] || 0),
+      archived: row['archived?']?.toLowerCase() === 'true',
+      freqNum,
+      freqDen,
+    }));
+  });
+  const byName = new Map(habits.map(h => [h.habit.name.toLowerCase(), h]));
+
+  const entries: HabitEntry[] = [];
+  parseCsvRecords(textOf(checkmarksFile)).forEach(row => {
+    const date = toDateKey(row.date ?? '');
+    if (!date) return;
+    Object.entries(row).forEach(([column, raw]) => {
+      if (column === 'date' || raw === '') return;
+      const habit = byName.get(column);
+      if (!habit) {
+        if (!warnings.some(w => w.includes(`"${column}"`))) warnings.push(`Skipped column "${column}" - not in Habits.csv`);
+        return;
+      }
+      const value = loopValue(habit, Number(raw));
+      if (value !== null) entries.push(makeEntry(habit.habit.id, date, value));
+    });
+  });
+
+  return { data: { habits: habits.map(h => h.habit), entries }, errors: [], warnings };
+}
+
+const loopImporter: HabitImporter = {
+  id: 'loop',
+  label: 'Loop Habit Tracker',
+  detect(files) {
+    return files.some(f => isSqlite(f.data)) || files.some(f => baseName(f) === 'habits.csv');
+  },
+  async read(files) {
+    const database = files.find(f => isSqlite(f.data));
+    if (database) {
+      try {
+        return readLoopDatabase(database);
+      } catch (err) {
+        console.warn('[Import] Failed to read Loop backup:', err);
+        return { data: null, errors: [`Couldn't read ${database.name}: ${err instanceof Error ? err.message : 'unknown error'}`] };
+      }
+    }
+    return readLoopCsv(files);
+  },
+};
+
+// ============================================
+// GENERIC CSV (date, habit, value)
+// ============================================
+
+// Also the route for Habitica, Streaks and other apps without an importer of their own
+
+const genericCsvImporter: HabitImporter = {
+  id: 'generic-csv',
+  label: 'CSV (date, habit, value)',
+  detect(files) {
+    if (files.length !== 1 || !baseName(files[0]).endsWith('.csv')) return false;
+    const header = csvHeader(files[0]);
+    return header.includes('date') && (header.includes('habit') || header.includes('name'));
+  },
+  async read([file]) {
+    const errors: string[] = [];
+    const habits = new Map<string, Habit>();
+    // Habit -> date -> row; a later row for the same day wins
+    const amounts = new Map<string, Map<string, { value: number; note: string }>>();
+
+    parseCsvRecords(textOf(file)).forEach((row, i) => {
+      const name = row.habit || row.name;
+      const date = toDateKey(row.date ?? '');
+      if (!name || !date) {
+        errors.push(`Row ${i + 2}: needs a date and a habit name`);
+        return;
+      }
+      // A bare row means "done"; yes/true/x count as 1
+      const raw = (row.value ?? '').toLowerCase();
+      const value = raw === '' || ['yes', 'true', 'x', 'done'].includes(raw) ? 1 : ['no', 'false'].includes(raw) ? 0 : Number(raw);
+      if (!Number.isFinite(value) || value < 0) {
+        errors.push(`Row ${i + 2}: "${row.value}" is not a valid value`);
+        return;
+      }
+
+      const key = name.trim().toLowerCase();
+      if (!habits.has(key)) {
+        habits.set(key, makeHabit(`csv:${key}`, name, { color: colorFor(row.color), order_index: habits.size }));
+        amounts.set(key, new Map());
+      }
+      if (value > 0) amounts.get(key)!.set(date, { value, note: row.note ?? '' });
+      else amounts.get(key)!.delete(date);
+    });
+
+    if (errors.length > 0) return { data: null, errors: errors.slice(0, 20) };
+
+    // Anything beyond 0/1 is an amount; the typical day becomes the target
+    const entries: HabitEntry[] = [];
+    habits.forEach((habit, key) => {
+      const days = amounts.get(key)!;
+      const values = [...days.values()].map(d => d.value).sort((a, b) => a - b);
+      if (values.some(v => v !== 1)) {
+        habit.unit = 'count';
+        habit.target_value = values[Math.floor(values.length / 2)];
+      }
+      days.forEach((day, date) => entries.push(makeEntry(habit.id, date, day.value, day.note)));
+    });
+
+    return { data: { habits: [...habits.values()], entries }, errors: [] };
+  },
+};
+
+// ============================================
+// REGISTRY
+// ============================================
+
+// Checked in order - the first importer that recognises the files wins
+export const IMPORTERS: HabitImporter[] = [nativeImporter, loopImporter, genericCsvImporter];
+
+/**
+ * Read picked files (unpacking ZIP archives) and run the first importer that recognises them
+ */
+export async function readImportSources(files: File[]): Promise<ImporterResult & { importer: HabitImporter | null }> {
+  const sources: ImportSourceFile[] = [];
+  for (const file of files) {
+    const data = new Uint8Array(await file.arrayBuffer());
+    if (isZip(data)) {
+      try {
+        sources.push(...await readZip(data));
+      } catch (err) {
+        return { importer: null, data: null, errors: [`Couldn't unpack ${file.name}: ${err instanceof Error ? err.message : 'unknown error'}`] };
+      }
+    } else {
+      sources.push({ name: file.name, data });
+    }
+  }
+
+  const importer = IMPORTERS.find(i => i.detect(sources)) ?? null;
+  if (!importer) {
+    return {
+      importer: null,
+      data: null,
+      errors: [`Unrecognised file. Supported: ${IMPORTERS.map(i => i.label).join(', ')}`],
+    };
+  }
+
+  const result = await importer.read(sources);
+  return { ...result, importer };
+}
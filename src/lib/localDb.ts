@@ -0,0 +1,380 @@
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import type { Habit, HabitEntry } from './sync';
+import type { Snapshot } from './snapshots';
+import { getCurrentUserId, userScopedKey } from './supabase';
+import { adoptLegacyRows } from './migrations';
+
+// Types
+interface CacheSchema extends DBSchema {
+  habits: {
+    key: string;
+    value: Habit;
+    indexes: { by_order: number };
+  };
+  entries: {
+    key: string;
+    value: HabitEntry;
+    indexes: {
+      by_habit: string;
+      by_date: string;
+      by_habit_date: [string, string];
+    };
+  };
+  snapshots: {
+    key: string;
+    value: Snapshot;
+    indexes: { by_created: string };
+  };
+}
+
+export interface EntryScope {
+  habitId?: string;
+  date?: string;
+}
+
+// Constants
+const DB_NAME = 'master-mausam';
+const DB_VERSION = 2;
+const LEGACY_CACHE_KEY = 'master-mausam-cache-v1';
+
+// One database per user, keyed by the scoped database name
+const dbPromises = new Map<string, Promise<IDBPDatabase<CacheSchema>>>();
+
+// Set while another tab's older connection holds up a version upgrade
+type BlockedListener = (blocked: boolean) => void;
+const blockedListeners = new Set<BlockedListener>();
+let upgradeBlocked = false;
+
+function setUpgradeBlocked(blocked: boolean): void {
+  if (upgradeBlocked === blocked) return;
+  upgradeBlocked = blocked;
+  blockedListeners.forEach(listener => listener(blocked));
+}
+
+export function isUpgradeBlocked(): boolean {
+  return upgradeBlocked;
+}
+
+/**
+ * Listen for the cache upgrade being held up by another open tab
+ */
+export function subscribeUpgradeBlocked(listener: BlockedListener): () => void {
+  blockedListeners.add(listener);
+  return () => {
+    blockedListeners.delete(listener);
+  };
+}
+
+// ============================================
+// DATABASE
+// ============================================
+
+/**
+ * Open (and create on first use) the signed-in user's IndexedDB cache.
+ * A newer tab that needs to upgrade the schema makes this one let go of its
+ * connection; the next call reopens it (and gets blocked in turn if it's
+ * the older code).
+ */
+function getDb(): Promise<IDBPDatabase<CacheSchema>> {
+  const name = userScopedKey(DB_NAME);
+  let dbPromise = dbPromises.get(name);
+  if (!dbPromise) {
+    const userId = getCurrentUserId();
+    const opening: Promise<IDBPDatabase<CacheSchema>> = openDB<CacheSchema>(name, DB_VERSION, {
+      upgrade(db, oldVersion) {
+        if (oldVersion < 1) {
+          const habits = db.createObjectStore('habits', { keyPath: 'id' });
+          habits.createIndex('by_order', 'order_index');
+
+          const entries = db.createObjectStore('entries', { keyPath: 'id' });
+          entries.createIndex('by_habit', 'habit_id');
+          entries.createIndex('by_date', 'date');
+          entries.createIndex('by_habit_date', ['habit_id', 'date']);
+        }
+        if (oldVersion < 2) {
+          const snapshots = db.createObjectStore('snapshots', { keyPath: 'id' });
+          snapshots.createIndex('by_created', 'created_at');
+        }
+      },
+      // An older tab still has the database open; opening waits until it closes
+      blocked() {
+        console.warn('[Cache] Upgrade blocked by another open tab');
+        setUpgradeBlocked(true);
+      },
+      // A newer tab wants to upgrade: close so it isn't left waiting on us
+      blocking() {
+        console.warn('[Cache] Closing the database for an upgrade in another tab');
+        dbPromises.delete(name);
+        void opening.then(db => db.close());
+      },
+    }).then(async (db) => {
+      setUpgradeBlocked(false);
+      if (userId) await migrateLegacyCache(db, userId);
+      return db;
+    });
+    dbPromise = opening;
+    dbPromises.set(name, dbPromise);
+
+    dbPromise.catch((err) => {
+      console.warn('[Cache] Failed to open IndexedDB:', err);
+      dbPromises.delete(name);
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * One-time copy of the old single-blob localStorage cache into IndexedDB.
+ * Rows owned by the user, or by the fixed id the blob was written under, are
+ * copied; the blob is kept for its owner otherwise.
+ */
+async function migrateLegacyCache(db: IDBPDatabase<CacheSchema>, userId: string): Promise<void> {
+  let legacy: { habits?: Habit[]; entries?: HabitEntry[] } | null = null;
+  try {
+    const data = localStorage.getItem(LEGACY_CACHE_KEY);
+    legacy = data ? JSON.parse(data) : null;
+  } catch {
+    // Unreadable legacy data is ignored
+  }
+
+  const { habits, entries } = adoptLegacyRows(legacy?.habits || [], legacy?.entries || [], userId);
+  if (habits.length === 0 && entries.length === 0) return;
+
+  const tx = db.transaction(['habits', 'entries'], 'readwrite');
+  await Promise.all([
+    ...habits.map(habit => tx.objectStore('habits').put(habit)),
+    ...entries.map(entry => tx.objectStore('entries').put(entry)),
+    tx.done,
+  ]);
+  console.log('[Cache] Migrated localStorage cache to IndexedDB');
+
+  try {
+    localStorage.removeItem(LEGACY_CACHE_KEY);
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+function matchesScope(entry: HabitEntry, scope: EntryScope): boolean {
+  if (scope.habitId && entry.habit_id !== scope.habitId) return false;
+  if (scope.date && entry.date !== scope.date) return false;
+  return true;
+}
+
+// ============================================
+// HABITS
+// ============================================
+
+export async function getCachedHabits(): Promise<Habit[]> {
+  try {
+    const db = await getDb();
+    return await db.getAllFromIndex('habits', 'by_order');
+  } catch {
+    return [];
+  }
+}
+
+export async function putCachedHabits(habits: Habit[]): Promise<void> {
+  try {
+    const db = await getDb();
+    const tx = db.transaction('habits', 'readwrite');
+    await Promise.all([...habits.map(habit => tx.store.put(habit)), tx.done]);
+  } catch (err) {
+    console.warn('[Cache] Failed to write habits:', err);
+  }
+}
+
+/**
+ * Replace every cached habit with the given list
+ */
+export async function replaceCachedHabits(habits: Habit[]): Promise<void> {
+  try {
+    const db = await getDb();
+    const tx = db.transaction('habits', 'readwrite');
+    await Promise.all([tx.store.clear(), ...habits.map(habit => tx.store.put(habit)), tx.done]);
+  } catch (err) {
+    console.warn('[Cache] Failed to replace habits:', err);
+  }
+}
+
+/**
+ * Remove a habit and all of its entries
+ */
+export async function deleteCachedHabit(habitId: string): Promise<void> {
+  try {
+    const db = await getDb();
+    const tx = db.transaction(['habits', 'entries'], 'readwrite');
+    const entryIds = await tx.objectStore('entries').index('by_habit').getAllKeys(habitId);
+    await Promise.all([
+      tx.objectStore('habits').delete(habitId),
+      ...entryIds.map(id => tx.objectStore('entries').delete(id)),
+      tx.done,
+    ]);
+  } catch (err) {
+    console.warn('[Cache] Failed to delete habit:', err);
+  }
+}
+
+// ============================================
+// ENTRIES
+// ============================================
+
+/**
+ * Read entries, narrowed by habit and/or date through the matching index
+ */
+export async function getCachedEntries(scope: EntryScope = {}): Promise<HabitEntry[]> {
+  try {
+    const db = await getDb();
+    if (scope.habitId && scope.date) {
+      return await db.getAllFromIndex('entries', 'by_habit_date', [scope.habitId, scope.date]);
+    }
+    if (scope.habitId) return await db.getAllFromIndex('entries', 'by_habit', scope.habitId);
+    if (scope.date) return await db.getAllFromIndex('entries', 'by_date', scope.date);
+    return await db.getAll('entries');
+  } catch {
+    return [];
+  }
+}
+
+export async function getCachedEntry(entryId: string): Promise<HabitEntry | undefined> {
+  try {
+    const db = await getDb();
+    return await db.get('entries', entryId);
+  } catch {
+    return undefined;
+  }
+}
+
+export async function putCachedEntries(entries: HabitEntry[]): Promise<void> {
+  try {
+    const db = await getDb();
+    const tx = db.transaction('entries', 'readwrite');
+    await Promise.all([...entries.map(entry => tx.store.put(entry)), tx.done]);
+  } catch (err) {
+    console.warn('[Cache] Failed to write entries:', err);
+  }
+}
+
+/**
+ * Replace the cached entries inside a scope (all entries when no scope given)
+ */
+export async function replaceCachedEntries(entries: HabitEntry[], scope: EntryScope = {}): Promise<void> {
+  try {
+    const db = await getDb();
+    const tx = db.transaction('entries', 'readwrite');
+    if (scope.habitId || scope.date) {
+      const index = tx.store.index(scope.habitId ? 'by_habit' : 'by_date');
+      let cursor = await index.openCursor(scope.habitId ?? scope.date);
+      while (cursor) {
+        if (matchesScope(cursor.value, scope)) await cursor.delete();
+        cursor = await cursor.continue();
+      }
+    } else {
+      await tx.store.clear();
+    }
+    await Promise.all([...entries.map(entry => tx.store.put(entry)), tx.done]);
+  } catch (err) {
+    console.warn('[Cache] Failed to replace entries:', err);
+  }
+}
+
+export async function deleteCachedEntry(entryId: string): Promise<void> {
+  try {
+    const db = await getDb();
+    await db.delete('entries', entryId);
+  } catch (err) {
+    console.warn('[Cache] Failed to delete entry:', err);
+  }
+}
+
+/**
+ * Read the whole cache in one transaction. Unlike the helpers above this
+ * throws, so an unreadable cache is never mistaken for an empty one.
+ */
+export async function readCache(): Promise<{ habits: Habit[]; entries: HabitEntry[] }> {
+  const db = await getDb();
+  const tx = db.transaction(['habits', 'entries'], 'readonly');
+  const [habits, entries] = await Promise.all([
+    tx.objectStore('habits').index('by_order').getAll(),
+    tx.objectStore('entries').getAll(),
+    tx.done,
+  ]);
+  return { habits, entries };
+}
+
+/**
+ * Swap the whole cache for the given rows in one transaction. Throws on
+ * failure, in which case nothing was written.
+ */
+export async function replaceCache(habits: Habit[], entries: HabitEntry[]): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(['habits', 'entries'], 'readwrite');
+  const habitStore = tx.objectStore('habits');
+  const entryStore = tx.objectStore('entries');
+  await Promise.all([
+    habitStore.clear(),
+    entryStore.clear(),
+    ...habits.map(habit => habitStore.put(habit)),
+    ...entries.map(entry => entryStore.put(entry)),
+    tx.done,
+  ]);
+}
+
+/**
+ * Wipe the whole local cache
+ */
+export async function clearCache(): Promise<void> {
+  try {
+    const db = await getDb();
+    const tx = db.transaction(['habits', 'entries'], 'readwrite');
+    await Promise.all([tx.objectStore('habits').clear(), tx.objectStore('entries').clear(), tx.done]);
+  } catch (err) {
+    console.warn('[Cache] Failed to clear cache:', err);
+  }
+}
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+/**
+ * Newest first
+ */
+export async function getSnapshots(): Promise<Snapshot[]> {
+  try {
+    const db = await getDb();
+    return (await db.getAllFromIndex('snapshots', 'by_created')).reverse();
+  } catch {
+    return [];
+  }
+}
+
+export async function getSnapshot(id: string): Promise<Snapshot | undefined> {
+  try {
+    const db = await getDb();
+    return await db.get('snapshots', id);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Store a snapshot and drop the oldest beyond `keep`. Throws on failure so
+ * a bulk operation never runs without its safety net.
+ */
+export async function putSnapshot(snapshot: Snapshot, keep: number): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction('snapshots', 'readwrite');
+  await tx.store.put(snapshot);
+  const ids = await tx.store.index('by_created').getAllKeys();
+  await Promise.all([...ids.slice(0, Math.max(0, ids.length - keep)).map(id => tx.store.delete(id)), tx.done]);
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+  try {
+    const db = await getDb();
+    await db.delete('snapshots', id);
+  } catch (err) {
+    console.warn('[Cache] Failed to delete snapshot:', err);
+  }
+}
@@ -0,0 +1,106 @@
+import type { Habit, HabitEntry } from './sync';
+import type { HabitRepository } from './repository';
+import {
+  createLocalChangeFeed,
+  type ChangeFeed,
+  type ChangeListener,
+  type FeedTable,
+  type LiveListener,
+} from './changeFeed';
+
+/**
+ * In-memory repository. Data lives only as long as the page, so it suits
+ * tests and demos; every write is echoed on its change feed like Realtime would.
+ */
+export function createMemoryRepository(seed?: { habits?: Habit[]; entries?: HabitEntry[] }): HabitRepository {
+  const habits = new Map((seed?.habits || []).map(h => [h.id, { ...h }]));
+  const entries = new Map((seed?.entries || []).map(e => [e.id, { ...e }]));
+  const feed = createLocalChangeFeed();
+
+  return {
+    backend: 'memory',
+
+    async ping() {
+      return true;
+    },
+
+    async listHabits(userId) {
+      return [...habits.values()]
+        .filter(h => h.user_id === userId)
+        .sort((a, b) => a.order_index - b.order_index)
+        .map(h => ({ ...h }));
+    },
+
+    async upsertHabit(habit) {
+      const existing = habits.get(habit.id);
+      const saved = { ...habit };
+      habits.set(habit.id, saved);
+      feed.emit<Habit>('habits', { type: existing ? 'UPDATE' : 'INSERT', new: { ...saved }, old: existing ?? null });
+      return { ...saved };
+    },
+
+    async deleteHabit(userId, habitId) {
+      for (const entry of [...entries.values()]) {
+        if (entry.habit_id === habitId && entry.user_id === userId) {
+          entries.delete(entry.id);
+          feed.emit<HabitEntry>('habit_entries', { type: 'DELETE', new: null, old: entry });
+        }
+      }
+      const existing = habits.get(habitId);
+      if (existing && existing.user_id === userId) {
+        habits.delete(habitId);
+        feed.emit<Habit>('habits', { type: 'DELETE', new: null, old: existing });
+      }
+    },
+
+    async reorderHabits(userId, habitIds, updatedAt) {
+      habitIds.forEach((id, index) => {
+        const existing = habits.get(id);
+        if (!existing || existing.user_id !== userId) return;
+        const saved = { ...existing, order_index: index, updated_at: updatedAt };
+        habits.set(id, saved);
+        feed.emit<Habit>('habits', { type: 'UPDATE', new: { ...saved }, old: existing });
+      });
+    },
+
+    async listEntries(userId, scope) {
+      return [...entries.values()]
+        .filter(e => e.user_id === userId)
+        .filter(e => !scope?.habitId || e.habit_id === scope.habitId)
+        .filter(e => !scope?.date || e.date === scope.date)
+        .map(e => ({ ...e }));
+    },
+
+    async getEntry(userId, entryId) {
+      const entry = entries.get(entryId);
+      return entry && entry.user_id === userId ? { ...entry } : null;
+    },
+
+    async upsertEntry(entry) {
+      const existing = entries.get(entry.id);
+      const saved = { ...entry };
+      entries.set(entry.id, saved);
+      feed.emit<HabitEntry>('habit_entries', { type: existing ? 'UPDATE' : 'INSERT', new: { ...saved }, old: existing ?? null });
+      return { ...saved };
+    },
+
+    async deleteEntry(userId, entryId) {
+      const existing = entries.get(entryId);
+      if (!existing || existing.user_id !== userId) return;
+      entries.delete(entryId);
+      feed.emit<HabitEntry>('habit_entries', { type: 'DELETE', new: null, old: existing });
+    },
+
+    createChangeFeed(userId): ChangeFeed {
+      // Only forward rows owned by this user
+      return {
+        subscribe<T extends { id: string }>(table: FeedTable, onChange: ChangeListener<T>, onLive?: LiveListener) {
+          return feed.subscribe<T>(table, (change) => {
+            const row = (change.new ?? change.old) as { user_id?: string } | null;
+            if (row?.user_id === userId) onChange(change);
+          }, onLive);
+        },
+      };
+    },
+  };
+}
@@ -1,12 +1,286 @@
-// Migrations - disabled for offline mode
-export async function runMigrations(): Promise<{ success: boolean; applied: number; errors: string[] }> {
-  return { success: true, applied: 0, errors: [] };
+import { generateEntryId, type Habit, type HabitEntry } from './sync';
+import { LEGACY_USER_ID } from './supabase';
+
+// Types
+export interface MigrationResult {
+  success: boolean;
+  applied: number;
+  version: number;
+  errors: string[];
+}
+
+/**
+ * Working copy handed to a migration. Changes only land if the step
+ * finishes without throwing.
+ */
+export interface MigrationContext {
+  userId: string;
+  habits: Habit[];
+  entries: HabitEntry[];
+  storage: {
+    get(key: string): string | null;
+    set(key: string, value: string): void;
+    remove(key: string): void;
+  };
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(ctx: MigrationContext): void | Promise<void>;
+}
+
+/**
+ * Where migrations read and write. The browser store is the user's
+ * IndexedDB cache plus localStorage; tests pass an in-memory one.
+ */
+export interface MigrationStore {
+  userId: string;
+  loadCache(): Promise<{ habits: Habit[]; entries: HabitEntry[] }>;
+  // Must write both lists atomically, or throw
+  saveCache(habits: Habit[], entries: HabitEntry[]): Promise<void>;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  getVersion(): number;
+  setVersion(version: number): void;
+  // Called once with the cache before the first pending step
+  snapshot?(habits: Habit[], entries: HabitEntry[]): Promise<void>;
+}
+
+// Constants
+const SCHEMA_VERSION_KEY = 'master-mausam-schema-version';
+
+// Single-blob formats from before the IndexedDB cache
+const LEGACY_DATA_KEYS = ['master-mausam-data', 'master-mausam-data-v1', 'master-mausam-data-v2'];
+
+// Keys from the pre-sync versions of the app
+const OLD_STORAGE_KEYS = [
+  'masterMausam.health.habits.v1',
+  'masterMausam.health.order.v1',
+  'masterMausam.health.fastingHours.v1',
+  'masterMausam.health.lastFastingHours.v1',
+  'habit-tracker-v5',
+];
+
+// ============================================
+// LEGACY DATA
+// ============================================
+
+/**
+ * Keep the rows of a pre-IndexedDB blob that belong to the user. Rows saved
+ * under the old fixed user id are handed over to them, with entry ids
+ * regenerated for the new owner.
+ */
+export function adoptLegacyRows(
+  habits: Habit[],
+  entries: HabitEntry[],
+  userId: string
+): { habits: Habit[]; entries: HabitEntry[] } {
+  const owned = (rowUserId: string) => rowUserId === userId || rowUserId === LEGACY_USER_ID;
+  return {
+    habits: habits
+      .filter(h => owned(h.user_id))
+      .map(h => ({ ...h, user_id: userId })),
+    entries: entries
+      .filter(e => owned(e.user_id))
+      .map(e => ({ ...e, id: generateEntryId(userId, e.habit_id, e.date), user_id: userId })),
+  };
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+/**
+ * Client-side migrations, applied in version order. Each one must be safe
+ * to run again - a step whose commit fails is retried on the next launch.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    name: 'Import the master-mausam-data-v2 blob into the cache',
+    up(ctx) {
+      const blob = ctx.storage.get('master-mausam-data-v2');
+      if (blob) {
+        let parsed: { habits?: Habit[]; entries?: HabitEntry[] } | null = null;
+        try {
+          parsed = JSON.parse(blob);
+        } catch {
+          // Unreadable blobs are dropped below
+        }
+
+        // Only rows owned by this user, and never over a cached row
+        const adopted = adoptLegacyRows(parsed?.habits || [], parsed?.entries || [], ctx.userId);
+        const habitIds = new Set(ctx.habits.map(h => h.id));
+        const entryIds = new Set(ctx.entries.map(e => e.id));
+        adopted.habits
+          .filter(h => !habitIds.has(h.id))
+          .forEach(h => ctx.habits.push(h));
+        adopted.entries
+          .filter(e => !entryIds.has(e.id))
+          .forEach(e => ctx.entries.push(e));
+      }
+
+      LEGACY_DATA_KEYS.forEach(key => ctx.storage.remove(key));
+    },
+  },
+  {
+    version: 3,
+    name: 'Remove pre-sync storage keys',
+    up(ctx) {
+      OLD_STORAGE_KEYS.forEach(key => ctx.storage.remove(key));
+    },
+  },
+  {
+    version: 4,
+    name: 'Mark cached "Fasting" habits as fasting kind',
+    up(ctx) {
+      // Same rule as supabase/migrations/007_fasting.sql, for cache-only users
+      ctx.habits = ctx.habits.map(h =>
+        !h.kind && h.name.trim().toLowerCase() === 'fasting' ? { ...h, kind: 'fasting' } : h
+      );
+    },
+  },
+];
+
+// The schema every install starts at
+const BASE_VERSION = 1;
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.reduce((max, m) => Math.max(max, m.version), BASE_VERSION);
+
+// ============================================
+// RUNNER
+// ============================================
+
+function validateRegistry(migrations: Migration[]): string | null {
+  for (let i = 0; i < migrations.length; i++) {
+    if (!Number.isInteger(migrations[i].version) || migrations[i].version <= BASE_VERSION) {
+      return `Migration "${migrations[i].name}" has invalid version ${migrations[i].version}`;
+    }
+    if (i > 0 && migrations[i].version <= migrations[i - 1].version) {
+      return `Migration versions must increase (${migrations[i - 1].version} then ${migrations[i].version})`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply every pending migration in order. Each step runs against a copy of
+ * the cache and staged storage writes; only when it succeeds are the cache,
+ * the storage writes and the new version committed. The first failure stops
+ * the run so later steps never see a half-migrated store.
+ */
+export async function runMigrations(
+  store?: MigrationStore | null,
+  migrations: Migration[] = MIGRATIONS
+): Promise<MigrationResult> {
+  const target = store === undefined ? await createBrowserMigrationStore() : store;
+  if (!target) {
+    // Nobody signed in - nothing to migrate yet
+    return { success: true, applied: 0, version: BASE_VERSION, errors: [] };
+  }
+
+  const registryError = validateRegistry(migrations);
+  const version = target.getVersion();
+  if (registryError) {
+    return { success: false, applied: 0, version, errors: [registryError] };
+  }
+
+  const result: MigrationResult = { success: true, applied: 0, version, errors: [] };
+
+  const pending = migrations.filter(m => m.version > version);
+  if (pending.length > 0 && target.snapshot) {
+    try {
+      const cache = await target.loadCache();
+      await target.snapshot(cache.habits, cache.entries);
+    } catch (err) {
+      console.warn('[Migrations] Snapshot failed, not migrating:', err);
+      result.success = false;
+      result.errors.push(`Snapshot before migrating failed: ${err instanceof Error ? err.message : String(err)}`);
+      return result;
+    }
+  }
+
+  for (const migration of pending) {
+    try {
+      const cache = await target.loadCache();
+      const before = JSON.stringify(cache);
+
+      // Storage writes are staged: key -> new value, null = removed
+      const staged = new Map<string, string | null>();
+      const ctx: MigrationContext = {
+        userId: target.userId,
+        habits: cache.habits.map(h => ({ ...h })),
+        entries: cache.entries.map(e => ({ ...e })),
+        storage: {
+          get: (key) => (staged.has(key) ? staged.get(key)! : target.getItem(key)),
+          set: (key, value) => { staged.set(key, value); },
+          remove: (key) => { staged.set(key, null); },
+        },
+      };
+
+      await migration.up(ctx);
+
+      if (JSON.stringify({ habits: ctx.habits, entries: ctx.entries }) !== before) {
+        await target.saveCache(ctx.habits, ctx.entries);
+      }
+      staged.forEach((value, key) => {
+        if (value === null) target.removeItem(key);
+        else target.setItem(key, value);
+      });
+      target.setVersion(migration.version);
+
+      result.version = migration.version;
+      result.applied += 1;
+      console.log(`[Migrations] Applied ${migration.version}: ${migration.name}`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`[Migrations] ${migration.version} failed:`, err);
+      result.success = false;
+      result.errors.push(`${migration.version} (${migration.name}): ${message}`);
+      break;
+    }
+  }
+
+  return result;
 }
 
-export function getCurrentSchemaVersion(): number {
-  return 1;
+/**
+ * The signed-in user's cache and storage, or null when nobody is signed in.
+ * Loaded lazily so the runner itself has no browser dependencies.
+ */
+export async function createBrowserMigrationStore(): Promise<MigrationStore | null> {
+  const { getCurrentUserId, userScopedKey } = await import('./supabase');
+  const { readCache, replaceCache } = await import('./localDb');
+  const { takeSnapshot } = await import('./snapshots');
+
+  const userId = getCurrentUserId();
+  if (!userId) return null;
+  const versionKey = userScopedKey(SCHEMA_VERSION_KEY);
+
+  return {
+    userId,
+    loadCache: readCache,
+    saveCache: replaceCache,
+    getItem: (key) => localStorage.getItem(key),
+    setItem: (key, value) => localStorage.setItem(key, value),
+    removeItem: (key) => {
+      localStorage.removeItem(key);
+      sessionStorage.removeItem(key);
+    },
+    getVersion: () => Number(localStorage.getItem(versionKey)) || BASE_VERSION,
+    setVersion: (version) => localStorage.setItem(versionKey, String(version)),
+    async snapshot(habits, entries) {
+      await takeSnapshot('migration', `Before upgrading local data from v${Number(localStorage.getItem(versionKey)) || BASE_VERSION}`, { habits, entries });
+    },
+  };
 }
 
-export const migrationUtils = {
-  getCurrentSchemaVersion,
-};
+/**
+ * Applied schema version for the signed-in user
+ */
+export async function getCurrentSchemaVersion(): Promise<number> {
+  const store = await createBrowserMigrationStore();
+  return store ? store.getVersion() : BASE_VERSION;
+}
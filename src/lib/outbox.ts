@@ -0,0 +1,260 @@
+import type { Habit, HabitEntry } from './sync';
+import { userScopedKey } from './supabase';
+
+// Types
+export type PendingOperation =
+  | { kind: 'upsert_habit'; habit: Habit }
+  | { kind: 'delete_habit'; habitId: string }
+  | { kind: 'reorder_habits'; habitIds: string[]; updated_at: string }
+  | { kind: 'upsert_entry'; entry: HabitEntry }
+  | { kind: 'delete_entry'; entryId: string; updated_at?: string };
+
+export type QueuedOperation = PendingOperation & {
+  id: string;
+  created_at: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string;
+};
+
+// An operation taken out of the queue because it can't succeed as it stands
+export type DeadLetter = QueuedOperation & {
+  failed_at: string;
+  reason: 'rejected' | 'max_attempts';
+};
+
+// Constants
+const OUTBOX_KEY = 'master-mausam-outbox-v1';
+const DEAD_LETTER_KEY = 'master-mausam-outbox-dead-v1';
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+// Failures that aren't connectivity problems get this many tries
+export const MAX_ATTEMPTS = 10;
+const MAX_DEAD_LETTERS = 50;
+
+// ============================================
+// OUTBOX STORAGE
+// ============================================
+
+/**
+ * Get all queued operations, oldest first
+ */
+export function getOutbox(): QueuedOperation[] {
+  try {
+    const data = localStorage.getItem(userScopedKey(OUTBOX_KEY));
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+function setOutbox(queue: QueuedOperation[]): void {
+  try {
+    localStorage.setItem(userScopedKey(OUTBOX_KEY), JSON.stringify(queue));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+export function getPendingCount(): number {
+  return getOutbox().length;
+}
+
+/**
+ * Key used to collapse repeated writes to the same row into a single operation.
+ * Reorders are never collapsed because they touch many rows.
+ */
+function getTargetKey(op: PendingOperation): string | null {
+  switch (op.kind) {
+    case 'upsert_habit':
+      return `habit:${op.habit.id}`;
+    case 'delete_habit':
+      return `habit:${op.habitId}`;
+    case 'upsert_entry':
+      return `entry:${op.entry.id}`;
+    case 'delete_entry':
+      return `entry:${op.entryId}`;
+    default:
+      return null;
+  }
+}
+
+// Entry ids are user:habit:date
+function entryHabitId(op: QueuedOperation): string | null {
+  if (op.kind === 'upsert_entry') return op.entry.habit_id;
+  if (op.kind === 'delete_entry') return op.entryId.split(':')[1] ?? null;
+  return null;
+}
+
+/**
+ * Append an operation to the outbox.
+ * A newer write to the same habit or entry replaces the older queued one in
+ * place, so it still replays before anything queued after it (a habit before
+ * its entries). Deleting a habit also drops its queued entry writes, which
+ * the delete removes anyway.
+ */
+export function enqueueOperation(op: PendingOperation): number {
+  const now = new Date().toISOString();
+  const targetKey = getTargetKey(op);
+  const queued: QueuedOperation = {
+    ...op,
+    id: crypto.randomUUID(),
+    created_at: now,
+    attempts: 0,
+    next_attempt_at: now,
+  };
+
+  let queue = getOutbox();
+  if (op.kind === 'delete_habit') {
+    queue = queue.filter(existing => entryHabitId(existing) !== op.habitId);
+  }
+
+  const index = targetKey === null ? -1 : queue.findIndex(existing => getTargetKey(existing) === targetKey);
+  if (index === -1) {
+    queue.push(queued);
+  } else {
+    queue[index] = queued;
+  }
+  setOutbox(queue);
+
+  return queue.length;
+}
+
+/**
+ * Remove an operation once it has reached the cloud
+ */
+export function removeOperation(id: string): number {
+  const queue = getOutbox().filter(op => op.id !== id);
+  setOutbox(queue);
+  return queue.length;
+}
+
+/**
+ * Record a failed attempt and push the next attempt out with exponential backoff.
+ * A rejected operation (the backend will never accept it) or one that has
+ * used up MAX_ATTEMPTS moves to the dead-letter list instead, so it can't hold
+ * up everything queued behind it. Connectivity failures never count towards
+ * the cap. Returns true when the operation was dead-lettered.
+ */
+export function markOperationFailed(
+  id: string,
+  error: string,
+  options: { rejected?: boolean; countsTowardsLimit?: boolean } = {}
+): boolean {
+  const queue = getOutbox();
+  const op = queue.find(queued => queued.id === id);
+  if (!op) return false;
+
+  const attempts = op.attempts + 1;
+  const exhausted = options.countsTowardsLimit !== false && attempts >= MAX_ATTEMPTS;
+  if (options.rejected || exhausted) {
+    const deadLetter: DeadLetter = {
+      ...op,
+      attempts,
+      last_error: error,
+      failed_at: new Date().toISOString(),
+      reason: options.rejected ? 'rejected' : 'max_attempts',
+    };
+    setDeadLetters([deadLetter, ...getDeadLetters()].slice(0, MAX_DEAD_LETTERS));
+    setOutbox(queue.filter(queued => queued.id !== id));
+    return true;
+  }
+
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  setOutbox(queue.map(queued => queued.id !== id ? queued : {
+    ...queued,
+    attempts,
+    last_error: error,
+    next_attempt_at: new Date(Date.now() + delay).toISOString(),
+  }));
+  return false;
+}
+
+export function isOperationDue(op: QueuedOperation, now = Date.now()): boolean {
+  return new Date(op.next_attempt_at).getTime() <= now;
+}
+
+export function clearOutbox(): void {
+  try {
+    localStorage.removeItem(userScopedKey(OUTBOX_KEY));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+// ============================================
+// DEAD LETTERS
+// ============================================
+
+/**
+ * Operations that were given up on, newest first
+ */
+export function getDeadLetters(): DeadLetter[] {
+  try {
+    const data = localStorage.getItem(userScopedKey(DEAD_LETTER_KEY));
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+function setDeadLetters(deadLetters: DeadLetter[]): void {
+  try {
+    localStorage.setItem(userScopedKey(DEAD_LETTER_KEY), JSON.stringify(deadLetters));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+// The write itself, without the outbox and dead-letter bookkeeping
+function toPendingOperation(op: PendingOperation): PendingOperation {
+  switch (op.kind) {
+    case 'upsert_habit':
+      return { kind: op.kind, habit: op.habit };
+    case 'delete_habit':
+      return { kind: op.kind, habitId: op.habitId };
+    case 'reorder_habits':
+      return { kind: op.kind, habitIds: op.habitIds, updated_at: op.updated_at };
+    case 'upsert_entry':
+      return { kind: op.kind, entry: op.entry };
+    case 'delete_entry':
+      return { kind: op.kind, entryId: op.entryId, updated_at: op.updated_at };
+  }
+}
+
+/**
+ * Put a dead-lettered operation back at the end of the queue with a fresh
+ * set of attempts. If a newer write to the same row is already queued, the
+ * dead letter is stale and is just dropped. Returns the new queue length.
+ */
+export function requeueDeadLetter(id: string): number {
+  const deadLetter = getDeadLetters().find(d => d.id === id);
+  removeDeadLetter(id);
+  if (!deadLetter) return getPendingCount();
+
+  const queue = getOutbox();
+  const targetKey = getTargetKey(deadLetter);
+  if (targetKey !== null && queue.some(op => getTargetKey(op) === targetKey)) return queue.length;
+
+  queue.push({
+    ...toPendingOperation(deadLetter),
+    id: deadLetter.id,
+    created_at: deadLetter.created_at,
+    attempts: 0,
+    next_attempt_at: new Date().toISOString(),
+  });
+  setOutbox(queue);
+  return queue.length;
+}
+
+export function removeDeadLetter(id: string): void {
+  setDeadLetters(getDeadLetters().filter(d => d.id !== id));
+}
+
+export function clearDeadLetters(): void {
+  try {
+    localStorage.removeItem(userScopedKey(DEAD_LETTER_KEY));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
@@ -0,0 +1,238 @@
+import type { Habit, HabitEntry } from './sync';
+import { getCompletionRatio, getEntryAmount, getTarget, isQuantitative } from './habitProgress';
+import { isFastingHabit } from './fasting';
+import { getSchedule, isDueOn } from './schedule';
+import { getServiceWorkerRegistration } from './serviceWorker';
+
+// Types
+
+/**
+ * One reminder as the service worker sees it. `done` is worked out here
+ * so the worker never needs to know how habits are scored.
+ */
+export interface ScheduledReminder {
+  habitId: string;
+  name: string;
+  icon: string;
+  time: string;        // HH:MM, local
+  step: number;        // Two-step habits: which step this reminder is for
+  done: boolean;
+  canMarkDone: boolean;
+}
+
+export interface ReminderState {
+  userId: string;
+  date: string;        // Day the done flags were worked out for
+  reminders: ScheduledReminder[];
+}
+
+// A "Mark done" tap, queued by the service worker until the app applies it
+export interface MarkDoneRequest {
+  userId: string;
+  habitId: string;
+  date: string;
+  step: number;
+}
+
+// Constants
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CLOCK_INTERVAL_MS = 60 * 1000;
+const PERIODIC_SYNC_TAG = 'habit-reminders';
+const PERIODIC_SYNC_MIN_MS = 15 * 60 * 1000;
+const WORKER_REPLY_TIMEOUT_MS = 10 * 1000;
+
+// ============================================
+// PLANNING
+// ============================================
+
+export function isValidReminderTime(time: string): boolean {
+  return TIME_PATTERN.test(time);
+}
+
+/**
+ * Sorted, de-duplicated valid times, or null when there are none
+ */
+export function normalizeReminders(times: string[] | null | undefined): string[] | null {
+  const valid = [...new Set((times ?? []).filter(isValidReminderTime))].sort();
+  return valid.length > 0 ? valid : null;
+}
+
+/**
+ * The step a two-step habit should have reached by its nth reminder; the
+ * last reminder of the day always asks for the full two steps
+ */
+function stepFor(habit: Habit, index: number, count: number): number {
+  if (!habit.is_two_step) return 1;
+  return index === count - 1 ? 2 : Math.min(index + 1, 2);
+}
+
+/**
+ * Today's reminders for every active habit that is due, with whether each
+ * one is already satisfied
+ */
+export function planReminders(habits: Habit[], entries: HabitEntry[], date: string): ScheduledReminder[] {
+  const todays = new Map(entries.filter(e => e.date === date).map(e => [e.habit_id, e]));
+
+  return habits.flatMap(habit => {
+    const times = normalizeReminders(habit.reminders);
+    if (!times || habit.archived || !isDueOn(getSchedule(habit), date)) return [];
+
+    const entry = todays.get(habit.id);
+    const value = entry?.value ?? 0;
+    const isComplete = entry ? getCompletionRatio(habit, getEntryAmount(habit, entry)) >= 1 : false;
+
+    return times.map((time, index) => {
+      const step = stepFor(habit, index, times.length);
+      return {
+        habitId: habit.id,
+        name: habit.name,
+        icon: habit.icon,
+        time,
+        step,
+        done: isComplete || (habit.is_two_step && value >= step),
+        // A fast can't be logged from a notification - it needs start and end times
+        canMarkDone: !isFastingHabit(habit),
+      };
+    });
+  });
+}
+
+/**
+ * Value a "Mark done" tap writes: the reminder's step for two-step habits,
+ * the target for amounts, otherwise 1. Never lowers what is already logged.
+ */
+export function getMarkDoneValue(habit: Habit, current: number, step: number): number {
+  if (habit.is_two_step) return Math.max(current, step);
+  if (isQuantitative(habit)) return Math.max(current, getTarget(habit));
+  return Math.max(current, 1);
+}
+
+// ============================================
+// SERVICE WORKER BRIDGE
+// ============================================
+
+export function areNotificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+}
+
+/**
+ * Ask for notification permission. Must be called from a user gesture.
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!areNotificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+// Null until main.tsx has registered the worker (never under the dev server)
+function getWorker(): ServiceWorker | null {
+  return getServiceWorkerRegistration()?.active ?? null;
+}
+
+// Rejects if the worker doesn't reply (e.g. it was replaced mid-request)
+function postToWorker(worker: ServiceWorker, message: object): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => {
+      channel.port1.close();
+      reject(new Error('Service worker did not reply'));
+    }, WORKER_REPLY_TIMEOUT_MS);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      resolve(event.data);
+    };
+    worker.postMessage(message, [channel.port2]);
+  });
+}
+
+// Best effort: lets an installed app check for reminders while it's closed
+async function registerPeriodicCheck(): Promise<void> {
+  try {
+    const registration = getServiceWorkerRegistration() as (ServiceWorkerRegistration & {
+      periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+    }) | null;
+    await registration?.periodicSync?.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_MIN_MS });
+  } catch (err) {
+    console.warn('[Reminders] Periodic check unavailable:', err);
+  }
+}
+
+/**
+ * Keep the service worker's reminder list in step with the local cache and
+ * apply any "Mark done" taps it queued. Runs every minute while the app is
+ * open; returns a cleanup function.
+ */
+export function startReminders(userId: string): () => void {
+  if (!areNotificationsSupported()) return () => {};
+  let stopped = false;
+  let periodicRegistered = false;
+
+  const tick = async () => {
+    if (stopped || Notification.permission !== 'granted') return;
+    try {
+      const worker = getWorker();
+      if (!worker || stopped) return;
+      if (!periodicRegistered) {
+        periodicRegistered = true;
+        registerPeriodicCheck();
+      }
+
+      await applyMarkedDone(userId, worker);
+
+      const { getLocalCache } = await import('./sync');
+      const { habits, entries } = await getLocalCache();
+      const date = new Date().toLocaleDateString('en-CA');
+      const state: ReminderState = { userId, date, reminders: planReminders(habits, entries, date) };
+      await postToWorker(worker, { type: 'reminders:update', state });
+    } catch (err) {
+      console.warn('[Reminders] Update failed:', err);
+    }
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'reminders:marked') tick();
+  };
+
+  tick();
+  const interval = setInterval(tick, CLOCK_INTERVAL_MS);
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+    navigator.serviceWorker.removeEventListener('message', handleMessage);
+    // Signed out: this account's reminders shouldn't keep firing
+    getWorker()?.postMessage({ type: 'reminders:update', state: null });
+  };
+}
+
+/**
+ * Write the entries for queued "Mark done" taps. Taps from another account
+ * on this device are dropped.
+ */
+async function applyMarkedDone(userId: string, worker: ServiceWorker): Promise<void> {
+  const marks = (await postToWorker(worker, { type: 'reminders:take-marks' }) ?? []) as MarkDoneRequest[];
+  if (marks.length === 0) return;
+
+  const { getLocalCache, saveHabitEntry } = await import('./sync');
+  const { habits, entries } = await getLocalCache();
+
+  for (const mark of marks.filter(m => m.userId === userId)) {
+    const habit = habits.find(h => h.id === mark.habitId);
+    if (!habit) continue;
+    const existing = entries.find(e => e.habit_id === mark.habitId && e.date === mark.date);
+
+    try {
+      await saveHabitEntry(mark.habitId, mark.date, {
+        value: getMarkDoneValue(habit, existing?.value ?? 0, mark.step),
+        fasting_hours: existing?.fasting_hours,
+        fasting_started_at: existing?.fasting_started_at,
+        fasting_ended_at: existing?.fasting_ended_at,
+        note: existing?.note,
+      });
+      console.log(`[Reminders] Marked ${habit.name} done for ${mark.date}`);
+    } catch (err) {
+      console.warn(`[Reminders] Couldn't mark ${habit.name} done:`, err);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import type { Habit, HabitEntry } from './sync';
+import type { EntryScope } from './localDb';
+import type { ChangeFeed } from './changeFeed';
+import type { SyncEvent } from './syncLog';
+import { supabase, isSupabaseConfigured } from './supabase';
+import { env } from './env';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createMemoryRepository } from './memoryRepository';
+import { createRestRepository } from './restRepository';
+
+// Types
+export type SyncBackend = 'supabase' | 'rest' | 'memory' | 'none';
+
+/**
+ * Remote store that sync.ts reads from and writes to.
+ * Every method throws on failure; sync.ts decides whether to fall back to
+ * the cache or queue the write in the outbox.
+ */
+export interface HabitRepository {
+  readonly backend: SyncBackend;
+
+  // Status
+  ping(): Promise<boolean>;
+
+  // Habits
+  listHabits(userId: string): Promise<Habit[]>;
+  upsertHabit(habit: Habit): Promise<Habit>;
+  deleteHabit(userId: string, habitId: string): Promise<void>; // Removes its entries too
+  reorderHabits(userId: string, habitIds: string[], updatedAt: string): Promise<void>;
+
+  // Entries
+  listEntries(userId: string, scope?: EntryScope): Promise<HabitEntry[]>;
+  getEntry(userId: string, entryId: string): Promise<HabitEntry | null>;
+  upsertEntry(entry: HabitEntry): Promise<HabitEntry>;
+  deleteEntry(userId: string, entryId: string): Promise<void>;
+
+  // Row-level change notifications, or null when only polling is possible
+  createChangeFeed(userId: string): ChangeFeed | null;
+
+  // Optional remote copy of the sync event log (VITE_SYNC_LOG_REMOTE)
+  appendSyncLog?(events: SyncEvent[]): Promise<void>;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const configuredBackend = env.VITE_SYNC_BACKEND as string | undefined;
+const restApiUrl = env.VITE_REST_API_URL as string | undefined;
+const restApiToken = env.VITE_REST_API_TOKEN as string | undefined;
+
+function resolveBackend(): SyncBackend {
+  if (configuredBackend === 'supabase' || configuredBackend === 'rest' || configuredBackend === 'memory' || configuredBackend === 'none') {
+    return configuredBackend;
+  }
+  if (configuredBackend) {
+    console.error(`[Sync] Unknown VITE_SYNC_BACKEND "${configuredBackend}", falling back to supabase`);
+  }
+  return 'supabase';
+}
+
+export const syncBackend: SyncBackend = resolveBackend();
+
+/**
+ * URL of the REST API habits sync to, or null when another backend is selected
+ */
+export const restEndpoint: string | null = syncBackend === 'rest' && restApiUrl ? restApiUrl : null;
+
+/**
+ * Check that the selected backend has what it needs.
+ * `none` is a deliberate local-only setup, so it is not an error.
+ */
+export function checkBackendConfig(): { ok: boolean; error?: string } {
+  if (syncBackend === 'supabase' && !isSupabaseConfigured) {
+    return {
+      ok: false,
+      error: 'Supabase not configured. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.',
+    };
+  }
+  if (syncBackend === 'rest' && !restApiUrl) {
+    return {
+      ok: false,
+      error: 'REST backend selected but VITE_REST_API_URL is not set.',
+    };
+  }
+  return { ok: true };
+}
+
+/**
+ * Build the repository for the configured backend, or null when there is
+ * no usable remote (the app then runs from the local cache only)
+ */
+export function createConfiguredRepository(): HabitRepository | null {
+  if (!checkBackendConfig().ok) return null;
+
+  switch (syncBackend) {
+    case 'supabase':
+      return createSupabaseRepository(supabase);
+    case 'rest':
+      return createRestRepository(restApiUrl!, restApiToken);
+    case 'memory':
+      return createMemoryRepository();
+    case 'none':
+      return null;
+  }
+}
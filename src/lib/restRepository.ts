@@ -0,0 +1,96 @@
+import type { Habit, HabitEntry } from './sync';
+import type { HabitRepository } from './repository';
+
+/**
+ * Repository for a self-hosted JSON API. Expected endpoints (all scoped by
+ * the `X-User-Id` header):
+ *
+ *   GET    /health
+ *   GET    /habits                 PUT /habits/:id      DELETE /habits/:id
+ *   POST   /habits/reorder         { habit_ids, updated_at }
+ *   GET    /entries?habit_id&date  GET /entries/:id     PUT /entries/:id   DELETE /entries/:id
+ *
+ * GET /entries/:id returns 404 when the entry doesn't exist.
+ */
+export function createRestRepository(baseUrl: string, token?: string): HabitRepository {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  async function request<T>(userId: string | null, method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (userId) headers['X-User-Id'] = userId;
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    const response = await fetch(`${root}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      // status becomes the http_<status> error code in the sync log
+      throw Object.assign(new Error(`REST ${method} ${path} failed with ${response.status}`), { status: response.status });
+    }
+    if (response.status === 204) return undefined as T;
+    return response.json() as Promise<T>;
+  }
+
+  return {
+    backend: 'rest',
+
+    async ping() {
+      try {
+        await request(null, 'GET', '/health');
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async listHabits(userId) {
+      const habits = await request<Habit[]>(userId, 'GET', '/habits');
+      return habits.sort((a, b) => a.order_index - b.order_index);
+    },
+
+    upsertHabit(habit) {
+      return request<Habit>(habit.user_id, 'PUT', `/habits/${encodeURIComponent(habit.id)}`, habit);
+    },
+
+    async deleteHabit(userId, habitId) {
+      await request(userId, 'DELETE', `/habits/${encodeURIComponent(habitId)}`);
+    },
+
+    async reorderHabits(userId, habitIds, updatedAt) {
+      await request(userId, 'POST', '/habits/reorder', { habit_ids: habitIds, updated_at: updatedAt });
+    },
+
+    listEntries(userId, scope) {
+      const params = new URLSearchParams();
+      if (scope?.habitId) params.set('habit_id', scope.habitId);
+      if (scope?.date) params.set('date', scope.date);
+      const query = params.toString();
+      return request<HabitEntry[]>(userId, 'GET', `/entries${query ? `?${query}` : ''}`);
+    },
+
+    async getEntry(userId, entryId) {
+      try {
+        return await request<HabitEntry>(userId, 'GET', `/entries/${encodeURIComponent(entryId)}`);
+      } catch (err) {
+        if ((err as { status?: number }).status === 404) return null;
+        throw err;
+      }
+    },
+
+    upsertEntry(entry) {
+      return request<HabitEntry>(entry.user_id, 'PUT', `/entries/${encodeURIComponent(entry.id)}`, entry);
+    },
+
+    async deleteEntry(userId, entryId) {
+      await request(userId, 'DELETE', `/entries/${encodeURIComponent(entryId)}`);
+    },
+
+    createChangeFeed() {
+      // No push channel - hooks fall back to polling
+      return null;
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import type { Habit, HabitSchedule } from './sync';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DAILY: HabitSchedule = { type: 'daily' };
+
+export function getSchedule(habit: Pick<Habit, 'schedule'>): HabitSchedule {
+  return habit.schedule ?? DAILY;
+}
+
+// Date keys are local YYYY-MM-DD strings; parse them as local midnight
+function parseDateKey(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Whether the habit is expected on this date. Every day is eligible for
+ * "N times per period" schedules; their target is spread over the period.
+ */
+export function isDueOn(schedule: HabitSchedule, date: string): boolean {
+  switch (schedule.type) {
+    case 'daily':
+    case 'times_per_period':
+      return true;
+    case 'weekdays':
+      return schedule.days.includes(parseDateKey(date).getDay());
+    case 'interval': {
+      const offset = daysBetween(schedule.start, date);
+      return offset >= 0 && offset % Math.max(1, schedule.every) === 0;
+    }
+  }
+}
+
+// Key of the calendar week (starting Monday) or month a date falls in
+export function periodKey(date: string, period: 'week' | 'month'): string {
+  if (period === 'month') return date.slice(0, 7);
+  const d = parseDateKey(date);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.toLocaleDateString('en-CA');
+}
+
+function periodLength(date: string, period: 'week' | 'month'): number {
+  if (period === 'week') return 7;
+  const d = parseDateKey(date);
+  return new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+}
+
+export function isPeriodEnd(date: string, period: 'week' | 'month'): boolean {
+  if (period === 'week') return parseDateKey(date).getDay() === 0;
+  return Number(date.slice(8, 10)) === periodLength(date, period);
+}
+
+/**
+ * Completed vs expected amount over a set of dates.
+ * `ratioOf` gives each day's completion from 0 to 1. For "N times per
+ * period" the target is prorated for periods the dates only partly cover,
+ * and completions beyond the target don't carry over to other periods.
+ */
+export function getScheduledProgress(
+  schedule: HabitSchedule,
+  dates: string[],
+  ratioOf: (date: string) => number
+): { count: number; total: number } {
+  if (schedule.type !== 'times_per_period') {
+    let count = 0;
+    let total = 0;
+    dates.forEach(date => {
+      if (!isDueOn(schedule, date)) return;
+      total += 1;
+      count += ratioOf(date);
+    });
+    return { count, total };
+  }
+
+  const periods = new Map<string, { days: number; done: number; length: number }>();
+  dates.forEach(date => {
+    const key = periodKey(date, schedule.period);
+    const current = periods.get(key) ?? { days: 0, done: 0, length: periodLength(date, schedule.period) };
+    current.days += 1;
+    current.done += ratioOf(date);
+    periods.set(key, current);
+  });
+
+  let count = 0;
+  let total = 0;
+  periods.forEach(({ days, done, length }) => {
+    const target = (schedule.times * days) / length;
+    total += target;
+    count += Math.min(done, target);
+  });
+  return { count, total };
+}
+
+export function describeSchedule(schedule: HabitSchedule): string {
+  switch (schedule.type) {
+    case 'daily':
+      return 'Daily';
+    case 'weekdays':
+      return schedule.days.length === 0
+        ? 'No days'
+        : [...schedule.days].sort().map(d => WEEKDAY_NAMES[d]).join(', ');
+    case 'times_per_period':
+      return `${schedule.times}× per ${schedule.period}`;
+    case 'interval':
+      return schedule.every === 1 ? 'Daily' : `Every ${schedule.every} days`;
+  }
+}
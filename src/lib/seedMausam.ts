@@ -1,20 +1,21 @@
 // Add Mausam's specific habits
 import { getHabits, saveHabit, deleteHabit } from './sync';
+import { takeSnapshot } from './snapshots';
 
 const MAUSAM_HABITS = [
-  { name: 'Fasting', icon: '⏰', color: '#ef4444', is_two_step: false },
-  { name: '5 Ltr Water', icon: '💧', color: '#0ea5e9', is_two_step: false },
-  { name: 'No Eat Outside', icon: '🍽️', color: '#22c55e', is_two_step: false },
-  { name: 'Running', icon: '🏃', color: '#f97316', is_two_step: false },
-  { name: 'Exercise', icon: '💪', color: '#8b5cf6', is_two_step: false },
-  { name: 'Protein', icon: '🥩', color: '#f59e0b', is_two_step: false },
-  { name: 'Meditation', icon: '🧘', color: '#14b8a6', is_two_step: false },
-  { name: 'Vitamins 2 Times', icon: '💊', color: '#ec4899', is_two_step: true },
-  { name: 'Reading', icon: '📖', color: '#6366f1', is_two_step: false },
-  { name: '2 Brush', icon: '🪥', color: '#06b6d4', is_two_step: true },
-  { name: 'Travel', icon: '✈️', color: '#3b82f6', is_two_step: false },
-  { name: 'No Fap', icon: '🚫', color: '#dc2626', is_two_step: false },
-  { name: 'Butterfly', icon: '🦋', color: '#a855f7', is_two_step: false },
+  { name: 'Fasting', icon: '⏰', color: '#ef4444', is_two_step: false, category: 'health' },
+  { name: '5 Ltr Water', icon: '💧', color: '#0ea5e9', is_two_step: false, category: 'health' },
+  { name: 'No Eat Outside', icon: '🍽️', color: '#22c55e', is_two_step: false, category: 'health' },
+  { name: 'Running', icon: '🏃', color: '#f97316', is_two_step: false, category: 'fitness' },
+  { name: 'Exercise', icon: '💪', color: '#8b5cf6', is_two_step: false, category: 'fitness' },
+  { name: 'Protein', icon: '🥩', color: '#f59e0b', is_two_step: false, category: 'nutrition' },
+  { name: 'Meditation', icon: '🧘', color: '#14b8a6', is_two_step: false, category: 'wellness' },
+  { name: 'Vitamins 2 Times', icon: '💊', color: '#ec4899', is_two_step: true, category: 'health' },
+  { name: 'Reading', icon: '📖', color: '#6366f1', is_two_step: false, category: 'learning' },
+  { name: '2 Brush', icon: '🪥', color: '#06b6d4', is_two_step: true, category: 'health' },
+  { name: 'Travel', icon: '✈️', color: '#3b82f6', is_two_step: false, category: 'lifestyle' },
+  { name: 'No Fap', icon: '🚫', color: '#dc2626', is_two_step: false, category: 'discipline' },
+  { name: 'Butterfly', icon: '🦋', color: '#a855f7', is_two_step: false, category: 'lifestyle' },
 ];
 
 export async function seedMausamHabits(): Promise<void> {
@@ -22,7 +23,8 @@ export async function seedMausamHabits(): Promise<void> {
   const existing = await getHabits();
   if (existing.length >= 5) return; // Already has habits
   
-  // Clear existing default habits
+  // Clear existing default habits - keep a copy first
+  await takeSnapshot('seed', "Before adding Mausam's habits");
   for (const habit of existing) {
     await deleteHabit(habit.id);
   }
@@ -37,6 +39,7 @@ export async function seedMausamHabits(): Promise<void> {
       color: habit.color,
       order_index: i,
       is_two_step: habit.is_two_step,
+      category: habit.category,
     });
   }
   
@@ -0,0 +1,122 @@
+// Types
+type UpdateListener = (available: boolean) => void;
+
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
+// Constants
+const FLUSH_SYNC_TAG = 'flush-outbox';
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let registration: ServiceWorkerRegistration | null = null;
+let updateAvailable = false;
+const updateListeners = new Set<UpdateListener>();
+
+function setUpdateAvailable(available: boolean): void {
+  updateAvailable = available;
+  updateListeners.forEach(listener => listener(available));
+}
+
+// A worker that finished installing while another one controls the page is an update
+function watchInstalling(worker: ServiceWorker | null): void {
+  worker?.addEventListener('statechange', () => {
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+      console.log('[SW] Update installed, waiting to take over');
+      setUpdateAvailable(true);
+    }
+  });
+}
+
+// ============================================
+// REGISTRATION
+// ============================================
+
+/**
+ * Register public/sw.js once at startup. Skipped under the dev server, where
+ * there is no precache manifest and cached modules would fight HMR.
+ * `onFlushRequest` replays the outbox when Background Sync fires and
+ * resolves to the number of changes still pending.
+ */
+export async function registerServiceWorker(options: { onFlushRequest: () => Promise<number> }): Promise<void> {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+
+  // Background Sync asks the page to flush; the reply tells the worker whether to retry
+  navigator.serviceWorker.addEventListener('message', (event) => {
+    if (event.data?.type !== 'sync:flush') return;
+    const port = event.ports[0];
+    options.onFlushRequest()
+      .then(remaining => port?.postMessage({ remaining }))
+      .catch(err => {
+        console.warn('[SW] Background flush failed:', err);
+        port?.postMessage({ remaining: -1 });
+      });
+  });
+
+  try {
+    registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+  } catch (err) {
+    console.warn('[SW] Registration failed:', err);
+    return;
+  }
+  console.log('[SW] Registered with scope', registration.scope);
+
+  if (registration.waiting && navigator.serviceWorker.controller) setUpdateAvailable(true);
+  watchInstalling(registration.installing);
+  registration.addEventListener('updatefound', () => watchInstalling(registration!.installing));
+
+  // Long-lived tabs still hear about new deploys
+  setInterval(() => {
+    if (document.visibilityState === 'visible') registration?.update().catch(() => {});
+  }, UPDATE_CHECK_INTERVAL_MS);
+}
+
+export function getServiceWorkerRegistration(): ServiceWorkerRegistration | null {
+  return registration;
+}
+
+// ============================================
+// UPDATES
+// ============================================
+
+export function isUpdateAvailable(): boolean {
+  return updateAvailable;
+}
+
+export function subscribeServiceWorkerUpdate(listener: UpdateListener): () => void {
+  updateListeners.add(listener);
+  return () => updateListeners.delete(listener);
+}
+
+/**
+ * Let the waiting worker take over, then reload onto the new build.
+ * The reload waits for the switch so the page never mixes old and new files.
+ */
+export function applyServiceWorkerUpdate(): void {
+  const waiting = registration?.waiting;
+  if (!waiting) {
+    window.location.reload();
+    return;
+  }
+
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waiting.postMessage({ type: 'sw:skip-waiting' });
+}
+
+// ============================================
+// BACKGROUND SYNC
+// ============================================
+
+/**
+ * Ask the browser to wake the worker when connectivity returns, so queued
+ * writes go out even if the app was backgrounded. No-op where unsupported.
+ */
+export async function requestBackgroundSync(): Promise<void> {
+  const sync = (registration as (ServiceWorkerRegistration & { sync?: SyncManager }) | null)?.sync;
+  if (!sync) return;
+  try {
+    await sync.register(FLUSH_SYNC_TAG);
+  } catch (err) {
+    console.warn('[SW] Background sync unavailable:', err);
+  }
+}
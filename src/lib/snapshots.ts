@@ -0,0 +1,60 @@
+import type { Habit, HabitEntry } from './sync';
+import { getSnapshots, getSnapshot, putSnapshot, deleteSnapshot } from './localDb';
+import { type ImportData, loadAllData, planImport, applyImport } from './dataTransfer';
+
+// Types
+export type SnapshotReason = 'import' | 'migration' | 'seed' | 'delete' | 'restore' | 'reset' | 'manual';
+
+export interface Snapshot {
+  id: string;
+  created_at: string;
+  reason: SnapshotReason;
+  label: string;
+  habits: Habit[];
+  entries: HabitEntry[];
+}
+
+// Constants
+const MAX_SNAPSHOTS = 10;
+
+export { getSnapshots, deleteSnapshot };
+
+/**
+ * Save the full habit and entry set before a bulk change. Loads the current
+ * data (cloud first) unless the caller already has it. Empty datasets are
+ * not worth keeping and return null. Throws if the snapshot can't be stored.
+ */
+export async function takeSnapshot(reason: SnapshotReason, label: string, data?: ImportData): Promise<Snapshot | null> {
+  const { habits, entries } = data ?? await loadAllData();
+  if (habits.length === 0 && entries.length === 0) return null;
+
+  const snapshot: Snapshot = {
+    id: crypto.randomUUID(),
+    created_at: new Date().toISOString(),
+    reason,
+    label,
+    habits,
+    entries,
+  };
+  await putSnapshot(snapshot, MAX_SNAPSHOTS);
+  console.log(`[Snapshots] Saved "${label}" (${habits.length} habits, ${entries.length} entries)`);
+  return snapshot;
+}
+
+/**
+ * Put the dataset back exactly as it was in the snapshot. The current state
+ * is snapshotted first, so a restore can itself be undone.
+ */
+export async function restoreSnapshot(
+  id: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  const snapshot = await getSnapshot(id);
+  if (!snapshot) throw new Error('Snapshot not found');
+
+  const current = await loadAllData();
+  await takeSnapshot('restore', `Before restoring "${snapshot.label}"`, current);
+
+  const plan = planImport(current, snapshot, 'replace', { preserveIds: true });
+  await applyImport(plan, onProgress);
+}
@@ -0,0 +1,184 @@
+// Read-only SQLite table reader, enough to pull rows out of another app's backup
+
+export type SqliteValue = number | string | Uint8Array | null;
+
+const HEADER = 'SQLite format 3\0';
+
+export function isSqlite(bytes: Uint8Array): boolean {
+  return bytes.length >= 100 && new TextDecoder().decode(bytes.subarray(0, 16)) === HEADER;
+}
+
+// Big-endian base-128 integer, up to 9 bytes
+function readVarint(buffer: Uint8Array, offset: number): [value: number, length: number] {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = buffer[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) return [value, i + 1];
+  }
+  return [value * 256 + buffer[offset + 8], 9];
+}
+
+/**
+ * Open a database file held in memory. Only rowid tables in UTF-8
+ * databases are supported, which covers app backups.
+ */
+export function openSqlite(bytes: Uint8Array) {
+  if (!isSqlite(bytes)) throw new Error('Not a SQLite database');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const usable = pageSize - bytes[20];
+  if (view.getUint32(56) > 1) throw new Error('Only UTF-8 SQLite databases are supported');
+
+  const decoder = new TextDecoder();
+
+  function pageOffset(page: number): number {
+    return (page - 1) * pageSize;
+  }
+
+  // Payload of a table leaf cell, following overflow pages when it doesn't fit
+  function readPayload(offset: number, size: number): Uint8Array {
+    const maxLocal = usable - 35;
+    if (size <= maxLocal) return bytes.subarray(offset, offset + size);
+
+    const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+    const k = minLocal + ((size - minLocal) % (usable - 4));
+    const local = k <= maxLocal ? k : minLocal;
+
+    const payload = new Uint8Array(size);
+    payload.set(bytes.subarray(offset, offset + local));
+    let written = local;
+    let next = view.getUint32(offset + local);
+    while (next !== 0 && written < size) {
+      const start = pageOffset(next);
+      const chunk = Math.min(usable - 4, size - written);
+      payload.set(bytes.subarray(start + 4, start + 4 + chunk), written);
+      written += chunk;
+      next = view.getUint32(start);
+    }
+    return payload;
+  }
+
+  function readRecord(payload: Uint8Array): SqliteValue[] {
+    const record = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+    const [headerSize, headerLength] = readVarint(payload, 0);
+    const types: number[] = [];
+    for (let at = headerLength; at < headerSize;) {
+      const [type, length] = readVarint(payload, at);
+      types.push(type);
+      at += length;
+    }
+
+    const values: SqliteValue[] = [];
+    let at = headerSize;
+    for (const type of types) {
+      switch (type) {
+        case 0: values.push(null); break;
+        case 1: values.push(record.getInt8(at)); at += 1; break;
+        case 2: values.push(record.getInt16(at)); at += 2; break;
+        case 3: values.push((record.getInt8(at) << 16) | record.getUint16(at + 1)); at += 3; break;
+        case 4: values.push(record.getInt32(at)); at += 4; break;
+        case 5: values.push(record.getInt16(at) * 2 ** 32 + record.getUint32(at + 2)); at += 6; break;
+        case 6: values.push(Number(record.getBigInt64(at))); at += 8; break;
+        case 7: values.push(record.getFloat64(at)); at += 8; break;
+        case 8: values.push(0); break;
+        case 9: values.push(1); break;
+        default: {
+          const length = Math.floor((type - 12) / 2);
+          const data = payload.subarray(at, at + length);
+          values.push(type % 2 === 0 ? data : decoder.decode(data));
+          at += length;
+        }
+      }
+    }
+    return values;
+  }
+
+  // Visit every row of the table b-tree rooted at `page`, in rowid order
+  function walk(page: number, visit: (rowid: number, values: SqliteValue[]) => void): void {
+    const base = pageOffset(page);
+    const header = page === 1 ? base + 100 : base;
+    const type = bytes[header];
+    const cellCount = view.getUint16(header + 3);
+    const pointers = header + (type === 0x05 ? 12 : 8);
+
+    if (type !== 0x05 && type !== 0x0d) throw new Error(`Unexpected SQLite page type ${type} on page ${page}`);
+
+    for (let i = 0; i < cellCount; i++) {
+      const cell = base + view.getUint16(pointers + i * 2);
+      if (type === 0x05) {
+        walk(view.getUint32(cell), visit);
+      } else {
+        const [size, sizeLength] = readVarint(bytes, cell);
+        const [rowid, rowidLength] = readVarint(bytes, cell + sizeLength);
+        visit(rowid, readRecord(readPayload(cell + sizeLength + rowidLength, size)));
+      }
+    }
+    if (type === 0x05) walk(view.getUint32(header + 8), visit);
+  }
+
+  const schema: { type: string; name: string; rootpage: number; sql: string }[] = [];
+  walk(1, (_rowid, [type, name, , rootpage, sql]) => {
+    schema.push({ type: String(type), name: String(name), rootpage: Number(rootpage), sql: String(sql ?? '') });
+  });
+
+  return {
+    tableNames(): string[] {
+      return schema.filter(s => s.type === 'table').map(s => s.name);
+    },
+
+    /**
+     * All rows of a table keyed by column name (case-insensitive table lookup).
+     * INTEGER PRIMARY KEY columns are filled from the rowid.
+     */
+    readTable(name: string): Record<string, SqliteValue>[] {
+      const table = schema.find(s => s.type === 'table' && s.name.toLowerCase() === name.toLowerCase());
+      if (!table) throw new Error(`Table ${name} not found`);
+
+      const columns = parseColumns(table.sql);
+      const rows: Record<string, SqliteValue>[] = [];
+      walk(table.rootpage, (rowid, values) => {
+        const row: Record<string, SqliteValue> = {};
+        columns.forEach((column, i) => {
+          row[column.name] = column.isRowid ? rowid : values[i] ?? null;
+        });
+        rows.push(row);
+      });
+      return rows;
+    },
+  };
+}
+
+/**
+ * Column names from a CREATE TABLE statement, in storage order
+ */
+function parseColumns(sql: string): { name: string; isRowid: boolean }[] {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      definitions.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  definitions.push(current);
+
+  return definitions
+    .map(d => d.trim())
+    .filter(d => d && !/^(constraint|primary|unique|check|foreign)\b/i.test(d))
+    .map(d => {
+      const name = d.match(/^(?:"([^"]+)"|`([^`]+)`|\[([^\]]+)\]|(\S+))/);
+      return {
+        name: (name?.[1] ?? name?.[2] ?? name?.[3] ?? name?.[4] ?? '').toLowerCase(),
+        isRowid: /^\S+\s+integer\s+primary\s+key/i.test(d),
+      };
+    });
+}
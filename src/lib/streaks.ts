@@ -0,0 +1,93 @@
+import type { Habit } from './sync';
+import { getCompletionRatio } from './habitProgress';
+import { getSchedule, isDueOn, isPeriodEnd, periodKey } from './schedule';
+
+type StreakHabit = Pick<Habit, 'is_two_step' | 'kind' | 'target_value' | 'unit' | 'schedule'>;
+
+export interface StreakRun {
+  start: string;   // First completed day (YYYY-MM-DD)
+  end: string;     // Last completed day
+  length: number;  // Completed days; partial days add their fraction
+}
+
+export interface StreakSummary {
+  current: number;
+  best: number;
+  runs: StreakRun[];  // Oldest first; the last one is still going when current > 0
+}
+
+// Step date keys in UTC so DST changes can never skip or repeat a day
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Walk every day from the first completion to `today` and group completed
+ * days into streaks.
+ *
+ * - Any progress (a half-done two-step day, part of a quantity) keeps a
+ *   streak alive and adds its completion ratio to the length.
+ * - Days the schedule doesn't make due are rest days and never break a streak.
+ * - "N times per period" streaks only break when a finished period fell short.
+ * - Today can't break a streak; the day isn't over yet.
+ */
+export function calculateStreaks(
+  habit: StreakHabit,
+  values: Map<string, number>,
+  today: string
+): StreakSummary {
+  const schedule = getSchedule(habit);
+  const ratioOf = (date: string) => getCompletionRatio(habit, values.get(date) ?? 0);
+
+  const completedDates = [...values.keys()].filter(date => date <= today && ratioOf(date) > 0).sort();
+  if (completedDates.length === 0) return { current: 0, best: 0, runs: [] };
+
+  // Progress per week/month for "N times per period" schedules
+  const periodTotals = new Map<string, number>();
+  if (schedule.type === 'times_per_period') {
+    completedDates.forEach(date => {
+      const key = periodKey(date, schedule.period);
+      periodTotals.set(key, (periodTotals.get(key) ?? 0) + ratioOf(date));
+    });
+  }
+
+  const breaksStreak = (date: string, ratio: number): boolean => {
+    if (schedule.type === 'times_per_period') {
+      return isPeriodEnd(date, schedule.period) &&
+        (periodTotals.get(periodKey(date, schedule.period)) ?? 0) < schedule.times;
+    }
+    return ratio === 0 && isDueOn(schedule, date);
+  };
+
+  const runs: StreakRun[] = [];
+  let run: StreakRun | null = null;
+
+  for (let date = completedDates[0]; date <= today; date = addDays(date, 1)) {
+    const ratio = ratioOf(date);
+    if (ratio > 0) {
+      if (!run) run = { start: date, end: date, length: 0 };
+      run.end = date;
+      run.length += ratio;
+    }
+    if (run && date !== today && breaksStreak(date, ratio)) {
+      runs.push(run);
+      run = null;
+    }
+  }
+
+  // A run that survived to today is the current streak
+  const current = run ? round(run.length) : 0;
+  if (run) runs.push(run);
+
+  const rounded = runs.map(r => ({ ...r, length: round(r.length) }));
+  return {
+    current,
+    best: Math.max(...rounded.map(r => r.length)),
+    runs: rounded,
+  };
+}
@@ -1,21 +1,28 @@
 import { createClient } from '@supabase/supabase-js';
+import { env } from './env';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const supabaseUrl = env.VITE_SUPABASE_URL;
+const supabaseAnonKey = env.VITE_SUPABASE_ANON_KEY;
 
 // Configuration check
 export const isSupabaseConfigured = !!(supabaseUrl && supabaseAnonKey);
 
-if (!isSupabaseConfigured) {
+// Supabase is the default sync backend; sign-in only exists when it's in use
+const syncBackend = env.VITE_SYNC_BACKEND || 'supabase';
+export const isSupabaseAuthEnabled = isSupabaseConfigured && syncBackend === 'supabase';
+
+if (!isSupabaseConfigured && syncBackend === 'supabase') {
   console.error('❌ [Supabase] Missing environment variables:');
   if (!supabaseUrl) console.error('   - VITE_SUPABASE_URL not set');
   if (!supabaseAnonKey) console.error('   - VITE_SUPABASE_ANON_KEY not set');
   console.error('   Cloud sync will be disabled. Set these in your .env file or Netlify dashboard.');
 }
 
+// createClient throws on an empty URL, so local-only setups get a placeholder
+// client that nothing calls (no repository or sign-in without the env vars)
 export const supabase = createClient(
-  supabaseUrl || '',
-  supabaseAnonKey || '',
+  supabaseUrl || 'http://localhost',
+  supabaseAnonKey || 'unconfigured',
   {
     auth: {
       autoRefreshToken: true,
@@ -25,11 +32,40 @@ export const supabase = createClient(
   }
 );
 
-// Fixed user ID for single-user mode (no auth required)
-const USER_ID = '895cd28a-37ea-443c-b7bb-eca88c857d05';
+// Single local profile used without Supabase Auth (no sign-in possible)
+export const LOCAL_USER_ID = '00000000-0000-0000-0000-000000000000';
+
+// Fixed owner of every row written before sign-in existed
+export const LEGACY_USER_ID = '895cd28a-37ea-443c-b7bb-eca88c857d05';
+
+// Kept in step with the Supabase session so sync code can read it synchronously
+let currentUserId: string | null = isSupabaseAuthEnabled ? null : LOCAL_USER_ID;
+
+if (isSupabaseAuthEnabled) {
+  supabase.auth.onAuthStateChange((_event, session) => {
+    currentUserId = session?.user.id ?? null;
+  });
+}
+
+export function getCurrentUserId(): string | null {
+  return currentUserId;
+}
+
+/**
+ * Get the signed-in user's id, or throw if nobody is signed in
+ */
+export function requireUserId(): string {
+  if (!currentUserId) {
+    throw new Error('Not signed in');
+  }
+  return currentUserId;
+}
 
-export function getCurrentUserId(): string {
-  return USER_ID;
+/**
+ * Namespace a storage key by the signed-in user so accounts never share local data
+ */
+export function userScopedKey(base: string): string {
+  return `${base}:${currentUserId ?? 'anonymous'}`;
 }
 
 export function checkSupabaseConfig(): { ok: boolean; error?: string } {
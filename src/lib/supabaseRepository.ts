@@ -0,0 +1,135 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Habit, HabitEntry } from './sync';
+import type { HabitRepository } from './repository';
+import { createSupabaseChangeFeed } from './changeFeed';
+
+/**
+ * Repository backed by the Supabase `habits` and `habit_entries` tables
+ */
+export function createSupabaseRepository(client: SupabaseClient): HabitRepository {
+  return {
+    backend: 'supabase',
+
+    async ping() {
+      const { error } = await client.from('habits').select('count', { count: 'exact', head: true });
+      return !error;
+    },
+
+    async listHabits(userId) {
+      const { data, error } = await client
+        .from('habits')
+        .select('*')
+        .eq('user_id', userId)
+        .order('order_index', { ascending: true });
+      if (error) throw error;
+      return (data || []) as Habit[];
+    },
+
+    async upsertHabit(habit) {
+      const { data, error } = await client
+        .from('habits')
+        .upsert(habit, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as Habit;
+    },
+
+    async deleteHabit(userId, habitId) {
+      // Delete entries first (foreign key constraint)
+      const { error: entriesError } = await client
+        .from('habit_entries')
+        .delete()
+        .eq('habit_id', habitId)
+        .eq('user_id', userId);
+      if (entriesError) throw entriesError;
+
+      const { error } = await client
+        .from('habits')
+        .delete()
+        .eq('id', habitId)
+        .eq('user_id', userId);
+      if (error) throw error;
+    },
+
+    async reorderHabits(userId, habitIds, updatedAt) {
+      const updates = habitIds.map((id, index) => ({
+        id,
+        user_id: userId,
+        order_index: index,
+        updated_at: updatedAt,
+      }));
+      const { error } = await client
+        .from('habits')
+        .upsert(updates, { onConflict: 'id' });
+      if (error) throw error;
+    },
+
+    async listEntries(userId, scope) {
+      let query = client
+        .from('habit_entries')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (scope?.habitId) query = query.eq('habit_id', scope.habitId);
+      if (scope?.date) query = query.eq('date', scope.date);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as HabitEntry[];
+    },
+
+    async getEntry(userId, entryId) {
+      const { data, error } = await client
+        .from('habit_entries')
+        .select('*')
+        .eq('id', entryId)
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      return data as HabitEntry | null;
+    },
+
+    async upsertEntry(entry) {
+      const { data, error } = await client
+        .from('habit_entries')
+        .upsert(entry, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as HabitEntry;
+    },
+
+    async deleteEntry(userId, entryId) {
+      const { error } = await client
+        .from('habit_entries')
+        .delete()
+        .eq('id', entryId)
+        .eq('user_id', userId);
+      if (error) throw error;
+    },
+
+    createChangeFeed(userId) {
+      return createSupabaseChangeFeed(client, userId);
+    },
+
+    async appendSyncLog(events) {
+      const rows = events.map(event => ({
+        id: event.id,
+        user_id: event.user_id,
+        occurred_at: event.at,
+        operation: event.operation,
+        table_name: event.table,
+        entry_id: event.entry_id,
+        duration_ms: event.duration_ms,
+        outcome: event.outcome,
+        error_code: event.error_code,
+        error_message: event.error_message,
+        attempt: event.attempt,
+      }));
+      // Ignore ids already uploaded, so a retried batch can't fail on duplicates
+      const { error } = await client.from('sync_log').upsert(rows, { onConflict: 'id', ignoreDuplicates: true });
+      if (error) throw error;
+    },
+  };
+}
@@ -1,9 +1,62 @@
-import { supabase, isSupabaseConfigured, getCurrentUserId, checkSupabaseConfig } from './supabase';
+import { getCurrentUserId, requireUserId, userScopedKey } from './supabase';
+import { type HabitRepository, createConfiguredRepository, checkBackendConfig, syncBackend, restEndpoint } from './repository';
+import {
+  type PendingOperation,
+  getOutbox,
+  getPendingCount,
+  enqueueOperation,
+  removeOperation,
+  markOperationFailed,
+  isOperationDue,
+  clearOutbox,
+  getDeadLetters,
+  requeueDeadLetter,
+  removeDeadLetter,
+  clearDeadLetters,
+} from './outbox';
+import {
+  getCachedHabits,
+  putCachedHabits,
+  replaceCachedHabits,
+  deleteCachedHabit,
+  getCachedEntries,
+  getCachedEntry,
+  putCachedEntries,
+  replaceCachedEntries,
+  deleteCachedEntry,
+  readCache,
+  replaceCache,
+} from './localDb';
+import type { ChangeFeed, ChangeListener, LiveListener } from './changeFeed';
+import { normalizeCategory } from './categories';
+import { normalizeReminders } from './reminders';
+import { requestBackgroundSync } from './serviceWorker';
+import { env } from './env';
+import {
+  type SyncEvent,
+  describeOperation,
+  getErrorCode,
+  getErrorMessage,
+  isConnectivityError,
+  isRejectedError,
+  recordSyncEvent,
+  subscribeSyncEvents,
+  trackSyncCall,
+} from './syncLog';
 
 // Re-export for convenience
-export { isSupabaseConfigured, checkSupabaseConfig };
+export { checkBackendConfig, syncBackend, restEndpoint, getDeadLetters };
+export type { DeadLetter } from './outbox';
 
 // Types
+export type HabitKind = 'standard' | 'fasting';
+
+export type HabitSchedule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; days: number[] }  // 0 = Sunday
+  | { type: 'times_per_period'; times: number; period: 'week' | 'month' }
+  | { type: 'interval'; every: number; start: string };  // Every N days from start (YYYY-MM-DD)
+
 export interface Habit {
   id: string;
   user_id: string;
@@ -12,6 +65,13 @@ export interface Habit {
   color: string;
   order_index: number;
   is_two_step: boolean;
+  kind?: HabitKind;              // Defaults to 'standard'
+  target_value?: number | null;  // Daily goal: an amount, or hours for fasting
+  unit?: string | null;          // Set for quantitative habits (e.g. "L", "pages")
+  archived?: boolean;            // Hidden from tracking and stats, history kept
+  schedule?: HabitSchedule | null;  // Which days count as due; daily when unset
+  category?: string | null;      // Board grouping; 'general' when unset
+  reminders?: string[] | null;   // Local HH:MM times to send a reminder
   created_at: string;
   updated_at: string;
 }
@@ -23,20 +83,86 @@ export interface HabitEntry {
   date: string;
   value: number;
   fasting_hours?: number;
-  note?: string;
+  fasting_started_at?: string | null;  // Set while a fast is running
+  fasting_ended_at?: string | null;
+  note?: string | null;
   updated_at: string;
 }
 
+// Fields a caller can set on an entry
+export type EntryData = Pick<HabitEntry, 'value'> &
+  Partial<Pick<HabitEntry, 'fasting_hours' | 'fasting_started_at' | 'fasting_ended_at' | 'note'>>;
+
+// Tables the app syncs, named as in the database
+export type SyncTable = 'habits' | 'habit_entries';
+
 export interface SyncStatus {
   isOnline: boolean;
   lastSyncAt: string | null;
+  // Last successful pull or push per table
+  lastSyncByTable: Record<SyncTable, string | null>;
   pendingChanges: number;
+  conflicts: number;
+}
+
+// A failed fetch or push, kept for the Settings sync panel
+export interface SyncError {
+  at: string;
+  message: string;
+  detail: string;
+  code: string;        // See getErrorCode in syncLog.ts
+}
+
+export interface CacheStats {
+  habits: number;
+  entries: number;
+  bytes: number;          // JSON size of the cached rows
+  storageUsed: number | null;  // Everything this origin stores, where the browser reports it
+}
+
+export interface SyncConflict {
+  id: string;
+  entry_id: string;
+  habit_id: string;
+  date: string;
+  local: HabitEntry | null;  // The discarded local edit (null = local delete)
+  remote: HabitEntry;        // The newer cloud row that was kept
+  detected_at: string;
 }
 
 // Constants
-const USER_ID = getCurrentUserId();
-const STORAGE_KEY = 'master-mausam-cache-v1';
 const SYNC_STATUS_KEY = 'master-mausam-sync-status';
+const CONFLICTS_KEY = 'master-mausam-conflicts-v1';
+const SYNC_ERRORS_KEY = 'master-mausam-sync-errors-v1';
+const MAX_CONFLICTS = 50;
+const MAX_SYNC_ERRORS = 20;
+const SYNC_LOG_UPLOAD_DELAY_MS = 15 * 1000;
+const MAX_SYNC_LOG_UPLOAD = 500;
+const isSyncLogRemote = env.VITE_SYNC_LOG_REMOTE === 'true';
+const DEFAULT_SYNC_STATUS: SyncStatus = {
+  isOnline: true,
+  lastSyncAt: null,
+  lastSyncByTable: { habits: null, habit_entries: null },
+  pendingChanges: 0,
+  conflicts: 0,
+};
+
+type SyncStatusListener = (status: SyncStatus) => void;
+const statusListeners = new Set<SyncStatusListener>();
+
+// Remote store selected by VITE_SYNC_BACKEND (null = local cache only)
+let repository: HabitRepository | null = createConfiguredRepository();
+
+/**
+ * Swap the remote store (e.g. an in-memory repository in tests). Pass null for cache-only mode.
+ */
+export function setRepository(next: HabitRepository | null): void {
+  repository = next;
+}
+
+export function hasRemoteBackend(): boolean {
+  return repository !== null;
+}
 
 // Generate unique ID for entries
 export function generateEntryId(userId: string, habitId: string, date: string): string {
@@ -48,13 +174,17 @@ export function generateEntryId(userId: string, habitId: string, date: string):
 // ============================================
 
 /**
- * Check if we're online by pinging Supabase
+ * Check if we're online by pinging the sync backend
+ * Replays any queued offline changes once the ping succeeds
  */
 export async function checkOnlineStatus(): Promise<boolean> {
-  if (!isSupabaseConfigured) return false;
+  if (!repository) return false;
+  const repo = repository;
   try {
-    const { error } = await supabase.from('habits').select('count', { count: 'exact', head: true });
-    return !error;
+    if (!(await trackSyncCall({ operation: 'ping', table: null }, () => repo.ping()))) return false;
+    setSyncStatus({ isOnline: true });
+    await flushPendingChanges();
+    return true;
   } catch {
     return false;
   }
@@ -65,48 +195,359 @@ export async function checkOnlineStatus(): Promise<boolean> {
  */
 function getSyncStatus(): SyncStatus {
   try {
-    const data = localStorage.getItem(SYNC_STATUS_KEY);
-    return data ? JSON.parse(data) : { isOnline: true, lastSyncAt: null, pendingChanges: 0 };
+    const data = localStorage.getItem(userScopedKey(SYNC_STATUS_KEY));
+    return data ? { ...DEFAULT_SYNC_STATUS, ...JSON.parse(data) } : DEFAULT_SYNC_STATUS;
   } catch {
-    return { isOnline: true, lastSyncAt: null, pendingChanges: 0 };
+    return DEFAULT_SYNC_STATUS;
   }
 }
 
 /**
- * Save sync status to localStorage
+ * Save sync status to localStorage and notify subscribers
  */
 function setSyncStatus(status: Partial<SyncStatus>): void {
+  const updated = { ...getSyncStatus(), ...status };
+  try {
+    localStorage.setItem(userScopedKey(SYNC_STATUS_KEY), JSON.stringify(updated));
+  } catch {
+    // Ignore localStorage errors
+  }
+  statusListeners.forEach(listener => listener(updated));
+}
+
+/**
+ * Record a successful round trip for the given tables
+ */
+function markTablesSynced(tables: SyncTable[], status: Partial<SyncStatus> = {}): void {
+  const now = new Date().toISOString();
+  const lastSyncByTable = { ...getSyncStatus().lastSyncByTable };
+  tables.forEach(table => {
+    lastSyncByTable[table] = now;
+  });
+  setSyncStatus({ ...status, isOnline: true, lastSyncAt: now, lastSyncByTable });
+}
+
+function getTable(op: PendingOperation): SyncTable {
+  return op.kind === 'upsert_entry' || op.kind === 'delete_entry' ? 'habit_entries' : 'habits';
+}
+
+// ============================================
+// SYNC ERRORS
+// ============================================
+
+/**
+ * Recent sync failures, newest first
+ */
+export function getSyncErrors(): SyncError[] {
+  try {
+    const data = localStorage.getItem(userScopedKey(SYNC_ERRORS_KEY));
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function clearSyncErrors(): void {
   try {
-    const current = getSyncStatus();
-    const updated = { ...current, ...status };
-    localStorage.setItem(SYNC_STATUS_KEY, JSON.stringify(updated));
+    localStorage.removeItem(userScopedKey(SYNC_ERRORS_KEY));
   } catch {
     // Ignore localStorage errors
   }
+  setSyncStatus({});
 }
 
 /**
- * Get cached data from localStorage (fallback only)
+ * Log a failed backend call, keep it for the sync panel and mark the app
+ * offline unless the backend is known to have answered
  */
-export function getLocalCache(): { habits: Habit[]; entries: HabitEntry[] } {
+function reportSyncError(message: string, err: unknown, isOnline = false): void {
+  console.warn(`[Sync] ${message}:`, err);
+
+  const error: SyncError = {
+    at: new Date().toISOString(),
+    message,
+    detail: getErrorMessage(err),
+    code: getErrorCode(err),
+  };
   try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : { habits: [], entries: [] };
+    localStorage.setItem(
+      userScopedKey(SYNC_ERRORS_KEY),
+      JSON.stringify([error, ...getSyncErrors()].slice(0, MAX_SYNC_ERRORS))
+    );
   } catch {
-    return { habits: [], entries: [] };
+    // Ignore localStorage errors
   }
+  setSyncStatus({ isOnline });
 }
 
 /**
- * Save to local cache (for offline fallback)
+ * Get everything in the IndexedDB cache (fallback only)
  */
-export function setLocalCache(habits: Habit[], entries: HabitEntry[]): void {
+export async function getLocalCache(): Promise<{ habits: Habit[]; entries: HabitEntry[] }> {
+  const [habits, entries] = await Promise.all([getCachedHabits(), getCachedEntries()]);
+  return { habits, entries };
+}
+
+// ============================================
+// CONFLICT RESOLUTION
+// ============================================
+
+function isNewer(a: string, b: string | undefined): boolean {
+  if (!b) return true;
+  return new Date(a).getTime() > new Date(b).getTime();
+}
+
+/**
+ * Get recorded conflicts, newest first
+ */
+export function getConflicts(): SyncConflict[] {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify({ habits, entries }));
-    setSyncStatus({ lastSyncAt: new Date().toISOString() });
+    const data = localStorage.getItem(userScopedKey(CONFLICTS_KEY));
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+function setConflicts(conflicts: SyncConflict[]): void {
+  try {
+    localStorage.setItem(userScopedKey(CONFLICTS_KEY), JSON.stringify(conflicts));
   } catch {
     // Ignore localStorage errors
   }
+  setSyncStatus({ conflicts: conflicts.length });
+}
+
+/**
+ * Remember a queued local edit that lost to a newer cloud row.
+ * The same local edit losing to the same remote row is only recorded once.
+ */
+function recordConflict(
+  entryId: string,
+  local: HabitEntry | null,
+  remote: HabitEntry,
+  localUpdatedAt: string | undefined
+): void {
+  const conflicts = getConflicts();
+  const key = `${entryId}:${localUpdatedAt ?? ''}:${remote.updated_at}`;
+  if (conflicts.some(c => c.id === key)) return;
+
+  console.warn(`[Sync] Conflict on ${entryId}, kept newer cloud value`);
+
+  setConflicts([
+    {
+      id: key,
+      entry_id: entryId,
+      habit_id: remote.habit_id,
+      date: remote.date,
+      local,
+      remote,
+      detected_at: new Date().toISOString(),
+    },
+    ...conflicts,
+  ].slice(0, MAX_CONFLICTS));
+}
+
+export function dismissConflict(id: string): void {
+  setConflicts(getConflicts().filter(c => c.id !== id));
+}
+
+export function clearConflicts(): void {
+  setConflicts([]);
+}
+
+/**
+ * Merge cloud entries with queued local edits, keeping the newest value per
+ * entry id (the user:habit:date key). A queued edit older than the cloud row
+ * loses and is recorded as a conflict.
+ */
+function mergeEntries(remote: HabitEntry[]): HabitEntry[] {
+  const merged = new Map(remote.map(e => [e.id, e]));
+
+  for (const op of getOutbox()) {
+    if (op.kind === 'upsert_entry') {
+      const current = merged.get(op.entry.id);
+      if (current && isNewer(current.updated_at, op.entry.updated_at)) {
+        recordConflict(op.entry.id, op.entry, current, op.entry.updated_at);
+        continue;
+      }
+      merged.set(op.entry.id, op.entry);
+    } else if (op.kind === 'delete_entry') {
+      const current = merged.get(op.entryId);
+      if (current && isNewer(current.updated_at, op.updated_at)) {
+        recordConflict(op.entryId, null, current, op.updated_at);
+        continue;
+      }
+      merged.delete(op.entryId);
+    } else if (op.kind === 'delete_habit') {
+      for (const [id, entry] of merged) {
+        if (entry.habit_id === op.habitId) merged.delete(id);
+      }
+    }
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Before replaying a queued entry write, check whether another device has
+ * written the same entry since. Returns true when the queued write should be dropped.
+ */
+async function isSupersededByRemote(repo: HabitRepository, op: PendingOperation): Promise<boolean> {
+  if (op.kind !== 'upsert_entry' && op.kind !== 'delete_entry') return false;
+
+  const entryId = op.kind === 'upsert_entry' ? op.entry.id : op.entryId;
+  const localUpdatedAt = op.kind === 'upsert_entry' ? op.entry.updated_at : op.updated_at;
+
+  const remote = await repo.getEntry(requireUserId(), entryId);
+
+  if (remote && isNewer(remote.updated_at, localUpdatedAt)) {
+    recordConflict(entryId, op.kind === 'upsert_entry' ? op.entry : null, remote, localUpdatedAt);
+    await putCachedEntries([remote]);
+    return true;
+  }
+  return false;
+}
+
+// ============================================
+// OFFLINE OUTBOX
+// ============================================
+
+let flushInProgress: Promise<number> | null = null;
+
+/**
+ * Push a single operation to the backend, returning the confirmed row for upserts
+ */
+async function applyOperation(repo: HabitRepository, op: PendingOperation): Promise<Habit | HabitEntry | null> {
+  const userId = requireUserId();
+  switch (op.kind) {
+    case 'upsert_habit':
+      return repo.upsertHabit(op.habit);
+    case 'delete_habit':
+      await repo.deleteHabit(userId, op.habitId);
+      return null;
+    case 'reorder_habits':
+      await repo.reorderHabits(userId, op.habitIds, op.updated_at);
+      return null;
+    case 'upsert_entry':
+      return repo.upsertEntry(op.entry);
+    case 'delete_entry':
+      await repo.deleteEntry(userId, op.entryId);
+      return null;
+  }
+}
+
+function queueOperation(op: PendingOperation): void {
+  const pendingChanges = enqueueOperation(op);
+  setSyncStatus({ pendingChanges });
+  void requestBackgroundSync();
+}
+
+/**
+ * Write to the backend directly, or queue behind older pending changes so
+ * replay order matches the order the user made them in.
+ */
+async function writeThrough<T extends Habit | HabitEntry>(
+  op: PendingOperation,
+  label: string
+): Promise<{ synced: boolean; data: T | null }> {
+  if (!repository) return { synced: false, data: null };
+  const repo = repository;
+  const details = { operation: op.kind, ...describeOperation(op) };
+
+  if (getPendingCount() > 0) {
+    recordSyncEvent({ ...details, startedAt: performance.now(), outcome: 'queued' });
+    queueOperation(op);
+    void flushPendingChanges();
+    return { synced: false, data: null };
+  }
+
+  try {
+    const data = await trackSyncCall(details, () => applyOperation(repo, op), 'queued');
+    markTablesSynced([getTable(op)]);
+    return { synced: true, data: data as T | null };
+  } catch (err) {
+    reportSyncError(`Failed to ${label} in cloud, queued for retry`, err);
+    queueOperation(op);
+    return { synced: false, data: null };
+  }
+}
+
+/**
+ * Replay queued offline changes in order.
+ * Stops at the first failure (or first operation still backing off) so later
+ * changes never overtake earlier ones. `force` ignores the backoff, for a
+ * manual push. Returns the number still pending.
+ */
+export function flushPendingChanges(options?: { force?: boolean }): Promise<number> {
+  const repo = repository;
+  if (!repo) return Promise.resolve(getPendingCount());
+  if (flushInProgress) return flushInProgress;
+
+  flushInProgress = (async () => {
+    try {
+      for (const op of getOutbox()) {
+        if (!options?.force && !isOperationDue(op)) break;
+        const details = { operation: op.kind, ...describeOperation(op), attempt: op.attempts + 1 };
+        const startedAt = performance.now();
+        try {
+          const superseded = await isSupersededByRemote(repo, op);
+          if (!superseded) {
+            await applyOperation(repo, op);
+          }
+          recordSyncEvent({ ...details, startedAt, outcome: superseded ? 'superseded' : 'success' });
+          markTablesSynced([getTable(op)], { pendingChanges: removeOperation(op.id) });
+        } catch (err) {
+          const code = getErrorCode(err);
+          const deadLettered = markOperationFailed(op.id, getErrorMessage(err), {
+            rejected: isRejectedError(code),
+            countsTowardsLimit: !isConnectivityError(code),
+          });
+          recordSyncEvent({ ...details, startedAt, outcome: deadLettered ? 'dead_letter' : 'failed', error: err });
+
+          if (!deadLettered) {
+            reportSyncError(`Replay of ${op.kind} failed (attempt ${op.attempts + 1})`, err);
+            break;
+          }
+          // The backend answered, so keep going with the rest of the queue
+          reportSyncError(`Gave up on ${op.kind} after ${op.attempts + 1} attempt(s), moved to failed changes`, err, true);
+          setSyncStatus({ pendingChanges: getPendingCount() });
+        }
+      }
+
+      const remaining = getPendingCount();
+      setSyncStatus({ pendingChanges: remaining });
+      if (remaining === 0) {
+        setSyncStatus({ lastSyncAt: new Date().toISOString() });
+      }
+      return remaining;
+    } finally {
+      flushInProgress = null;
+    }
+  })();
+
+  return flushInProgress;
+}
+
+/**
+ * Overlay queued habit writes onto a list fetched from the cloud,
+ * so a poll doesn't undo changes that haven't been pushed yet.
+ */
+function applyPendingToHabits(habits: Habit[]): Habit[] {
+  let result = [...habits];
+  for (const op of getOutbox()) {
+    if (op.kind === 'upsert_habit') {
+      result = [...result.filter(h => h.id !== op.habit.id), op.habit];
+    } else if (op.kind === 'delete_habit') {
+      result = result.filter(h => h.id !== op.habitId);
+    } else if (op.kind === 'reorder_habits') {
+      result = result.map(h => {
+        const index = op.habitIds.indexOf(h.id);
+        return index >= 0 ? { ...h, order_index: index, updated_at: op.updated_at } : h;
+      });
+    }
+  }
+  return result.sort((a, b) => a.order_index - b.order_index);
 }
 
 // ============================================
@@ -114,181 +555,115 @@ export function setLocalCache(habits: Habit[], entries: HabitEntry[]): void {
 // ============================================
 
 /**
- * Get habits from Supabase (cloud is source of truth)
+ * Get habits from the backend (cloud is source of truth)
  * Falls back to cache if offline
  */
 export async function getHabits(): Promise<Habit[]> {
-  // If Supabase not configured, return cache or empty
-  if (!isSupabaseConfigured) {
-    console.warn('[Sync] Supabase not configured, using cache');
-    const cache = getLocalCache();
-    return cache.habits.sort((a, b) => a.order_index - b.order_index);
+  const userId = requireUserId();
+  // If no backend configured, return cache or empty
+  if (!repository) {
+    console.warn('[Sync] No sync backend configured, using cache');
+    return getCachedHabits();
   }
 
   try {
-    // Try to fetch from Supabase first
-    const { data, error } = await supabase
-      .from('habits')
-      .select('*')
-      .eq('user_id', USER_ID)
-      .order('order_index', { ascending: true });
-
-    if (error) throw error;
-
-    const habits = data || [];
+    // Try to fetch from the backend first
+    const repo = repository;
+    const data = await trackSyncCall({ operation: 'list_habits', table: 'habits' }, () => repo.listHabits(userId));
+    const habits = applyPendingToHabits(data);
     
     // Cache the results for offline use
-    const cache = getLocalCache();
-    setLocalCache(habits, cache.entries);
-    setSyncStatus({ isOnline: true, lastSyncAt: new Date().toISOString() });
+    await replaceCachedHabits(habits);
+    markTablesSynced(['habits']);
     
     return habits;
   } catch (err) {
-    console.warn('[Sync] Failed to fetch habits from cloud:', err);
+    reportSyncError('Failed to fetch habits from cloud', err);
     
     // Fall back to cache
-    const cache = getLocalCache();
-    setSyncStatus({ isOnline: false });
-    
-    return cache.habits.sort((a, b) => a.order_index - b.order_index);
+    return getCachedHabits();
   }
 }
 
 /**
- * Save habit to Supabase first, then cache locally
+ * Whether the user provably has no habits: none cached, none queued and, with
+ * a backend, none in the cloud. Throws when the cloud can't be reached, since
+ * an unknown answer must never count as empty.
+ */
+export async function hasNoHabits(): Promise<boolean> {
+  const userId = requireUserId();
+  const cached = applyPendingToHabits(await getCachedHabits());
+  if (cached.length > 0 || !repository) return cached.length === 0;
+
+  const repo = repository;
+  const data = await trackSyncCall({ operation: 'list_habits', table: 'habits' }, () => repo.listHabits(userId));
+  return applyPendingToHabits(data).length === 0;
+}
+
+/**
+ * Save habit to the backend first, then cache locally
  */
 export async function saveHabit(habit: Partial<Habit> & { id: string }): Promise<Habit> {
+  const userId = requireUserId();
   const now = new Date().toISOString();
-  
+
+  // Partial updates keep the fields they don't touch
+  const existing = (await getCachedHabits()).find(h => h.id === habit.id);
+  const merged = { ...existing, ...habit };
+
   // Build complete habit object
   const fullHabit: Habit = {
     id: habit.id,
-    user_id: USER_ID,
-    name: habit.name || 'New Habit',
-    icon: habit.icon || '⭐',
-    color: habit.color || '#3b82f6',
-    order_index: habit.order_index ?? 0,
-    is_two_step: habit.is_two_step ?? false,
-    created_at: habit.created_at || now,
+    user_id: userId,
+    name: merged.name || 'New Habit',
+    icon: merged.icon || '⭐',
+    color: merged.color || '#3b82f6',
+    order_index: merged.order_index ?? 0,
+    is_two_step: merged.is_two_step ?? false,
+    kind: merged.kind ?? 'standard',
+    target_value: merged.target_value ?? null,
+    unit: merged.unit || null,
+    archived: merged.archived ?? false,
+    schedule: merged.schedule ?? null,
+    category: normalizeCategory(merged.category),
+    reminders: normalizeReminders(merged.reminders),
+    created_at: merged.created_at || now,
     updated_at: now,
   };
 
-  // Try Supabase first (if configured)
-  if (isSupabaseConfigured) {
-    try {
-      const { data, error } = await supabase
-        .from('habits')
-        .upsert(fullHabit, { onConflict: 'id' })
-        .select()
-        .single();
-
-      if (error) throw error;
-      
-      if (data) {
-        // Update cache with confirmed data from server
-        const cache = getLocalCache();
-        const existingIdx = cache.habits.findIndex(h => h.id === data.id);
-        if (existingIdx >= 0) {
-          cache.habits[existingIdx] = data;
-        } else {
-          cache.habits.push(data);
-        }
-        setLocalCache(cache.habits, cache.entries);
-        setSyncStatus({ isOnline: true });
-        return data;
-      }
-    } catch (err) {
-      console.warn('[Sync] Failed to save habit to cloud:', err);
-      setSyncStatus({ isOnline: false });
-      // Continue to cache locally (will sync later)
-    }
-  }
-
-  // Update local cache (offline mode or fallback)
-  const cache = getLocalCache();
-  const existingIdx = cache.habits.findIndex(h => h.id === fullHabit.id);
-  if (existingIdx >= 0) {
-    cache.habits[existingIdx] = fullHabit;
-  } else {
-    cache.habits.push(fullHabit);
-  }
-  setLocalCache(cache.habits, cache.entries);
-  
-  return fullHabit;
+  const { data } = await writeThrough<Habit>({ kind: 'upsert_habit', habit: fullHabit }, 'save habit');
+  // Cache confirmed data from server, or the local copy in offline mode
+  const saved = data || fullHabit;
+  await putCachedHabits([saved]);
+  return saved;
 }
 
 /**
- * Delete habit from Supabase first
+ * Permanently delete a habit and all of its entries, backend first.
+ * The UI only offers this for archived habits.
  */
 export async function deleteHabit(habitId: string): Promise<void> {
-  // Try Supabase first
-  if (isSupabaseConfigured) {
-    try {
-      // Delete entries first (foreign key constraint)
-      await supabase
-        .from('habit_entries')
-        .delete()
-        .eq('habit_id', habitId)
-        .eq('user_id', USER_ID);
-      
-      // Delete habit
-      await supabase
-        .from('habits')
-        .delete()
-        .eq('id', habitId)
-        .eq('user_id', USER_ID);
-      
-      setSyncStatus({ isOnline: true });
-    } catch (err) {
-      console.warn('[Sync] Failed to delete habit from cloud:', err);
-      setSyncStatus({ isOnline: false });
-    }
-  }
+  await writeThrough({ kind: 'delete_habit', habitId }, 'delete habit');
 
   // Update local cache
-  const cache = getLocalCache();
-  cache.habits = cache.habits.filter(h => h.id !== habitId);
-  cache.entries = cache.entries.filter(e => e.habit_id !== habitId);
-  setLocalCache(cache.habits, cache.entries);
+  await deleteCachedHabit(habitId);
 }
 
 /**
- * Reorder habits in Supabase first
+ * Reorder habits in the backend first
  */
 export async function reorderHabits(habitIds: string[]): Promise<void> {
   const now = new Date().toISOString();
-  const updates = habitIds.map((id, index) => ({
-    id,
-    user_id: USER_ID,
-    order_index: index,
-    updated_at: now,
-  }));
 
-  // Try Supabase first
-  if (isSupabaseConfigured) {
-    try {
-      const { error } = await supabase
-        .from('habits')
-        .upsert(updates, { onConflict: 'id' });
-
-      if (error) throw error;
-      setSyncStatus({ isOnline: true });
-    } catch (err) {
-      console.warn('[Sync] Failed to reorder habits in cloud:', err);
-      setSyncStatus({ isOnline: false });
-    }
-  }
+  await writeThrough({ kind: 'reorder_habits', habitIds, updated_at: now }, 'reorder habits');
 
   // Update local cache
-  const cache = getLocalCache();
-  cache.habits = cache.habits.map(h => {
-    const newIndex = habitIds.indexOf(h.id);
-    if (newIndex >= 0) {
-      return { ...h, order_index: newIndex, updated_at: now };
-    }
-    return h;
-  });
-  setLocalCache(cache.habits, cache.entries);
+  const cached = await getCachedHabits();
+  await putCachedHabits(
+    cached
+      .filter(h => habitIds.includes(h.id))
+      .map(h => ({ ...h, order_index: habitIds.indexOf(h.id), updated_at: now }))
+  );
 }
 
 // ============================================
@@ -296,205 +671,319 @@ export async function reorderHabits(habitIds: string[]): Promise<void> {
 // ============================================
 
 /**
- * Get entries from Supabase (cloud is source of truth)
+ * Get entries from the backend (cloud is source of truth)
  */
 export async function getHabitEntries(options?: { habitId?: string; date?: string }): Promise<HabitEntry[]> {
-  // If Supabase not configured, return cache
-  if (!isSupabaseConfigured) {
-    const cache = getLocalCache();
-    let entries = cache.entries;
-    if (options?.habitId) entries = entries.filter(e => e.habit_id === options.habitId);
-    if (options?.date) entries = entries.filter(e => e.date === options.date);
-    return entries;
+  const userId = requireUserId();
+  // If no backend configured, return cache
+  if (!repository) {
+    return getCachedEntries(options);
   }
 
   try {
-    let query = supabase
-      .from('habit_entries')
-      .select('*')
-      .eq('user_id', USER_ID);
-
-    if (options?.habitId) query = query.eq('habit_id', options.habitId);
-    if (options?.date) query = query.eq('date', options.date);
-
-    const { data, error } = await query;
-    if (error) throw error;
-
-    const entries = data || [];
+    const repo = repository;
+    const data = await trackSyncCall({ operation: 'list_entries', table: 'habit_entries' }, () => repo.listEntries(userId, options));
+    const entries = mergeEntries(data).filter(e =>
+      (!options?.habitId || e.habit_id === options.habitId) && (!options?.date || e.date === options.date)
+    );
     
-    // Update cache
-    const cache = getLocalCache();
-    setLocalCache(cache.habits, entries);
-    setSyncStatus({ isOnline: true, lastSyncAt: new Date().toISOString() });
+    // Update cache for the fetched scope only
+    await replaceCachedEntries(entries, options);
+    markTablesSynced(['habit_entries']);
     
     return entries;
   } catch (err) {
-    console.warn('[Sync] Failed to fetch entries from cloud:', err);
+    reportSyncError('Failed to fetch entries from cloud', err);
     
     // Fall back to cache
-    const cache = getLocalCache();
-    setSyncStatus({ isOnline: false });
-    
-    let entries = cache.entries;
-    if (options?.habitId) entries = entries.filter(e => e.habit_id === options.habitId);
-    if (options?.date) entries = entries.filter(e => e.date === options.date);
-    return entries;
+    return getCachedEntries(options);
   }
 }
 
 /**
- * Get single entry from Supabase
+ * Get single entry from the backend
  */
 export async function getHabitEntry(habitId: string, date: string): Promise<HabitEntry | undefined> {
-  const entryId = generateEntryId(USER_ID, habitId, date);
+  const userId = requireUserId();
+  const entryId = generateEntryId(userId, habitId, date);
 
-  if (!isSupabaseConfigured) {
-    const cache = getLocalCache();
-    return cache.entries.find(e => e.id === entryId);
+  if (!repository) {
+    return getCachedEntry(entryId);
   }
 
+  const repo = repository;
   try {
-    const { data, error } = await supabase
-      .from('habit_entries')
-      .select('*')
-      .eq('id', entryId)
-      .eq('user_id', USER_ID)
-      .single();
-
-    if (error && error.code !== 'PGRST116') throw error; // PGRST116 = no rows
+    const data = await trackSyncCall(
+      { operation: 'get_entry', table: 'habit_entries', entryId },
+      () => repo.getEntry(userId, entryId)
+    );
     return data || undefined;
-  } catch (err) {
-    const cache = getLocalCache();
-    return cache.entries.find(e => e.id === entryId);
+  } catch {
+    return getCachedEntry(entryId);
   }
 }
 
 /**
- * Save entry to Supabase first (cloud is source of truth)
+ * Save entry to the backend first (cloud is source of truth)
  */
 export async function saveHabitEntry(
   habitId: string,
   date: string,
-  entryData: { value: number; fasting_hours?: number; note?: string }
+  entryData: EntryData
 ): Promise<HabitEntry> {
-  const entryId = generateEntryId(USER_ID, habitId, date);
+  const userId = requireUserId();
+  const entryId = generateEntryId(userId, habitId, date);
   const now = new Date().toISOString();
 
   const entry: HabitEntry = {
     id: entryId,
-    user_id: USER_ID,
+    user_id: userId,
     habit_id: habitId,
     date,
     value: entryData.value,
     fasting_hours: entryData.fasting_hours,
+    fasting_started_at: entryData.fasting_started_at,
+    fasting_ended_at: entryData.fasting_ended_at,
     note: entryData.note,
     updated_at: now,
   };
 
-  // Try Supabase first
-  if (isSupabaseConfigured) {
-    try {
-      const { data, error } = await supabase
-        .from('habit_entries')
-        .upsert(entry, { onConflict: 'id' })
-        .select()
-        .single();
-
-      if (error) throw error;
-      
-      if (data) {
-        // Update cache with confirmed data
-        const cache = getLocalCache();
-        const existingIdx = cache.entries.findIndex(e => e.id === data.id);
-        if (existingIdx >= 0) {
-          cache.entries[existingIdx] = data;
-        } else {
-          cache.entries.push(data);
-        }
-        setLocalCache(cache.habits, cache.entries);
-        setSyncStatus({ isOnline: true });
-        return data;
-      }
-    } catch (err) {
-      console.warn('[Sync] Failed to save entry to cloud:', err);
-      setSyncStatus({ isOnline: false });
-    }
-  }
-
-  // Update local cache (offline mode)
-  const cache = getLocalCache();
-  const existingIdx = cache.entries.findIndex(e => e.id === entryId);
-  if (existingIdx >= 0) {
-    cache.entries[existingIdx] = entry;
-  } else {
-    cache.entries.push(entry);
-  }
-  setLocalCache(cache.habits, cache.entries);
-  
-  return entry;
+  const { data } = await writeThrough<HabitEntry>({ kind: 'upsert_entry', entry }, 'save entry');
+  // Cache confirmed data, or the local copy in offline mode
+  const saved = data || entry;
+  await putCachedEntries([saved]);
+  return saved;
 }
 
 /**
- * Delete entry from Supabase
+ * Delete entry from the backend
  */
 export async function deleteHabitEntry(habitId: string, date: string): Promise<void> {
-  const entryId = generateEntryId(USER_ID, habitId, date);
+  const userId = requireUserId();
+  const entryId = generateEntryId(userId, habitId, date);
 
-  if (isSupabaseConfigured) {
-    try {
-      await supabase
-        .from('habit_entries')
-        .delete()
-        .eq('id', entryId)
-        .eq('user_id', USER_ID);
-      setSyncStatus({ isOnline: true });
-    } catch (err) {
-      console.warn('[Sync] Failed to delete entry from cloud:', err);
-      setSyncStatus({ isOnline: false });
-    }
-  }
+  await writeThrough({ kind: 'delete_entry', entryId, updated_at: new Date().toISOString() }, 'delete entry');
 
   // Update local cache
-  const cache = getLocalCache();
-  cache.entries = cache.entries.filter(e => e.id !== entryId);
-  setLocalCache(cache.habits, cache.entries);
+  await deleteCachedEntry(entryId);
 }
 
 // ============================================
-// SYNC STATUS
+// REALTIME
 // ============================================
 
-export function getCurrentSyncStatus(): SyncStatus {
-  return getSyncStatus();
+// undefined = use the repository's own feed for the signed-in user
+let changeFeedOverride: ChangeFeed | null | undefined;
+
+/**
+ * Swap the change feed (e.g. a local feed in tests). Pass null to rely on polling only.
+ */
+export function setChangeFeed(feed: ChangeFeed | null | undefined): void {
+  changeFeedOverride = feed;
+}
+
+function getChangeFeed(): ChangeFeed | null {
+  if (changeFeedOverride !== undefined) return changeFeedOverride;
+  const userId = getCurrentUserId();
+  if (!repository || !userId) return null;
+  return repository.createChangeFeed(userId);
+}
+
+/**
+ * Subscribe to remote habit changes. The cache is updated before listeners
+ * run, and queued local edits win over older remote rows.
+ */
+export function subscribeToHabitChanges(onChange: ChangeListener<Habit>, onLive?: LiveListener): () => void {
+  const changeFeed = getChangeFeed();
+  if (!changeFeed) {
+    onLive?.(false);
+    return () => {};
+  }
+
+  return changeFeed.subscribe<Habit>('habits', (change) => {
+    if (change.type === 'DELETE' || !change.new) {
+      if (change.old?.id) void deleteCachedHabit(change.old.id);
+      onChange(change);
+      return;
+    }
+
+    const habitId = change.new.id;
+    const resolved = applyPendingToHabits([change.new]).find(h => h.id === habitId);
+    if (!resolved) return; // Deleted locally, delete still queued
+    void putCachedHabits([resolved]);
+    onChange({ ...change, new: resolved });
+  }, onLive);
+}
+
+/**
+ * Subscribe to remote entry changes, merged against queued local edits by updated_at
+ */
+export function subscribeToEntryChanges(onChange: ChangeListener<HabitEntry>, onLive?: LiveListener): () => void {
+  const changeFeed = getChangeFeed();
+  if (!changeFeed) {
+    onLive?.(false);
+    return () => {};
+  }
+
+  return changeFeed.subscribe<HabitEntry>('habit_entries', (change) => {
+    if (change.type === 'DELETE' || !change.new) {
+      if (change.old?.id) void deleteCachedEntry(change.old.id);
+      onChange(change);
+      return;
+    }
+
+    const entryId = change.new.id;
+    const resolved = mergeEntries([change.new]).find(e => e.id === entryId);
+    if (!resolved) return; // Newer local delete still queued
+    void putCachedEntries([resolved]);
+    onChange({ ...change, new: resolved });
+  }, onLive);
 }
 
 // ============================================
-// BACKWARD COMPATIBILITY
+// MANUAL SYNC CONTROLS
 // ============================================
 
-// Clear old data formats
-export function clearOldData(): void {
-  localStorage.removeItem('master-mausam-data');
-  localStorage.removeItem('master-mausam-data-v1');
-  localStorage.removeItem('master-mausam-data-v2');
+/**
+ * Queue a dead-lettered change again and try to push it
+ */
+export async function retryFailedChange(id: string): Promise<number> {
+  setSyncStatus({ pendingChanges: requeueDeadLetter(id) });
+  return flushPendingChanges({ force: true });
+}
+
+export function discardFailedChange(id: string): void {
+  removeDeadLetter(id);
+  setSyncStatus({});
 }
 
-// Migration function
-export function migrateFromOldFormat(): void {
+function requireRepository(): HabitRepository {
+  if (!repository) throw new Error('No sync backend configured');
+  return repository;
+}
+
+async function fetchEverything(repo: HabitRepository, label: string): Promise<{ habits: Habit[]; entries: HabitEntry[] }> {
+  const userId = requireUserId();
   try {
-    const oldKey = 'master-mausam-data-v2';
-    const oldData = localStorage.getItem(oldKey);
-    if (oldData) {
-      const parsed = JSON.parse(oldData);
-      if (parsed.habits && parsed.entries) {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify({
-          habits: parsed.habits,
-          entries: parsed.entries,
-        }));
-        console.log('[Sync] Migrated from old format');
-      }
-    }
+    const [habits, entries] = await Promise.all([
+      trackSyncCall({ operation: 'list_habits', table: 'habits' }, () => repo.listHabits(userId)),
+      trackSyncCall({ operation: 'list_entries', table: 'habit_entries' }, () => repo.listEntries(userId)),
+    ]);
+    return { habits, entries };
+  } catch (err) {
+    reportSyncError(`${label} failed`, err);
+    throw err;
+  }
+}
+
+/**
+ * Re-fetch every habit and entry now, keeping queued local edits on top.
+ * Unlike the polling path this throws instead of falling back to the cache.
+ */
+export async function pullFromCloud(): Promise<{ habits: number; entries: number }> {
+  const repo = requireRepository();
+  const remote = await fetchEverything(repo, 'Pull from cloud');
+
+  const habits = applyPendingToHabits(remote.habits);
+  const entries = mergeEntries(remote.entries);
+  await Promise.all([replaceCachedHabits(habits), replaceCachedEntries(entries)]);
+  markTablesSynced(['habits', 'habit_entries']);
+
+  return { habits: habits.length, entries: entries.length };
+}
+
+/**
+ * Replace the local cache with exactly what the cloud has, dropping queued
+ * and failed changes and recorded conflicts. The cache is only touched once the fetch
+ * has succeeded.
+ */
+export async function resetCacheFromCloud(): Promise<{ habits: number; entries: number; discarded: number }> {
+  const repo = requireRepository();
+  const { habits, entries } = await fetchEverything(repo, 'Reset from cloud');
+
+  const discarded = getPendingCount();
+  await replaceCache(habits, entries);
+  clearOutbox();
+  clearDeadLetters();
+  setConflicts([]);
+  markTablesSynced(['habits', 'habit_entries'], { pendingChanges: 0 });
+  console.log(`[Sync] Cache reset from cloud (${habits.length} habits, ${entries.length} entries, ${discarded} queued changes dropped)`);
+
+  return { habits: habits.length, entries: entries.length, discarded };
+}
+
+/**
+ * Row counts and size of the local cache
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+  const { habits, entries } = await readCache();
+  const bytes = new Blob([JSON.stringify(habits), JSON.stringify(entries)]).size;
+
+  let storageUsed: number | null = null;
+  try {
+    storageUsed = (await navigator.storage?.estimate())?.usage ?? null;
   } catch {
-    // Ignore migration errors
+    // Not reported in this browser
   }
+
+  return { habits: habits.length, entries: entries.length, bytes, storageUsed };
+}
+
+// ============================================
+// SYNC LOG UPLOAD
+// ============================================
+
+// Events waiting for the next batch to the sync_log table
+let syncLogBatch: SyncEvent[] = [];
+let syncLogTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function uploadSyncLog(): Promise<void> {
+  syncLogTimer = null;
+  // RLS only accepts rows for whoever is signed in now
+  const userId = getCurrentUserId();
+  const batch = syncLogBatch.filter(event => event.user_id === userId);
+  syncLogBatch = [];
+  if (!repository?.appendSyncLog || batch.length === 0) return;
+
+  try {
+    await repository.appendSyncLog(batch);
+  } catch (err) {
+    // Not a sync event itself, so a broken upload can't feed on its own failures
+    console.warn('[SyncLog] Upload failed, will retry with the next batch:', err);
+    syncLogBatch = [...batch, ...syncLogBatch].slice(-MAX_SYNC_LOG_UPLOAD);
+  }
+}
+
+/**
+ * Copy writes and failures to the backend's sync_log in batches. Successful
+ * polls are left out; they'd be most of the rows and say little.
+ */
+function queueSyncLogUpload(event: SyncEvent): void {
+  const isRead = event.operation === 'list_habits' || event.operation === 'list_entries' || event.operation === 'ping';
+  if ((isRead && event.outcome === 'success') || !event.user_id) return;
+
+  syncLogBatch = [...syncLogBatch, event].slice(-MAX_SYNC_LOG_UPLOAD);
+  if (!syncLogTimer) syncLogTimer = setTimeout(uploadSyncLog, SYNC_LOG_UPLOAD_DELAY_MS);
+}
+
+if (isSyncLogRemote) {
+  subscribeSyncEvents(queueSyncLogUpload);
+}
+
+// ============================================
+// SYNC STATUS
+// ============================================
+
+export function getCurrentSyncStatus(): SyncStatus {
+  return getSyncStatus();
+}
+
+/**
+ * Listen for sync status changes (online flag, pending count, last sync)
+ */
+export function subscribeSyncStatus(listener: SyncStatusListener): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
 }
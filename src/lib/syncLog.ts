@@ -0,0 +1,206 @@
+import type { PendingOperation } from './outbox';
+import type { SyncTable } from './sync';
+import { getCurrentUserId, userScopedKey } from './supabase';
+
+// Types
+
+// Outbox operations plus the reads sync.ts makes
+export type SyncOperation = PendingOperation['kind'] | 'list_habits' | 'list_entries' | 'get_entry' | 'ping';
+
+/**
+ * success     - the backend accepted the call
+ * queued      - a write failed or waited behind older changes and is in the outbox
+ * failed      - a read or replay failed (reads fall back to the cache)
+ * superseded  - a queued write was dropped because the cloud row was newer
+ * dead_letter - a queued write was given up on and moved to failed changes
+ */
+export type SyncOutcome = 'success' | 'queued' | 'failed' | 'superseded' | 'dead_letter';
+
+export interface SyncEvent {
+  id: string;
+  at: string;
+  user_id: string | null;
+  operation: SyncOperation;
+  table: SyncTable | null;
+  entry_id: string | null;       // Habit or entry id the call touched, if any
+  duration_ms: number;
+  outcome: SyncOutcome;
+  error_code: string | null;
+  error_message: string | null;
+  attempt: number | null;        // Outbox replays only
+}
+
+export interface SyncEventInput {
+  operation: SyncOperation;
+  table: SyncTable | null;
+  entryId?: string | null;
+  startedAt: number;             // performance.now() when the call began
+  outcome: SyncOutcome;
+  error?: unknown;
+  attempt?: number;
+}
+
+type SyncEventListener = (event: SyncEvent) => void;
+
+// Constants
+const SYNC_LOG_KEY = 'master-mausam-sync-log-v1';
+const MAX_EVENTS = 300;
+
+const listeners = new Set<SyncEventListener>();
+
+// ============================================
+// ERROR CLASSIFICATION
+// ============================================
+
+export function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  if (err && typeof err === 'object' && typeof (err as { message?: unknown }).message === 'string') {
+    return (err as { message: string }).message;
+  }
+  return String(err);
+}
+
+/**
+ * Short, stable code for grouping failures: the Postgres/PostgREST code when
+ * Supabase gives one (e.g. 42501, PGRST301), http_<status> for the REST
+ * backend, otherwise network/timeout/offline/unknown
+ */
+export function getErrorCode(err: unknown): string {
+  if (err && typeof err === 'object') {
+    const { code, status, name } = err as { code?: unknown; status?: unknown; name?: unknown };
+    if (typeof code === 'string' && code) return code;
+    if (typeof status === 'number') return `http_${status}`;
+    if (name === 'AbortError' || name === 'TimeoutError') return 'timeout';
+  }
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return 'offline';
+  // fetch() rejects with a TypeError when the request never got a response
+  if (err instanceof TypeError) return 'network';
+  return 'unknown';
+}
+
+export function isConnectivityError(code: string): boolean {
+  return code === 'network' || code === 'offline' || code === 'timeout';
+}
+
+/**
+ * Failures retrying can't fix: a 4xx other than auth, timeout and rate
+ * limiting, or a Postgres data or constraint error (classes 22 and 23,
+ * e.g. 23503 foreign key violation)
+ */
+export function isRejectedError(code: string): boolean {
+  const http = /^http_(4\d\d)$/.exec(code);
+  if (http) return !['401', '403', '408', '429'].includes(http[1]);
+  return /^2[23][0-9A-Z]{3}$/.test(code);
+}
+
+// ============================================
+// RING BUFFER
+// ============================================
+
+/**
+ * Logged events for the signed-in user, oldest first
+ */
+export function getSyncEvents(): SyncEvent[] {
+  try {
+    const data = localStorage.getItem(userScopedKey(SYNC_LOG_KEY));
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function clearSyncEvents(): void {
+  try {
+    localStorage.removeItem(userScopedKey(SYNC_LOG_KEY));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+/**
+ * Append an event, dropping the oldest once the buffer is full, and pass it
+ * to every subscriber
+ */
+export function recordSyncEvent(input: SyncEventInput): SyncEvent {
+  const failed = input.error !== undefined;
+  const event: SyncEvent = {
+    id: crypto.randomUUID(),
+    at: new Date().toISOString(),
+    user_id: getCurrentUserId(),
+    operation: input.operation,
+    table: input.table,
+    entry_id: input.entryId ?? null,
+    duration_ms: Math.round(performance.now() - input.startedAt),
+    outcome: input.outcome,
+    error_code: failed ? getErrorCode(input.error) : null,
+    error_message: failed ? getErrorMessage(input.error) : null,
+    attempt: input.attempt ?? null,
+  };
+
+  try {
+    localStorage.setItem(userScopedKey(SYNC_LOG_KEY), JSON.stringify([...getSyncEvents(), event].slice(-MAX_EVENTS)));
+  } catch {
+    // Ignore localStorage errors
+  }
+
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (err) {
+      console.warn('[SyncLog] Listener failed:', err);
+    }
+  });
+  return event;
+}
+
+/**
+ * Telemetry hook: called with every event as it is logged
+ */
+export function subscribeSyncEvents(listener: SyncEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Table and row an outbox operation touches
+ */
+export function describeOperation(op: PendingOperation): { table: SyncTable; entryId: string | null } {
+  switch (op.kind) {
+    case 'upsert_habit':
+      return { table: 'habits', entryId: op.habit.id };
+    case 'delete_habit':
+      return { table: 'habits', entryId: op.habitId };
+    case 'reorder_habits':
+      return { table: 'habits', entryId: null };
+    case 'upsert_entry':
+      return { table: 'habit_entries', entryId: op.entry.id };
+    case 'delete_entry':
+      return { table: 'habit_entries', entryId: op.entryId };
+  }
+}
+
+/**
+ * Time a backend call and log it. Failures are logged with `failure` as the
+ * outcome and rethrown.
+ */
+export async function trackSyncCall<T>(
+  details: Pick<SyncEventInput, 'operation' | 'table' | 'entryId' | 'attempt'>,
+  run: () => Promise<T>,
+  failure: SyncOutcome = 'failed'
+): Promise<T> {
+  const startedAt = performance.now();
+  try {
+    const result = await run();
+    recordSyncEvent({ ...details, startedAt, outcome: 'success' });
+    return result;
+  } catch (err) {
+    recordSyncEvent({ ...details, startedAt, outcome: failure, error: err });
+    throw err;
+  }
+}
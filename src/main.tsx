@@ -3,6 +3,8 @@ import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App';
 import { AuthProvider } from './contexts/AuthContext';
+import { registerServiceWorker } from './lib/serviceWorker';
+import { flushPendingChanges } from './lib/sync';
 
 // Debug logging for mobile
 console.log('[App] Starting up...');
@@ -24,6 +26,9 @@ try {
     </StrictMode>,
   );
   console.log('[App] Rendered successfully');
+
+  // Offline support, update prompts and Background Sync
+  registerServiceWorker({ onFlushRequest: flushPendingChanges });
 } catch (err) {
   console.error('[App] Failed to start:', err);
   document.body.innerHTML = `<div style="padding: 20px; color: red;">Error: ${err instanceof Error ? err.message : 'Unknown error'}</div>`;
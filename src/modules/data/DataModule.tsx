@@ -0,0 +1,386 @@
+import { useMemo, useState } from 'react';
+import { useHabits, useHabitEntries } from '../../hooks/useSync';
+import type { Habit } from '../../lib/sync';
+import { buildAmountMaps } from '../../lib/habitStats';
+import {
+  datesInSpan,
+  buildHeatmap,
+  buildTrend,
+  weekdayBreakdown,
+  correlationMatrix,
+  type DateSpan,
+  type HeatmapDay,
+  type TrendPoint,
+} from '../../lib/analytics';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+type RangePreset = '30d' | '90d' | 'year' | '365d' | 'custom';
+
+const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: '30d', label: '30 days' },
+  { value: '90d', label: '90 days' },
+  { value: 'year', label: 'This year' },
+  { value: '365d', label: '12 months' },
+  { value: 'custom', label: 'Custom' },
+];
+
+// Longest custom span; every chart walks each day, so keep it bounded
+const MAX_CUSTOM_DAYS = 3 * 365;
+
+function formatDateKey(date: Date): string {
+  return date.toLocaleDateString('en-CA');
+}
+
+function daysAgo(days: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return formatDateKey(d);
+}
+
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return formatDateKey(new Date(year, month - 1, day + days));
+}
+
+/**
+ * Keep a custom span within MAX_CUSTOM_DAYS by moving the bound the user didn't just change
+ */
+function clampSpan(span: DateSpan, changed: keyof DateSpan): DateSpan {
+  const latestEnd = shiftDate(span.start, MAX_CUSTOM_DAYS - 1);
+  if (span.end <= latestEnd) return span;
+  return changed === 'start'
+    ? { ...span, end: latestEnd }
+    : { ...span, start: shiftDate(span.end, -(MAX_CUSTOM_DAYS - 1)) };
+}
+
+function presetSpan(preset: Exclude<RangePreset, 'custom'>): DateSpan {
+  const end = formatDateKey(new Date());
+  switch (preset) {
+    case '30d':
+      return { start: daysAgo(29), end };
+    case '90d':
+      return { start: daysAgo(89), end };
+    case 'year':
+      return { start: `${new Date().getFullYear()}-01-01`, end };
+    case '365d':
+      return { start: daysAgo(364), end };
+  }
+}
+
+// GitHub contribution palette
+function heatColor(day: HeatmapDay): string {
+  if (day.due === 0) return '#161b22';
+  if (day.percent === 0) return '#21262d';
+  if (day.percent < 34) return '#0e4429';
+  if (day.percent < 67) return '#006d32';
+  if (day.percent < 100) return '#26a641';
+  return '#39d353';
+}
+
+function correlationColor(r: number | null): string {
+  if (r === null) return '#161b22';
+  const alpha = Math.round(Math.min(Math.abs(r), 1) * 255).toString(16).padStart(2, '0');
+  return r >= 0 ? `#238636${alpha}` : `#f85149${alpha}`;
+}
+
+export function DataModule() {
+  const { habits, isLoading } = useHabits();
+  const { entries } = useHabitEntries();
+
+  const [preset, setPreset] = useState<RangePreset>('year');
+  const [customSpan, setCustomSpan] = useState<DateSpan>(() => presetSpan('90d'));
+  const [includeArchived, setIncludeArchived] = useState(false);
+
+  const span = preset === 'custom' ? customSpan : presetSpan(preset);
+  const dates = useMemo(() => datesInSpan(span), [span.start, span.end]);
+
+  const selectedHabits = useMemo(
+    () => habits.filter(h => includeArchived || !h.archived),
+    [habits, includeArchived]
+  );
+  const amounts = useMemo(() => buildAmountMaps(habits, entries), [habits, entries]);
+
+  const heatmap = useMemo(() => buildHeatmap(selectedHabits, amounts, dates), [selectedHabits, amounts, dates]);
+  const bucketDays = dates.length > 180 ? 30 : 7;
+  const correlations = useMemo(
+    () => correlationMatrix(selectedHabits, amounts, dates),
+    [selectedHabits, amounts, dates]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#58a6ff]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-[#c9d1d9]">Analytics</h2>
+          <p className="text-sm text-[#8b949e]">{span.start} → {span.end} · {dates.length} days</p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-[#8b949e]">
+          <input
+            type="checkbox"
+            checked={includeArchived}
+            onChange={e => setIncludeArchived(e.target.checked)}
+            className="w-4 h-4 rounded border-[#30363d] bg-[#0d1117]"
+          />
+          Include archived habits
+        </label>
+      </div>
+
+      <RangeSelector
+        preset={preset}
+        customSpan={customSpan}
+        onPreset={setPreset}
+        onCustomSpan={setCustomSpan}
+      />
+
+      {selectedHabits.length === 0 ? (
+        <div className="text-center py-16 text-[#6e7681]">No habits to analyse yet</div>
+      ) : (
+        <>
+          <Section title="Contributions" subtitle="Share of due habits completed each day">
+            <Heatmap days={heatmap} />
+          </Section>
+
+          <Section title="Trend" subtitle={`Completion per ${bucketDays === 7 ? 'week' : '30 days'}`}>
+            <div className="space-y-2">
+              {selectedHabits.map(habit => (
+                <TrendRow key={habit.id} habit={habit} points={buildTrend(habit, amounts, dates, bucketDays)} />
+              ))}
+            </div>
+          </Section>
+
+          <Section title="Day of week" subtitle="Completion by weekday; the weakest day is outlined">
+            <WeekdayTable habits={selectedHabits} rows={selectedHabits.map(h => weekdayBreakdown(h, amounts, dates))} />
+          </Section>
+
+          <Section title="Correlation" subtitle="Do habits tend to happen on the same days? (+1 always together, -1 never)">
+            <CorrelationMatrix habits={selectedHabits} matrix={correlations} />
+          </Section>
+        </>
+      )}
+    </div>
+  );
+}
+
+function RangeSelector({
+  preset,
+  customSpan,
+  onPreset,
+  onCustomSpan,
+}: {
+  preset: RangePreset;
+  customSpan: DateSpan;
+  onPreset: (preset: RangePreset) => void;
+  onCustomSpan: (span: DateSpan) => void;
+}) {
+  const inputClass = 'px-2 py-1.5 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff]';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {RANGE_PRESETS.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onPreset(option.value)}
+          className={`px-2.5 py-1 text-xs font-medium rounded-lg transition-colors ${
+            preset === option.value ? 'bg-[#238636] text-white' : 'bg-[#21262d] text-[#8b949e] hover:bg-[#30363d]'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+      {preset === 'custom' && (
+        <div className="flex items-center gap-2 text-xs text-[#8b949e]">
+          <input
+            type="date"
+            value={customSpan.start}
+            max={customSpan.end}
+            onChange={e => e.target.value && onCustomSpan(clampSpan({ ...customSpan, start: e.target.value }, 'start'))}
+            className={inputClass}
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={customSpan.end}
+            min={customSpan.start}
+            onChange={e => e.target.value && onCustomSpan(clampSpan({ ...customSpan, end: e.target.value }, 'end'))}
+            className={inputClass}
+          />
+          <span>(up to 3 years)</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Section({ title, subtitle, children }: { title: string; subtitle: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
+      <h3 className="text-sm font-semibold text-[#c9d1d9]">{title}</h3>
+      <p className="text-xs text-[#6e7681] mb-3">{subtitle}</p>
+      {children}
+    </div>
+  );
+}
+
+function Heatmap({ days }: { days: HeatmapDay[] }) {
+  // Columns are weeks starting on Sunday, like GitHub
+  const weeks = useMemo(() => {
+    if (days.length === 0) return [];
+    const [year, month, day] = days[0].date.split('-').map(Number);
+    const padding = new Date(year, month - 1, day).getDay();
+    const cells: (HeatmapDay | null)[] = [...Array(padding).fill(null), ...days];
+    const result: (HeatmapDay | null)[][] = [];
+    for (let i = 0; i < cells.length; i += 7) {
+      result.push(cells.slice(i, i + 7));
+    }
+    return result;
+  }, [days]);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex gap-[3px]">
+        <div className="flex flex-col gap-[3px] mr-1 pt-4">
+          {WEEKDAYS.map((name, i) => (
+            <div key={name} className="h-[11px] text-[9px] leading-[11px] text-[#484f58]">{i % 2 === 1 ? name : ''}</div>
+          ))}
+        </div>
+        {weeks.map((week, i) => {
+          const firstOfMonth = week.find(d => d && d.date.endsWith('-01'));
+          return (
+            <div key={i} className="flex flex-col gap-[3px]">
+              <div className="h-[13px] text-[9px] text-[#484f58] whitespace-nowrap">
+                {firstOfMonth ? MONTHS[Number(firstOfMonth.date.slice(5, 7)) - 1] : ''}
+              </div>
+              {week.map((day, j) => (
+                <div
+                  key={j}
+                  className="w-[11px] h-[11px] rounded-sm"
+                  style={{ backgroundColor: day ? heatColor(day) : 'transparent' }}
+                  title={day ? `${day.date}: ${day.due > 0 ? `${day.percent}% of ${day.due} habits` : 'nothing due'}` : undefined}
+                />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function TrendRow({ habit, points }: { habit: Habit; points: TrendPoint[] }) {
+  const width = 240;
+  const height = 32;
+  const step = points.length > 1 ? width / (points.length - 1) : 0;
+  const path = points
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${(i * step).toFixed(1)},${(height - (p.percent / 100) * height).toFixed(1)}`)
+    .join(' ');
+  const latest = points[points.length - 1]?.percent ?? 0;
+  const average = points.length > 0 ? Math.round(points.reduce((sum, p) => sum + p.percent, 0) / points.length) : 0;
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-40 shrink-0 truncate text-sm text-[#c9d1d9]">{habit.icon} {habit.name}</span>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="flex-1 h-8 min-w-0">
+        <line x1={0} y1={height / 2} x2={width} y2={height / 2} stroke="#21262d" strokeDasharray="2 3" />
+        {points.length > 1 ? (
+          <path d={path} fill="none" stroke={habit.color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        ) : (
+          <circle cx={width / 2} cy={height - (latest / 100) * height} r={2} fill={habit.color} />
+        )}
+      </svg>
+      <span className="w-20 shrink-0 text-right text-xs text-[#8b949e]" title={`Average ${average}%`}>
+        {latest}% <span className="text-[#484f58]">avg {average}%</span>
+      </span>
+    </div>
+  );
+}
+
+function WeekdayTable({ habits, rows }: { habits: Habit[]; rows: (number | null)[][] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[#6e7681]">
+            <th className="text-left font-normal pb-1" />
+            {WEEKDAYS.map(day => <th key={day} className="font-normal pb-1 w-12">{day}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {habits.map((habit, i) => {
+            const known = rows[i].filter((p): p is number => p !== null);
+            const weakest = known.length > 1 ? Math.min(...known) : null;
+            return (
+              <tr key={habit.id}>
+                <td className="pr-2 py-0.5 text-[#c9d1d9] truncate max-w-[10rem]">{habit.icon} {habit.name}</td>
+                {rows[i].map((percent, day) => (
+                  <td key={day} className="p-0.5">
+                    <div
+                      className={`h-6 rounded flex items-center justify-center ${
+                        percent !== null && percent === weakest && weakest < 100 ? 'ring-1 ring-[#f85149]' : ''
+                      } ${percent !== null && percent >= 50 ? 'text-[#0d1117]' : 'text-[#8b949e]'}`}
+                      style={{
+                        backgroundColor: percent === null
+                          ? 'transparent'
+                          : `${habit.color}${Math.round((0.15 + (percent / 100) * 0.85) * 255).toString(16).padStart(2, '0')}`,
+                      }}
+                      title={percent === null ? 'Not due' : `${WEEKDAYS[day]}: ${percent}%`}
+                    >
+                      {percent === null ? '–' : `${percent}`}
+                    </div>
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function CorrelationMatrix({ habits, matrix }: { habits: Habit[]; matrix: (number | null)[][] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs">
+        <thead>
+          <tr>
+            <th />
+            {habits.map(habit => (
+              <th key={habit.id} className="font-normal w-9 pb-1 text-base" title={habit.name}>{habit.icon}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {habits.map((a, i) => (
+            <tr key={a.id}>
+              <td className="pr-2 py-0.5 text-[#c9d1d9] whitespace-nowrap">{a.icon} {a.name}</td>
+              {habits.map((b, j) => {
+                const r = matrix[i][j];
+                return (
+                  <td key={b.id} className="p-0.5">
+                    <div
+                      className="w-8 h-8 rounded flex items-center justify-center text-[10px] text-[#c9d1d9]"
+                      style={{ backgroundColor: i === j ? '#21262d' : correlationColor(r) }}
+                      title={i === j ? a.name : `${a.name} × ${b.name}: ${r === null ? 'not enough data' : r}`}
+                    >
+                      {i === j ? '' : r === null ? '·' : r.toFixed(1)}
+                    </div>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
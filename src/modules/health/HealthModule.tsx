@@ -1,33 +1,88 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Plus, ChevronDown, Trash2, Edit2, RefreshCw, WifiOff, AlertCircle, ArrowUp, ArrowDown, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useState, useEffect, useCallback, useMemo, useRef, type Ref } from 'react';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DraggableAttributes,
+  type DraggableSyntheticListeners,
+} from '@dnd-kit/core';
+import { SortableContext, arrayMove, rectSortingStrategy, sortableKeyboardCoordinates, useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Plus, ChevronDown, Trash2, Edit2, RefreshCw, WifiOff, AlertCircle, GripVertical, ChevronLeft, ChevronRight, GitMerge, X, Play, Square, StickyNote, Archive, ArchiveRestore, Flame, Undo2, Redo2, Bell } from 'lucide-react';
 import { useHabits, useHabitEntries, useSync } from '../../hooks/useSync';
-import { clearOldData } from '../../lib/sync';
-import type { Habit, ViewMode } from './types';
+import { useUndoHistory } from '../../hooks/useUndoHistory';
+import { hasNoHabits, saveHabit, saveHabitEntry, type EntryData, type HabitEntry, type SyncConflict } from '../../lib/sync';
+import { takeSnapshot } from '../../lib/snapshots';
+import { isQuantitative, getTarget, getUnit, getCompletionRatio, formatQuantity } from '../../lib/habitProgress';
+import {
+  DEFAULT_FASTING_HOURS,
+  isFastingHabit,
+  findActiveFast,
+  hoursBetween,
+  formatElapsed,
+  getWeeklyAverages,
+} from '../../lib/fasting';
+import { DAILY, getSchedule, isDueOn, getScheduledProgress, describeSchedule } from '../../lib/schedule';
+import { calculateStreaks, type StreakSummary } from '../../lib/streaks';
+import { buildAmountMaps, dateRange, getCompletionRate, type CompletionRate } from '../../lib/habitStats';
+import { areNotificationsSupported, normalizeReminders, requestNotificationPermission } from '../../lib/reminders';
+import { HABIT_CATEGORIES, DEFAULT_CATEGORY, getCategory, normalizeCategory, formatCategory, groupByCategory } from '../../lib/categories';
+import { NotesTimeline } from './NotesTimeline';
+import type { Habit, HabitKind, HabitSchedule, ViewMode } from './types';
 
 const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-const DEFAULT_FASTING_HOURS = 18;
+const LONG_PRESS_MS = 500;
 
 // Default habits for new users
 const DEFAULT_HABITS: Omit<Habit, 'id' | 'user_id' | 'created_at' | 'updated_at'>[] = [
-  { name: 'Fasting', icon: '🍽️', color: '#f59e0b', order_index: 0, is_two_step: false },
-  { name: '5 Ltr Water', icon: '💧', color: '#3b82f6', order_index: 1, is_two_step: false },
-  { name: 'No Eat Outside', icon: '🏠', color: '#10b981', order_index: 2, is_two_step: false },
-  { name: 'Running', icon: '🏃', color: '#f97316', order_index: 3, is_two_step: false },
-  { name: 'Exercise', icon: '💪', color: '#a855f7', order_index: 4, is_two_step: false },
-  { name: 'Protine', icon: '🥩', color: '#eab308', order_index: 5, is_two_step: false },
-  { name: 'Meditation', icon: '🧘', color: '#06b6d4', order_index: 6, is_two_step: false },
-  { name: 'Vitamins 2 Times', icon: '💊', color: '#ec4899', order_index: 7, is_two_step: true },
-  { name: 'Reading', icon: '📖', color: '#6366f1', order_index: 8, is_two_step: false },
-  { name: '2 Brush', icon: '🪥', color: '#14b8a6', order_index: 9, is_two_step: true },
-  { name: 'Travel', icon: '✈️', color: '#f43f5e', order_index: 10, is_two_step: false },
-  { name: 'No Fap', icon: '🚫', color: '#8b5cf6', order_index: 11, is_two_step: false },
+  { name: 'Fasting', icon: '🍽️', color: '#f59e0b', order_index: 0, is_two_step: false, kind: 'fasting', target_value: DEFAULT_FASTING_HOURS, category: 'health' },
+  { name: '5 Ltr Water', icon: '💧', color: '#3b82f6', order_index: 1, is_two_step: false, target_value: 5, unit: 'L', category: 'health' },
+  { name: 'No Eat Outside', icon: '🏠', color: '#10b981', order_index: 2, is_two_step: false, category: 'health' },
+  { name: 'Running', icon: '🏃', color: '#f97316', order_index: 3, is_two_step: false, category: 'fitness' },
+  { name: 'Exercise', icon: '💪', color: '#a855f7', order_index: 4, is_two_step: false, category: 'fitness' },
+  { name: 'Protine', icon: '🥩', color: '#eab308', order_index: 5, is_two_step: false, category: 'nutrition' },
+  { name: 'Meditation', icon: '🧘', color: '#06b6d4', order_index: 6, is_two_step: false, category: 'wellness' },
+  { name: 'Vitamins 2 Times', icon: '💊', color: '#ec4899', order_index: 7, is_two_step: true, category: 'health' },
+  { name: 'Reading', icon: '📖', color: '#6366f1', order_index: 8, is_two_step: false, category: 'learning' },
+  { name: '2 Brush', icon: '🪥', color: '#14b8a6', order_index: 9, is_two_step: true, category: 'health' },
+  { name: 'Travel', icon: '✈️', color: '#f43f5e', order_index: 10, is_two_step: false, category: 'lifestyle' },
+  { name: 'No Fap', icon: '🚫', color: '#8b5cf6', order_index: 11, is_two_step: false, category: 'discipline' },
+];
+
+type HabitFormData = Pick<Habit, 'name' | 'icon' | 'color' | 'is_two_step' | 'kind' | 'target_value' | 'unit' | 'schedule' | 'category' | 'reminders'>;
+type HabitFormType = 'check' | 'amount' | 'fasting';
+
+const HABIT_FORM_TYPES: { value: HabitFormType; label: string }[] = [
+  { value: 'check', label: 'Check' },
+  { value: 'amount', label: 'Amount' },
+  { value: 'fasting', label: 'Fasting' },
 ];
 
 function getToday(): string {
   return new Date().toLocaleDateString('en-CA');
 }
 
+function formatShortDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+// Everything an entry write sets, so undo can put an entry back exactly
+function toEntryData(entry: HabitEntry): EntryData {
+  return {
+    value: entry.value,
+    fasting_hours: entry.fasting_hours,
+    fasting_started_at: entry.fasting_started_at,
+    fasting_ended_at: entry.fasting_ended_at,
+    note: entry.note,
+  };
+}
+
 function getDaysInMonth(year: number, month: number): number {
   return new Date(year, month + 1, 0).getDate();
 }
@@ -52,64 +107,30 @@ function getLast10Days(): string[] {
 }
 
 interface Stats {
-  week: { count: number; total: number; percent: number };
-  month: { count: number; total: number; percent: number };
-  year: { count: number; total: number; percent: number };
+  week: CompletionRate;
+  month: CompletionRate;
+  year: CompletionRate;
+}
+
+// Partially completed days are drawn with a fainter habit color
+function shadeColor(color: string, ratio: number): string {
+  if (ratio >= 1) return color;
+  const alpha = Math.round((0.25 + ratio * 0.5) * 255).toString(16).padStart(2, '0');
+  return `${color}${alpha}`;
 }
 
-function calculateStats(entries: Map<string, number>, isTwoStep: boolean): Stats {
+// Week and month are rolling; the year runs from Jan 1 to today
+function calculateStats(entries: Map<string, number>, habit: Habit): Stats {
   const today = new Date();
-  
-  // Week: last 7 days (rolling)
-  const weekDates: string[] = [];
-  for (let i = 6; i >= 0; i--) {
-    const d = new Date(today);
-    d.setDate(d.getDate() - i);
-    weekDates.push(formatDateKey(d));
-  }
-  
-  // Month: last 30 days (rolling)
-  const monthDates: string[] = [];
-  for (let i = 29; i >= 0; i--) {
-    const d = new Date(today);
-    d.setDate(d.getDate() - i);
-    monthDates.push(formatDateKey(d));
-  }
-  
-  // Year: current calendar year from Jan 1 to today (NOT rolling 365 days)
-  const yearDates: string[] = [];
-  const currentYear = today.getFullYear();
-  const startOfYear = new Date(currentYear, 0, 1); // Jan 1 of current year
-  const daysSinceJan1 = Math.floor((today.getTime() - startOfYear.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-  
-  for (let i = daysSinceJan1 - 1; i >= 0; i--) {
-    const d = new Date(today);
-    d.setDate(d.getDate() - i);
-    yearDates.push(formatDateKey(d));
-  }
-  
-  function calcCount(dates: string[]) {
-    let count = 0;
-    dates.forEach(date => {
-      const value = entries.get(date) ?? 0;
-      if (isTwoStep) {
-        if (value === 2) count += 1;
-        else if (value === 1) count += 0.5;
-      } else {
-        if (value === 1) count += 1;
-      }
-    });
-    return { count: Math.round(count * 10) / 10, total: dates.length };
-  }
-  
-  const week = calcCount(weekDates);
-  const month = calcCount(monthDates);
-  const year = calcCount(yearDates);
-  
+  const daysThisYear = Math.round(
+    (new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime() - new Date(today.getFullYear(), 0, 1).getTime()) / 86400000
+  ) + 1;
+  const amounts = new Map([[habit.id, entries]]);
+
   return {
-    week: { ...week, percent: week.total > 0 ? Math.round((week.count / week.total) * 100) : 0 },
-    month: { ...month, percent: month.total > 0 ? Math.round((month.count / month.total) * 100) : 0 },
-    year: { ...year, percent: year.total > 0 ? Math.round((year.count / year.total) * 100) : 0 },
+    week: getCompletionRate([habit], amounts, dateRange(7)),
+    month: getCompletionRate([habit], amounts, dateRange(30)),
+    year: getCompletionRate([habit], amounts, dateRange(daysThisYear)),
   };
 }
 
@@ -122,10 +143,28 @@ export function HealthModule() {
     updateHabit,
     removeHabit,
     reorder,
+    holdUpdates,
     refetch: refetchHabits,
   } = useHabits();
-  const { entries, setEntry, isSyncing: entriesSyncing } = useHabitEntries();
-  const { configError, isOnline: syncOnline, checkConnection, isChecking } = useSync();
+  const {
+    entries,
+    setEntry,
+    removeEntry,
+    refetch: refetchEntries,
+    isSyncing: entriesSyncing,
+  } = useHabitEntries();
+  const history = useUndoHistory();
+  const { record } = history;
+  const {
+    configError,
+    isOnline: syncOnline,
+    checkConnection,
+    isChecking,
+    pendingChanges,
+    conflicts,
+    dismissConflict,
+    clearConflicts,
+  } = useSync();
   
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<Record<string, ViewMode>>({});
@@ -133,38 +172,72 @@ export function HealthModule() {
   const [editingHabit, setEditingHabit] = useState<Habit | null>(null);
   const [entryValues, setEntryValues] = useState<Map<string, Map<string, number>>>(new Map());
   const [hasInitializedDefaults, setHasInitializedDefaults] = useState(false);
+  const [showNotes, setShowNotes] = useState(false);
+  const [noteTarget, setNoteTarget] = useState<{ habit: Habit; date: string } | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
 
-  // Load entry values into a map for fast lookup
-  useEffect(() => {
-    const map = new Map<string, Map<string, number>>();
-    entries.forEach((entry: { habit_id: string; date: string; value: number }) => {
+  const activeHabits = useMemo(() => habits.filter(h => !h.archived), [habits]);
+  const archivedHabits = useMemo(() => habits.filter(h => h.archived), [habits]);
+  const categoryGroups = useMemo(() => groupByCategory(activeHabits), [activeHabits]);
+  const categoryOptions = useMemo(
+    () => [...new Set([...HABIT_CATEGORIES, ...habits.map(getCategory)])],
+    [habits]
+  );
+  // A filter on a category that has since emptied shows everything again
+  const activeFilter = categoryGroups.some(g => g.category === categoryFilter) ? categoryFilter : null;
+  const visibleGroups = activeFilter ? categoryGroups.filter(g => g.category === activeFilter) : categoryGroups;
+
+  const entriesByHabit = useMemo(() => {
+    const map = new Map<string, HabitEntry[]>();
+    entries.forEach(entry => {
       if (!map.has(entry.habit_id)) {
-        map.set(entry.habit_id, new Map());
+        map.set(entry.habit_id, []);
       }
-      map.get(entry.habit_id)!.set(entry.date, entry.value);
+      map.get(entry.habit_id)!.push(entry);
     });
-    setEntryValues(map);
+    return map;
   }, [entries]);
 
+  const entryNotes = useMemo(() => {
+    const map = new Map<string, Map<string, string>>();
+    entriesByHabit.forEach((habitEntries, habitId) => {
+      const notes = new Map<string, string>();
+      habitEntries.forEach(entry => {
+        if (entry.note) notes.set(entry.date, entry.note);
+      });
+      map.set(habitId, notes);
+    });
+    return map;
+  }, [entriesByHabit]);
+
+  // Load each day's amount into a map for fast lookup
+  useEffect(() => {
+    setEntryValues(buildAmountMaps(habits, entries));
+  }, [habits, entries]);
+
   // Initialize default habits if user has no habits
   useEffect(() => {
     const initDefaults = async () => {
-      // Clear old data with wrong user_id on first load
-      clearOldData();
-      
+      // Legacy localStorage blobs were adopted into the cache before the app rendered (see adoptLegacyRows)
       if (!habitsLoading && habits.length === 0 && !hasInitializedDefaults) {
         setHasInitializedDefaults(true);
-        
-        // Check localStorage too
-        const localData = localStorage.getItem('master-mausam-data-v2');
-        if (localData) {
-          const parsed = JSON.parse(localData);
-          if (parsed.habits?.length > 0) {
-            console.log('[Health] Habits exist in localStorage v2, skipping default creation');
+
+        // An empty list may just be a failed load: only seed a provably empty
+        // account, and keep a copy of whatever entries are there first
+        try {
+          if (!(await hasNoHabits())) {
+            console.warn('[Health] Habits exist but were not loaded, skipping defaults');
+            refetchHabits(false);
             return;
           }
+          await takeSnapshot('seed', 'Before adding the default habits');
+        } catch (err) {
+          console.warn('[Health] Could not confirm there are no habits, skipping defaults:', err);
+          return;
         }
-        
+
         console.log('[Health] Creating default habits');
         for (const [index, habit] of DEFAULT_HABITS.entries()) {
           await addHabit({ ...habit, order_index: index });
@@ -173,66 +246,199 @@ export function HealthModule() {
     };
     
     initDefaults();
-  }, [habitsLoading, habits.length, hasInitializedDefaults, addHabit]);
+  }, [habitsLoading, habits.length, hasInitializedDefaults, addHabit, refetchHabits]);
+
+  // Mouse and touch get separate sensors so touch can wait for a press
+  // instead of stealing scrolls; the keyboard moves with the arrow keys
+  const sensors = useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 150, tolerance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
 
-  // Move habit up/down
-  const moveHabit = useCallback((habitId: string, direction: 'up' | 'down') => {
-    const currentIndex = habits.findIndex(h => h.id === habitId);
-    if (currentIndex === -1) return;
+  // Habits are dragged within their category; a drop is one reorder of the whole board
+  const handleDragEnd = useCallback((group: Habit[], { active, over }: DragEndEvent) => {
+    const from = group.findIndex(h => h.id === active.id);
+    const to = over ? group.findIndex(h => h.id === over.id) : -1;
+
+    if (from !== -1 && to !== -1 && from !== to) {
+      const groupIds = new Set(group.map(h => h.id));
+      const reordered = arrayMove(group, from, to);
+      const previousOrder = activeHabits.map(h => h.id);
+      const newOrder = activeHabits.map(h => groupIds.has(h.id) ? reordered.shift()!.id : h.id);
+
+      reorder(newOrder).catch(err => console.warn('[Health] Reorder failed:', err));
+      record({
+        label: `Moved ${group[from].name}`,
+        undo: () => reorder(previousOrder),
+        redo: () => reorder(newOrder),
+      });
+    }
+    // Released after reorder() has claimed the order, so a held-back poll can't undo the drop
+    holdUpdates(false);
+  }, [activeHabits, reorder, record, holdUpdates]);
 
-    const newIndex = direction === 'up' ? currentIndex - 1 : currentIndex + 1;
-    if (newIndex < 0 || newIndex >= habits.length) return;
+  const findEntry = useCallback((habitId: string, date: string) => {
+    return entriesByHabit.get(habitId)?.find(e => e.date === date);
+  }, [entriesByHabit]);
 
-    const newOrder = [...habits];
-    [newOrder[currentIndex], newOrder[newIndex]] = [newOrder[newIndex], newOrder[currentIndex]];
-    reorder(newOrder.map(h => h.id));
-  }, [habits, reorder]);
+  // Every entry edit goes through here so it lands on the undo stack
+  const writeEntry = useCallback(async (habitId: string, date: string, data: EntryData, verb = 'Updated') => {
+    const previous = findEntry(habitId, date);
+    await setEntry(habitId, date, data);
 
-  const toggleDate = useCallback(async (habitId: string, date: string, isTwoStep: boolean, habitName?: string) => {
+    const name = habits.find(h => h.id === habitId)?.name ?? 'habit';
+    record({
+      label: `${verb} ${name} on ${formatShortDate(date)}`,
+      undo: async () => {
+        if (previous) await setEntry(habitId, date, toEntryData(previous));
+        else await removeEntry(habitId, date);
+      },
+      redo: async () => { await setEntry(habitId, date, data); },
+    });
+  }, [findEntry, habits, setEntry, removeEntry, record]);
+
+  const toggleDate = useCallback(async (habitId: string, date: string, isTwoStep: boolean) => {
     const currentValue = entryValues.get(habitId)?.get(date) ?? 0;
-    let newValue: number;
+    const newValue = isTwoStep ? (currentValue + 1) % 3 : currentValue === 1 ? 0 : 1;
 
-    const isFasting = habitName === 'Fasting' || habitName === 'fasting';
+    await writeEntry(habitId, date, { value: newValue, note: findEntry(habitId, date)?.note }, newValue === 0 ? 'Cleared' : 'Marked');
+  }, [entryValues, findEntry, writeEntry]);
 
-    if (isFasting && !isTwoStep) {
-      newValue = currentValue === 1 ? 0 : 1;
-    } else if (isTwoStep) {
-      newValue = (currentValue + 1) % 3;
-    } else {
-      newValue = currentValue === 1 ? 0 : 1;
-    }
+  // Fasts belong to the day they were started on
+  const startFast = useCallback(async (habitId: string) => {
+    const today = getToday();
+    const existing = findEntry(habitId, today);
+    if (existing?.fasting_hours && !confirm("Replace today's logged fast?")) return;
+
+    await writeEntry(habitId, today, {
+      value: 0,
+      fasting_started_at: new Date().toISOString(),
+      fasting_ended_at: null,
+      note: existing?.note,
+    }, 'Started');
+  }, [findEntry, writeEntry]);
+
+  const stopFast = useCallback(async (habitId: string, fast: HabitEntry) => {
+    const endedAt = new Date().toISOString();
+    const hours = hoursBetween(fast.fasting_started_at!, endedAt);
+
+    await writeEntry(habitId, fast.date, {
+      value: hours > 0 ? 1 : 0,
+      fasting_hours: hours,
+      fasting_started_at: fast.fasting_started_at,
+      fasting_ended_at: endedAt,
+      note: fast.note,
+    }, 'Ended');
+  }, [writeEntry]);
+
+  // Manual edits keep the start time and move the end to match
+  const setFastingHours = useCallback(async (habitId: string, date: string, hours: number) => {
+    const existing = findEntry(habitId, date);
+    const startedAt = existing?.fasting_started_at ?? null;
+    const clamped = Math.max(0, hours);
 
-    await setEntry(habitId, date, { 
-      value: newValue,
-      ...(isFasting && newValue === 1 ? { fasting_hours: DEFAULT_FASTING_HOURS } : {})
+    await writeEntry(habitId, date, {
+      value: clamped > 0 ? 1 : 0,
+      fasting_hours: clamped,
+      fasting_started_at: startedAt,
+      fasting_ended_at: startedAt
+        ? new Date(new Date(startedAt).getTime() + clamped * 60 * 60 * 1000).toISOString()
+        : null,
+      note: existing?.note,
     });
-  }, [entryValues, setEntry]);
+  }, [findEntry, writeEntry]);
+
+  const setAmount = useCallback(async (habitId: string, date: string, amount: number) => {
+    await writeEntry(habitId, date, { value: Math.max(0, amount), note: findEntry(habitId, date)?.note });
+  }, [findEntry, writeEntry]);
+
+  // Notes ride along on the day's entry; a note on an untracked day creates a 0-value entry
+  const saveNote = useCallback(async (habitId: string, date: string, note: string) => {
+    const existing = findEntry(habitId, date);
+    await writeEntry(habitId, date, {
+      value: existing?.value ?? 0,
+      fasting_hours: existing?.fasting_hours,
+      fasting_started_at: existing?.fasting_started_at,
+      fasting_ended_at: existing?.fasting_ended_at,
+      note: note.trim() || null,
+    }, 'Edited note for');
+    setNoteTarget(null);
+  }, [findEntry, writeEntry]);
 
   const toggleExpand = useCallback((habitId: string) => {
     setExpandedId(prev => prev === habitId ? null : habitId);
   }, []);
 
-  const handleAddHabit = useCallback(async (name: string, icon: string, color: string, isTwoStep: boolean) => {
+  const toggleCategory = useCallback((category: string) => {
+    setCollapsedCategories(prev => {
+      const next = new Set(prev);
+      if (next.has(category)) next.delete(category);
+      else next.add(category);
+      return next;
+    });
+  }, []);
+
+  const handleAddHabit = useCallback(async (data: HabitFormData) => {
     await addHabit({
-      name,
-      icon,
-      color,
+      ...data,
       order_index: habits.length,
-      is_two_step: isTwoStep,
     });
     setShowAddModal(false);
   }, [addHabit, habits.length]);
 
+  // Habit edits undo by writing the whole previous habit back
+  const editHabit = useCallback(async (habitId: string, updates: Partial<Habit>, label: string) => {
+    const previous = habits.find(h => h.id === habitId);
+    const saved = await updateHabit(habitId, updates);
+    if (!previous || !saved) return;
+
+    record({
+      label,
+      undo: async () => { await updateHabit(habitId, previous); },
+      redo: async () => { await updateHabit(habitId, updates); },
+    });
+  }, [habits, updateHabit, record]);
+
   const handleUpdateHabit = useCallback(async (habitId: string, updates: Partial<Habit>) => {
-    await updateHabit(habitId, updates);
+    await editHabit(habitId, updates, `Edited ${updates.name ?? 'habit'}`);
     setEditingHabit(null);
-  }, [updateHabit]);
+  }, [editHabit]);
+
+  const handleArchiveHabit = useCallback(async (habitId: string, archived: boolean) => {
+    const name = habits.find(h => h.id === habitId)?.name ?? 'habit';
+    await editHabit(habitId, { archived }, `${archived ? 'Archived' : 'Restored'} ${name}`);
+    if (archived) setExpandedId(prev => prev === habitId ? null : prev);
+  }, [habits, editHabit]);
 
-  const handleDeleteHabit = useCallback(async (habitId: string) => {
-    if (confirm('Delete this habit?')) {
-      await removeHabit(habitId);
+  // Hard delete is only offered for archived habits, as an explicit second step
+  const handleDeleteHabit = useCallback(async (habit: Habit) => {
+    const entryCount = entriesByHabit.get(habit.id)?.length ?? 0;
+    const message = `Permanently delete "${habit.name}" and ${entryCount} entr${entryCount === 1 ? 'y' : 'ies'}? A snapshot is saved first so it can be restored from Settings.`;
+    if (!confirm(message)) return;
+
+    try {
+      await takeSnapshot('delete', `Before deleting "${habit.name}"`);
+    } catch (err) {
+      console.warn('[Health] Snapshot before delete failed:', err);
+      if (!confirm("Couldn't save a snapshot. Delete anyway? This cannot be undone.")) return;
     }
-  }, [removeHabit]);
+    const habitEntries = entriesByHabit.get(habit.id) ?? [];
+    await removeHabit(habit.id);
+
+    // Undo brings the habit back under its old id, then its entries
+    record({
+      label: `Deleted ${habit.name}`,
+      undo: async () => {
+        await saveHabit(habit);
+        for (const entry of habitEntries) {
+          await saveHabitEntry(habit.id, entry.date, toEntryData(entry));
+        }
+        await Promise.all([refetchHabits(false), refetchEntries(false)]);
+      },
+      redo: () => removeHabit(habit.id),
+    });
+  }, [entriesByHabit, removeHabit, refetchHabits, refetchEntries, record]);
 
   const handleManualSync = useCallback(async () => {
     await checkConnection();
@@ -247,7 +453,7 @@ export function HealthModule() {
     );
   }
 
-  // Show configuration error if Supabase is not set up
+  // Show configuration error if the sync backend is not set up
   if (configError) {
     return (
       <div className="p-6">
@@ -257,17 +463,11 @@ export function HealthModule() {
             <div>
               <h3 className="font-semibold text-[#f85149] mb-2">Cloud Sync Not Configured</h3>
               <p className="text-sm text-[#c9d1d9] mb-4">
-                Supabase environment variables are missing. Habit data cannot be saved to the cloud.
+                {configError}
               </p>
-              <div className="bg-[#0d1117] rounded-lg p-4 text-sm font-mono text-[#8b949e]">
-                <p className="mb-2">Required environment variables:</p>
-                <ul className="list-disc list-inside space-y-1">
-                  <li>VITE_SUPABASE_URL</li>
-                  <li>VITE_SUPABASE_ANON_KEY</li>
-                </ul>
-              </div>
-              <p className="text-xs text-[#6e7681] mt-4">
-                Set these in your Netlify dashboard under Site Settings → Environment Variables
+              <p className="text-xs text-[#6e7681]">
+                Set these in your Netlify dashboard under Site Settings → Environment Variables,
+                or set VITE_SYNC_BACKEND=none to keep data on this device only.
               </p>
             </div>
           </div>
@@ -287,6 +487,15 @@ export function HealthModule() {
           {(habitsSyncing || entriesSyncing) && (
             <span className="text-xs text-[#8b949e] animate-pulse">Syncing...</span>
           )}
+          <button
+            onClick={() => setShowNotes(prev => !prev)}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors ${
+              showNotes ? 'bg-[#30363d] text-[#c9d1d9]' : 'bg-[#21262d] text-[#8b949e] hover:bg-[#30363d]'
+            }`}
+            title="Notes"
+          >
+            <StickyNote size={16} />
+          </button>
           <button
             onClick={handleManualSync}
             disabled={isChecking}
@@ -310,7 +519,7 @@ export function HealthModule() {
         <div className="mb-4 p-3 bg-[#f85149]/10 border border-[#f85149]/30 rounded-lg text-sm text-[#f85149]">
           <div className="flex items-center gap-2">
             <AlertCircle size={16} />
-            <span>Supabase not configured. Cloud sync disabled.</span>
+            <span>Cloud sync disabled. {configError}</span>
           </div>
         </div>
       )}
@@ -319,33 +528,99 @@ export function HealthModule() {
         <div className="mb-4 p-3 bg-[#f59e0b]/10 border border-[#f59e0b]/30 rounded-lg text-sm text-[#f59e0b]">
           <div className="flex items-center gap-2">
             <WifiOff size={16} />
-            <span>Offline mode. Changes will sync when connection is restored.</span>
+            <span>
+              Offline mode. {pendingChanges > 0 ? `${pendingChanges} pending change${pendingChanges === 1 ? '' : 's'}` : 'Changes'} will sync when connection is restored.
+            </span>
           </div>
         </div>
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-        {habits.map((habit, index) => (
-          <HabitCard
-            key={habit.id}
-            habit={habit}
-            entries={entryValues.get(habit.id) || new Map()}
-            isExpanded={expandedId === habit.id}
-            viewMode={viewMode[habit.id] || 'month'}
-            onToggleExpand={() => toggleExpand(habit.id)}
-            onToggleDate={(date) => toggleDate(habit.id, date, habit.is_two_step, habit.name)}
-            onSetViewMode={(mode) => setViewMode(prev => ({ ...prev, [habit.id]: mode }))}
-            onEdit={() => setEditingHabit(habit)}
-            onDelete={() => handleDeleteHabit(habit.id)}
-            onMoveUp={() => moveHabit(habit.id, 'up')}
-            onMoveDown={() => moveHabit(habit.id, 'down')}
-            isFirst={index === 0}
-            isLast={index === habits.length - 1}
-          />
-        ))}
-      </div>
+      {conflicts.length > 0 && (
+        <ConflictBanner
+          conflicts={conflicts}
+          habits={habits}
+          onDismiss={dismissConflict}
+          onClear={clearConflicts}
+        />
+      )}
+
+      {showNotes && (
+        <NotesTimeline
+          entries={entries}
+          habits={habits}
+          onOpen={(habit, date) => setNoteTarget({ habit, date })}
+          onClose={() => setShowNotes(false)}
+        />
+      )}
+
+      {categoryGroups.length > 1 && (
+        <CategoryFilter
+          categories={categoryGroups.map(g => g.category)}
+          selected={activeFilter}
+          onSelect={setCategoryFilter}
+        />
+      )}
+
+      {visibleGroups.map(({ category, habits: group }) => {
+        const isCollapsed = collapsedCategories.has(category);
+        const grid = (
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragStart={() => holdUpdates(true)}
+            onDragEnd={(event) => handleDragEnd(group, event)}
+            onDragCancel={() => holdUpdates(false)}
+          >
+            <SortableContext items={group.map(h => h.id)} strategy={rectSortingStrategy}>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {group.map((habit) => {
+                  const activeFast = isFastingHabit(habit) ? findActiveFast(entriesByHabit.get(habit.id) || []) : null;
+                  return (
+                  <SortableHabitCard
+                    key={habit.id}
+                    habit={habit}
+                    entries={entryValues.get(habit.id) || new Map()}
+                    notes={entryNotes.get(habit.id) || new Map()}
+                    activeFast={activeFast}
+                    isExpanded={expandedId === habit.id}
+                    viewMode={viewMode[habit.id] || 'month'}
+                    onToggleExpand={() => toggleExpand(habit.id)}
+                    onToggleDate={(date) => toggleDate(habit.id, date, habit.is_two_step)}
+                    onSetAmount={(date, amount) => isFastingHabit(habit)
+                      ? setFastingHours(habit.id, date, amount)
+                      : setAmount(habit.id, date, amount)}
+                    onEditNote={(date) => setNoteTarget({ habit, date })}
+                    onStartFast={() => startFast(habit.id)}
+                    onStopFast={() => activeFast && stopFast(habit.id, activeFast)}
+                    onSetViewMode={(mode) => setViewMode(prev => ({ ...prev, [habit.id]: mode }))}
+                    onEdit={() => setEditingHabit(habit)}
+                    onArchive={() => handleArchiveHabit(habit.id, true)}
+                  />
+                  );
+                })}
+              </div>
+            </SortableContext>
+          </DndContext>
+        );
+
+        // A single category needs no headers - the board stays one plain grid
+        if (categoryGroups.length === 1) return <div key={category}>{grid}</div>;
+
+        return (
+          <section key={category} className="mb-5">
+            <CategoryHeader
+              category={category}
+              habits={group}
+              entryValues={entryValues}
+              isCollapsed={isCollapsed}
+              onToggle={() => toggleCategory(category)}
+            />
+            {!isCollapsed && grid}
+          </section>
+        );
+      })}
 
-      {habits.length === 0 && !habitsLoading && (
+      {activeHabits.length === 0 && !habitsLoading && (
         <div className="text-center py-16">
           <div className="text-4xl mb-4">📝</div>
           <h3 className="text-lg font-medium text-[#8b949e] mb-2">No habits yet</h3>
@@ -359,59 +634,358 @@ export function HealthModule() {
         </div>
       )}
 
+      {archivedHabits.length > 0 && (
+        <ArchivedHabits
+          habits={archivedHabits}
+          entriesByHabit={entriesByHabit}
+          isOpen={showArchived}
+          onToggle={() => setShowArchived(prev => !prev)}
+          onUnarchive={(habitId) => handleArchiveHabit(habitId, false)}
+          onDelete={handleDeleteHabit}
+        />
+      )}
+
       {showAddModal && (
         <HabitModal
+          categories={categoryOptions}
+          defaultCategory={activeFilter ?? DEFAULT_CATEGORY}
           onClose={() => setShowAddModal(false)}
           onSave={handleAddHabit}
         />
       )}
 
+      {noteTarget && (
+        <NoteModal
+          key={`${noteTarget.habit.id}:${noteTarget.date}`}
+          habit={noteTarget.habit}
+          date={noteTarget.date}
+          note={entryNotes.get(noteTarget.habit.id)?.get(noteTarget.date) ?? ''}
+          onClose={() => setNoteTarget(null)}
+          onSave={(note) => saveNote(noteTarget.habit.id, noteTarget.date, note)}
+        />
+      )}
+
       {editingHabit && (
         <HabitModal
           habit={editingHabit}
+          categories={categoryOptions}
           onClose={() => setEditingHabit(null)}
-          onSave={(name, icon, color, isTwoStep) => handleUpdateHabit(editingHabit.id, { name, icon, color, is_two_step: isTwoStep })}
+          onSave={(data) => handleUpdateHabit(editingHabit.id, data)}
+        />
+      )}
+
+      {history.notice && (
+        <UndoSnackbar
+          notice={history.notice}
+          canUndo={history.canUndo}
+          canRedo={history.canRedo}
+          onUndo={history.undo}
+          onRedo={history.redo}
+          onDismiss={history.dismiss}
         />
       )}
     </div>
   );
 }
 
+// ============================================
+// CATEGORIES
+// ============================================
+
+function CategoryFilter({
+  categories,
+  selected,
+  onSelect,
+}: {
+  categories: string[];
+  selected: string | null;
+  onSelect: (category: string | null) => void;
+}) {
+  const chipClass = (isActive: boolean) => `px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap transition-colors ${
+    isActive ? 'bg-[#30363d] text-[#c9d1d9]' : 'bg-[#21262d] text-[#8b949e] hover:bg-[#30363d]'
+  }`;
+
+  return (
+    <div className="flex gap-1.5 mb-4 overflow-x-auto">
+      <button onClick={() => onSelect(null)} className={chipClass(selected === null)}>All</button>
+      {categories.map(category => (
+        <button
+          key={category}
+          onClick={() => onSelect(selected === category ? null : category)}
+          className={chipClass(selected === category)}
+        >
+          {formatCategory(category)}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function CategoryHeader({
+  category,
+  habits,
+  entryValues,
+  isCollapsed,
+  onToggle,
+}: {
+  category: string;
+  habits: Habit[];
+  entryValues: Map<string, Map<string, number>>;
+  isCollapsed: boolean;
+  onToggle: () => void;
+}) {
+  const today = useMemo(() => getCompletionRate(habits, entryValues, [getToday()]), [habits, entryValues]);
+  const week = useMemo(() => getCompletionRate(habits, entryValues, dateRange(7)), [habits, entryValues]);
+
+  return (
+    <button
+      onClick={onToggle}
+      className="flex items-center gap-2 w-full mb-2 text-left group"
+      aria-expanded={!isCollapsed}
+    >
+      <ChevronDown
+        size={16}
+        className={`text-[#6e7681] transition-transform ${isCollapsed ? '-rotate-90' : ''}`}
+      />
+      <span className="text-sm font-semibold text-[#c9d1d9] group-hover:text-white">{formatCategory(category)}</span>
+      <span className="text-xs text-[#6e7681]">{habits.length}</span>
+      <span className="ml-auto text-xs text-[#8b949e]">
+        {today.total > 0 ? `${today.count}/${today.total} today` : 'Rest day'} · {week.percent}% 7d
+      </span>
+    </button>
+  );
+}
+
+// ============================================
+// UNDO SNACKBAR
+// ============================================
+
+const NOTICE_PREFIX = { done: '', undone: 'Undid: ', redone: 'Redid: ' } as const;
+
+function UndoSnackbar({
+  notice,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onDismiss,
+}: {
+  notice: { label: string; kind: keyof typeof NOTICE_PREFIX };
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDismiss: () => void;
+}) {
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 pl-4 pr-2 py-2 max-w-[calc(100vw-2rem)] bg-[#161b22] border border-[#30363d] rounded-lg shadow-lg">
+      <span className="text-sm text-[#c9d1d9] truncate">{NOTICE_PREFIX[notice.kind]}{notice.label}</span>
+      {canUndo && (
+        <button
+          onClick={onUndo}
+          className="flex items-center gap-1 px-2 py-1 text-sm font-medium text-[#58a6ff] hover:bg-[#58a6ff]/10 rounded transition-colors"
+          title="Undo (Ctrl+Z)"
+        >
+          <Undo2 size={14} /> Undo
+        </button>
+      )}
+      {canRedo && (
+        <button
+          onClick={onRedo}
+          className="flex items-center gap-1 px-2 py-1 text-sm text-[#8b949e] hover:bg-[#30363d] rounded transition-colors"
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          <Redo2 size={14} /> Redo
+        </button>
+      )}
+      <button onClick={onDismiss} className="p-1 text-[#6e7681] hover:text-[#c9d1d9]" title="Dismiss">
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
+
+function ArchivedHabits({
+  habits,
+  entriesByHabit,
+  isOpen,
+  onToggle,
+  onUnarchive,
+  onDelete,
+}: {
+  habits: Habit[];
+  entriesByHabit: Map<string, HabitEntry[]>;
+  isOpen: boolean;
+  onToggle: () => void;
+  onUnarchive: (habitId: string) => void;
+  onDelete: (habit: Habit) => void;
+}) {
+  return (
+    <div className="mt-6">
+      <button
+        onClick={onToggle}
+        className="flex items-center gap-2 text-sm font-medium text-[#8b949e] hover:text-[#c9d1d9] transition-colors"
+      >
+        <ChevronDown size={16} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        Archived habits ({habits.length})
+      </button>
+
+      {isOpen && (
+        <ul className="mt-3 border border-[#30363d] rounded-xl bg-[#161b22] divide-y divide-[#21262d]">
+          {habits.map(habit => {
+            const entryCount = entriesByHabit.get(habit.id)?.length ?? 0;
+            return (
+              <li key={habit.id} className="flex items-center gap-2 p-3">
+                <span className="text-xl shrink-0 opacity-60">{habit.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-[#8b949e] truncate">{habit.name}</div>
+                  <div className="text-xs text-[#484f58]">{entryCount} entr{entryCount === 1 ? 'y' : 'ies'} kept</div>
+                </div>
+                <button
+                  onClick={() => onUnarchive(habit.id)}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-[#8b949e] bg-[#21262d] rounded-lg hover:bg-[#30363d] hover:text-[#c9d1d9] transition-colors"
+                >
+                  <ArchiveRestore size={12} />
+                  Restore
+                </button>
+                <button
+                  onClick={() => onDelete(habit)}
+                  className="p-1.5 text-[#6e7681] hover:text-[#f85149]"
+                  title="Delete permanently"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function describeEntry(entry: HabitEntry | null, habit?: Habit): string {
+  if (entry && habit && isFastingHabit(habit)) return `${formatQuantity(entry.fasting_hours ?? 0, 'h')} fast`;
+  if (entry && habit && isQuantitative(habit)) return formatQuantity(entry.value, habit.unit);
+  if (!entry || entry.value === 0) return entry ? 'not done' : 'cleared';
+  if (habit?.is_two_step && entry.value === 1) return 'half done';
+  return 'done';
+}
+
+function ConflictBanner({
+  conflicts,
+  habits,
+  onDismiss,
+  onClear,
+}: {
+  conflicts: SyncConflict[];
+  habits: Habit[];
+  onDismiss: (id: string) => void;
+  onClear: () => void;
+}) {
+  const habitMap = new Map(habits.map(h => [h.id, h]));
+
+  return (
+    <div className="mb-4 p-3 bg-[#58a6ff]/10 border border-[#58a6ff]/30 rounded-lg text-sm text-[#58a6ff]">
+      <div className="flex items-center gap-2">
+        <GitMerge size={16} />
+        <span className="flex-1">
+          {conflicts.length} offline edit{conflicts.length === 1 ? ' was' : 's were'} replaced by newer changes from another device.
+        </span>
+        <button onClick={onClear} className="text-xs text-[#8b949e] hover:text-[#c9d1d9]">
+          Dismiss all
+        </button>
+      </div>
+      <ul className="mt-2 space-y-1">
+        {conflicts.slice(0, 5).map(conflict => {
+          const habit = habitMap.get(conflict.habit_id);
+          return (
+            <li key={conflict.id} className="flex items-center gap-2 text-xs text-[#8b949e]">
+              <span className="flex-1 truncate">
+                {habit ? `${habit.icon} ${habit.name}` : 'Deleted habit'} · {conflict.date}: kept "{describeEntry(conflict.remote, habit)}" over your "{describeEntry(conflict.local, habit)}"
+              </span>
+              <button
+                onClick={() => onDismiss(conflict.id)}
+                className="p-0.5 text-[#6e7681] hover:text-[#c9d1d9]"
+                title="Dismiss"
+              >
+                <X size={12} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
 interface HabitCardProps {
   habit: Habit;
   entries: Map<string, number>;
+  notes: Map<string, string>;
+  activeFast: HabitEntry | null;
   isExpanded: boolean;
   viewMode: ViewMode;
   onToggleExpand: () => void;
   onToggleDate: (date: string) => void;
+  onSetAmount: (date: string, amount: number) => void;
+  onEditNote: (date: string) => void;
+  onStartFast: () => void;
+  onStopFast: () => void;
   onSetViewMode: (mode: ViewMode) => void;
   onEdit: () => void;
-  onDelete: () => void;
-  onMoveUp: () => void;
-  onMoveDown: () => void;
-  isFirst: boolean;
-  isLast: boolean;
+  onArchive: () => void;
+  dragHandle?: DragHandle;
+}
+
+interface DragHandle {
+  ref: Ref<HTMLButtonElement>;
+  attributes: DraggableAttributes;
+  listeners: DraggableSyntheticListeners;
+}
+
+function SortableHabitCard(props: HabitCardProps) {
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } = useSortable({
+    id: props.habit.id,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform), transition }}
+      className={isDragging ? 'relative z-10 opacity-80 shadow-lg' : undefined}
+    >
+      <HabitCard {...props} dragHandle={{ ref: setActivatorNodeRef, attributes, listeners }} />
+    </div>
+  );
 }
 
 function HabitCard({ 
   habit, 
   entries,
+  notes,
+  activeFast,
   isExpanded, 
   viewMode, 
   onToggleExpand, 
   onToggleDate,
+  onSetAmount,
+  onEditNote,
+  onStartFast,
+  onStopFast,
   onSetViewMode,
   onEdit,
-  onDelete,
-  onMoveUp,
-  onMoveDown,
-  isFirst,
-  isLast,
+  onArchive,
+  dragHandle,
 }: HabitCardProps) {
   const today = getToday();
   const todayValue = entries.get(today) ?? 0;
   const last10Days = useMemo(() => getLast10Days(), []);
-  const stats = useMemo(() => calculateStats(entries, habit.is_two_step), [entries, habit.is_two_step]);
+  const stats = useMemo(() => calculateStats(entries, habit), [entries, habit]);
+  const streaks = useMemo(() => calculateStreaks(habit, entries, today), [habit, entries, today]);
+  const schedule = getSchedule(habit);
+  const quantitative = isQuantitative(habit);
+  const fasting = isFastingHabit(habit);
 
   return (
     <div 
@@ -422,17 +996,41 @@ function HabitCard({
         onClick={onToggleExpand}
       >
         <div className="flex items-center gap-2">
+          {dragHandle && (
+            <button
+              ref={dragHandle.ref}
+              {...dragHandle.attributes}
+              {...dragHandle.listeners}
+              onClick={(e) => e.stopPropagation()}
+              className="-ml-1 p-0.5 text-[#484f58] hover:text-[#8b949e] cursor-grab active:cursor-grabbing touch-none shrink-0"
+              title="Drag to reorder"
+              aria-label={`Reorder ${habit.name}`}
+            >
+              <GripVertical size={14} />
+            </button>
+          )}
           <span className="text-xl shrink-0">{habit.icon}</span>
-          <span className="font-medium text-[#c9d1d9] flex-1 truncate">{habit.name}</span>
+          <span className="font-medium text-[#c9d1d9] flex-1 truncate">
+            {habit.name}
+            {habit.schedule && habit.schedule.type !== 'daily' && (
+              <span className="ml-2 text-xs font-normal text-[#6e7681]">{describeSchedule(habit.schedule)}</span>
+            )}
+          </span>
           
           <div 
             className="mr-1 shrink-0"
             onClick={(e) => {
+              // Amounts are entered in the month grid
+              if (quantitative) return;
               e.stopPropagation();
-              onToggleDate(today);
+              if (!fasting) onToggleDate(today);
             }}
           >
-            {habit.is_two_step ? (
+            {fasting ? (
+              <FastingControl activeFast={activeFast} onStart={onStartFast} onStop={onStopFast} />
+            ) : quantitative ? (
+              <QuantityBadge value={todayValue} habit={habit} />
+            ) : habit.is_two_step ? (
               <TwoStepToggle value={todayValue} />
             ) : (
               <div className={`w-7 h-7 rounded border-2 flex items-center justify-center transition-colors ${
@@ -460,6 +1058,13 @@ function HabitCard({
           <StatBadge label="W" count={stats.week.count} total={stats.week.total} percent={stats.week.percent} color={habit.color} />
           <StatBadge label="M" count={stats.month.count} total={stats.month.total} percent={stats.month.percent} color={habit.color} />
           <StatBadge label="Y" count={stats.year.count} total={stats.year.total} percent={stats.year.percent} color={habit.color} />
+          <div
+            className={`flex items-center gap-0.5 text-xs font-medium ${streaks.current > 0 ? 'text-[#f59e0b]' : 'text-[#484f58]'}`}
+            title={`Current streak ${streaks.current} · best ${streaks.best}`}
+          >
+            <Flame size={12} />
+            {streaks.current}
+          </div>
         </div>
         
         <div className="flex items-center gap-1 mt-2 ml-6">
@@ -467,21 +1072,16 @@ function HabitCard({
             const value = entries.get(date) ?? 0;
             const isToday = date === today;
             
-            let bgColor = '#21262d';
-            if (value > 0) {
-              if (habit.is_two_step) {
-                bgColor = value === 2 ? habit.color : `${habit.color}80`;
-              } else {
-                bgColor = habit.color;
-              }
-            }
+            const ratio = getCompletionRatio(habit, value);
+            const isDue = isDueOn(schedule, date);
+            const bgColor = ratio > 0 ? shadeColor(habit.color, ratio) : isDue ? '#21262d' : 'transparent';
             
             return (
               <div
                 key={date}
-                className={`w-2.5 h-2.5 rounded-sm ${isToday ? 'ring-1 ring-[#8b949e] ring-offset-1 ring-offset-[#161b22]' : ''}`}
+                className={`w-2.5 h-2.5 rounded-sm ${!isDue && ratio === 0 ? 'border border-[#21262d]' : ''} ${isToday ? 'ring-1 ring-[#8b949e] ring-offset-1 ring-offset-[#161b22]' : ''}`}
                 style={{ backgroundColor: bgColor }}
-                title={date}
+                title={isDue ? date : `${date} (not due)`}
               />
             );
           })}
@@ -507,37 +1107,43 @@ function HabitCard({
             >
               Year
             </button>
+            {fasting && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onSetViewMode('hours'); }}
+                className={`px-2.5 py-1 text-xs font-medium rounded-lg transition-colors ${
+                  viewMode === 'hours' ? 'bg-[#238636] text-white' : 'bg-[#21262d] text-[#8b949e] hover:bg-[#30363d]'
+                }`}
+              >
+                Hours
+              </button>
+            )}
             
             <div className="flex-1" />
             
-            <button 
-              onClick={(e) => { e.stopPropagation(); onMoveUp(); }} 
-              disabled={isFirst}
-              className="p-1.5 text-[#8b949e] hover:text-[#c9d1d9] disabled:opacity-30 disabled:cursor-not-allowed"
-              title="Move up"
-            >
-              <ArrowUp size={14} />
-            </button>
-            <button 
-              onClick={(e) => { e.stopPropagation(); onMoveDown(); }} 
-              disabled={isLast}
-              className="p-1.5 text-[#8b949e] hover:text-[#c9d1d9] disabled:opacity-30 disabled:cursor-not-allowed"
-              title="Move down"
-            >
-              <ArrowDown size={14} />
-            </button>
             <button onClick={(e) => { e.stopPropagation(); onEdit(); }} className="p-1.5 text-[#8b949e] hover:text-[#c9d1d9]">
               <Edit2 size={14} />
             </button>
-            <button onClick={(e) => { e.stopPropagation(); onDelete(); }} className="p-1.5 text-[#8b949e] hover:text-[#f85149]">
-              <Trash2 size={14} />
+            <button onClick={(e) => { e.stopPropagation(); onArchive(); }} className="p-1.5 text-[#8b949e] hover:text-[#c9d1d9]" title="Archive">
+              <Archive size={14} />
             </button>
           </div>
 
           {viewMode === 'month' ? (
-            <MonthView habit={habit} entries={entries} onToggleDate={onToggleDate} />
+            <MonthView
+              habit={habit}
+              entries={entries}
+              notes={notes}
+              onToggleDate={onToggleDate}
+              onSetAmount={onSetAmount}
+              onEditNote={onEditNote}
+            />
+          ) : viewMode === 'hours' && fasting ? (
+            <FastingChart habit={habit} hoursByDate={entries} />
           ) : (
-            <YearView habit={habit} entries={entries} />
+            <>
+              <YearView habit={habit} entries={entries} />
+              <StreakHistory streaks={streaks} color={habit.color} />
+            </>
           )}
         </div>
       )}
@@ -545,6 +1151,36 @@ function HabitCard({
   );
 }
 
+function StreakHistory({ streaks, color }: { streaks: StreakSummary; color: string }) {
+  if (streaks.runs.length === 0) return null;
+
+  const longest = [...streaks.runs].sort((a, b) => b.length - a.length).slice(0, 5);
+  const currentRun = streaks.current > 0 ? streaks.runs[streaks.runs.length - 1] : null;
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between text-[10px] text-[#6e7681] mb-1">
+        <span>Longest streaks</span>
+        <span>Current {streaks.current} · Best {streaks.best}</span>
+      </div>
+      <ul className="space-y-1">
+        {longest.map(run => (
+          <li key={run.start} className="flex items-center gap-2 text-[10px] text-[#8b949e]">
+            <span className="w-32 shrink-0">{run.start} → {run.end}</span>
+            <div className="flex-1 h-1.5 bg-[#21262d] rounded-full overflow-hidden">
+              <div
+                className="h-full rounded-full"
+                style={{ width: `${(run.length / streaks.best) * 100}%`, backgroundColor: color }}
+              />
+            </div>
+            <span className={`w-8 text-right ${run === currentRun ? 'text-[#f59e0b]' : ''}`}>{run.length}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 function StatBadge({ label, count, total, percent, color }: { 
   label: string; 
   count: number; 
@@ -570,8 +1206,150 @@ function TwoStepToggle({ value }: { value: number }) {
   );
 }
 
-function MonthView({ habit, entries, onToggleDate }: { habit: Habit; entries: Map<string, number>; onToggleDate: (date: string) => void }) {
+function FastingControl({
+  activeFast,
+  onStart,
+  onStop,
+}: {
+  activeFast: HabitEntry | null;
+  onStart: () => void;
+  onStop: () => void;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the running timer once a second
+  useEffect(() => {
+    if (!activeFast) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [activeFast]);
+
+  if (!activeFast) {
+    return (
+      <button
+        onClick={onStart}
+        className="flex items-center gap-1 px-2 h-7 rounded border-2 border-[#30363d] text-xs font-medium text-[#8b949e] hover:border-[#484f58] hover:text-[#c9d1d9] transition-colors"
+        title="Start fast"
+      >
+        <Play size={12} />
+        Start
+      </button>
+    );
+  }
+
+  const elapsed = now - new Date(activeFast.fasting_started_at!).getTime();
+  return (
+    <button
+      onClick={onStop}
+      className="flex items-center gap-1 px-2 h-7 rounded border-2 border-[#f59e0b] text-xs font-medium font-mono text-[#f59e0b] hover:bg-[#f59e0b]/10 transition-colors"
+      title="Stop fast"
+    >
+      <Square size={10} />
+      {formatElapsed(elapsed)}
+    </button>
+  );
+}
+
+function FastingChart({ habit, hoursByDate }: { habit: Habit; hoursByDate: Map<string, number> }) {
+  const goal = getTarget(habit);
+  const days = useMemo(() => {
+    const result: { date: string; hours: number }[] = [];
+    const today = new Date();
+    for (let i = 13; i >= 0; i--) {
+      const d = new Date(today);
+      d.setDate(d.getDate() - i);
+      const date = formatDateKey(d);
+      result.push({ date, hours: hoursByDate.get(date) ?? 0 });
+    }
+    return result;
+  }, [hoursByDate]);
+  const weeks = useMemo(() => getWeeklyAverages(hoursByDate, 4), [hoursByDate]);
+
+  const scale = Math.max(goal, ...days.map(d => d.hours));
+
+  return (
+    <div>
+      <div className="text-[10px] text-[#6e7681] mb-1">Last 14 days · goal {goal}h</div>
+      <div className="relative flex items-end gap-1 h-24 border-b border-[#30363d]">
+        <div
+          className="absolute left-0 right-0 border-t border-dashed border-[#484f58]"
+          style={{ bottom: `${(goal / scale) * 100}%` }}
+        />
+        {days.map(({ date, hours }) => (
+          <div
+            key={date}
+            className="flex-1 rounded-t-sm"
+            style={{
+              height: `${(hours / scale) * 100}%`,
+              backgroundColor: shadeColor(habit.color, getCompletionRatio(habit, hours)),
+            }}
+            title={`${date}: ${formatQuantity(hours, 'h')}`}
+          />
+        ))}
+      </div>
+
+      <div className="text-[10px] text-[#6e7681] mt-3 mb-1">Weekly average</div>
+      <div className="grid grid-cols-4 gap-2">
+        {weeks.map(week => (
+          <div key={week.weekStart} className="bg-[#0d1117] border border-[#21262d] rounded-lg p-2">
+            <div className="text-[10px] text-[#484f58]">{week.weekStart.slice(5)}</div>
+            <div className="text-xs font-medium text-[#c9d1d9]">{week.days > 0 ? `${week.average}h` : '-'}</div>
+            <div className="text-[10px] text-[#484f58]">{week.days} fast{week.days === 1 ? '' : 's'}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function QuantityBadge({ value, habit }: { value: number; habit: Habit }) {
+  const done = getCompletionRatio(habit, value) >= 1;
+  return (
+    <div className={`px-2 h-7 rounded border-2 flex items-center text-xs font-medium transition-colors ${
+      done ? 'bg-[#238636] border-[#238636] text-white' : 'border-[#30363d] text-[#8b949e]'
+    }`}>
+      {formatQuantity(value)}/{formatQuantity(getTarget(habit), habit.unit)}
+    </div>
+  );
+}
+
+function MonthView({
+  habit,
+  entries,
+  notes,
+  onToggleDate,
+  onSetAmount,
+  onEditNote,
+}: {
+  habit: Habit;
+  entries: Map<string, number>;
+  notes: Map<string, string>;
+  onToggleDate: (date: string) => void;
+  onSetAmount: (date: string, amount: number) => void;
+  onEditNote: (date: string) => void;
+}) {
   const [viewDate, setViewDate] = useState(new Date());
+  // Long-press opens the note editor on touch screens; the click that follows is swallowed
+  const pressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const didLongPress = useRef(false);
+
+  const startPress = (date: string) => {
+    didLongPress.current = false;
+    pressTimer.current = setTimeout(() => {
+      didLongPress.current = true;
+      onEditNote(date);
+    }, LONG_PRESS_MS);
+  };
+
+  const cancelPress = () => {
+    if (pressTimer.current) clearTimeout(pressTimer.current);
+    pressTimer.current = null;
+  };
+
+  // Amount and fasting habits pick a day, then edit it below the grid
+  const quantitative = isQuantitative(habit) || isFastingHabit(habit);
+  const [selectedDate, setSelectedDate] = useState(getToday());
+  const schedule = getSchedule(habit);
   const year = viewDate.getFullYear();
   const month = viewDate.getMonth();
   
@@ -637,28 +1415,107 @@ function MonthView({ habit, entries, onToggleDate }: { habit: Habit; entries: Ma
           const value = entries.get(date) ?? 0;
           const isToday = date === getToday();
           
+          const ratio = getCompletionRatio(habit, value);
+          const isSelected = quantitative && date === selectedDate;
+          const note = notes.get(date);
+          const isDue = isDueOn(schedule, date);
+          
           let bgColor = 'transparent';
-          let textColor = 'text-[#6e7681]';
+          let textColor = isDue ? 'text-[#6e7681]' : 'text-[#30363d]';
           
-          if (value > 0) {
-            bgColor = habit.color;
+          if (ratio > 0) {
+            bgColor = shadeColor(habit.color, ratio);
             textColor = 'text-[#0d1117]';
           }
           
           return (
             <button
               key={day}
-              onClick={(e) => { e.stopPropagation(); onToggleDate(date); }}
-              className={`aspect-square rounded-md text-xs font-medium flex items-center justify-center transition-all min-h-[28px] ${
-                isToday ? 'ring-1 ring-[#58a6ff]' : ''
+              onClick={(e) => {
+                e.stopPropagation();
+                if (didLongPress.current) {
+                  didLongPress.current = false;
+                  return;
+                }
+                if (quantitative) setSelectedDate(date);
+                else onToggleDate(date);
+              }}
+              onContextMenu={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                cancelPress();
+                onEditNote(date);
+              }}
+              onPointerDown={(e) => { if (e.pointerType !== 'mouse') startPress(date); }}
+              onPointerUp={cancelPress}
+              onPointerLeave={cancelPress}
+              className={`relative aspect-square rounded-md text-xs font-medium flex items-center justify-center transition-all min-h-[28px] select-none ${
+                isSelected ? 'ring-2 ring-[#c9d1d9]' : isToday ? 'ring-1 ring-[#58a6ff]' : ''
               } ${textColor} hover:bg-[#21262d]`}
               style={{ backgroundColor: bgColor }}
+              title={[
+                quantitative ? `${date}: ${formatQuantity(value, getUnit(habit))}` : date,
+                isDue ? null : 'Not due',
+                note,
+              ].filter(Boolean).join('\n')}
             >
               {day}
+              {note && (
+                <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-[#c9d1d9] ring-1 ring-[#0d1117]" />
+              )}
             </button>
           );
         })}
       </div>
+
+      {quantitative && (
+        <AmountInput
+          key={`${selectedDate}:${entries.get(selectedDate) ?? 0}`}
+          date={selectedDate}
+          value={entries.get(selectedDate) ?? 0}
+          habit={habit}
+          onSave={(amount) => onSetAmount(selectedDate, amount)}
+        />
+      )}
+    </div>
+  );
+}
+
+function AmountInput({
+  date,
+  value,
+  habit,
+  onSave,
+}: {
+  date: string;
+  value: number;
+  habit: Habit;
+  onSave: (amount: number) => void;
+}) {
+  const [draft, setDraft] = useState(value ? String(value) : '');
+
+  const save = () => {
+    const amount = parseFloat(draft);
+    const next = Number.isFinite(amount) ? amount : 0;
+    if (next !== value) onSave(next);
+  };
+
+  return (
+    <div className="flex items-center gap-2 mt-3" onClick={e => e.stopPropagation()}>
+      <span className="text-xs text-[#8b949e] shrink-0">{date}</span>
+      <input
+        type="number"
+        inputMode="decimal"
+        min={0}
+        step="any"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={save}
+        onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        className="flex-1 min-w-0 px-2 py-1 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff]"
+        placeholder="0"
+      />
+      <span className="text-xs text-[#6e7681] shrink-0">/ {formatQuantity(getTarget(habit), getUnit(habit))}</span>
     </div>
   );
 }
@@ -667,6 +1524,8 @@ function YearView({ habit, entries }: { habit: Habit; entries: Map<string, numbe
   const [viewYear, setViewYear] = useState(new Date().getFullYear());
   const currentYear = new Date().getFullYear();
   
+  const schedule = getSchedule(habit);
+  
   const goToPrevYear = () => setViewYear(y => y - 1);
   const goToNextYear = () => setViewYear(y => y + 1);
   const goToCurrentYear = () => setViewYear(currentYear);
@@ -706,20 +1565,10 @@ function YearView({ habit, entries }: { habit: Habit; entries: Map<string, numbe
       <div className="grid grid-cols-3 gap-2">
         {MONTHS.map((monthName, monthIndex) => {
           const daysInMonth = getDaysInMonth(viewYear, monthIndex);
-          let completed = 0;
-          
-          for (let day = 1; day <= daysInMonth; day++) {
-            const date = formatDateKey(new Date(viewYear, monthIndex, day));
-            const value = entries.get(date) ?? 0;
-            if (habit.is_two_step) {
-              if (value === 2) completed += 1;
-              else if (value === 1) completed += 0.5;
-            } else {
-              if (value === 1) completed += 1;
-            }
-          }
+          const dates = Array.from({ length: daysInMonth }, (_, i) => formatDateKey(new Date(viewYear, monthIndex, i + 1)));
+          const { count, total } = getScheduledProgress(schedule, dates, date => getCompletionRatio(habit, entries.get(date) ?? 0));
           
-          const percent = Math.round((completed / daysInMonth) * 100);
+          const percent = total > 0 ? Math.round((count / total) * 100) : 0;
           
           return (
             <div key={monthName} className="bg-[#0d1117] border border-[#21262d] rounded-lg p-2">
@@ -739,19 +1588,294 @@ function YearView({ habit, entries }: { habit: Habit; entries: Map<string, numbe
   );
 }
 
+function isValidSchedule(schedule: HabitSchedule): boolean {
+  switch (schedule.type) {
+    case 'daily':
+      return true;
+    case 'weekdays':
+      return schedule.days.length > 0;
+    case 'times_per_period':
+      return schedule.times >= 1;
+    case 'interval':
+      return schedule.every >= 1;
+  }
+}
+
+const SCHEDULE_TYPES: { value: HabitSchedule['type']; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Days' },
+  { value: 'times_per_period', label: 'Times' },
+  { value: 'interval', label: 'Every' },
+];
+
+function defaultSchedule(type: HabitSchedule['type']): HabitSchedule {
+  switch (type) {
+    case 'daily':
+      return DAILY;
+    case 'weekdays':
+      return { type, days: [1, 2, 3, 4, 5] };
+    case 'times_per_period':
+      return { type, times: 3, period: 'week' };
+    case 'interval':
+      return { type, every: 2, start: getToday() };
+  }
+}
+
+// Morning and evening first, which covers the usual two-step habit
+const SUGGESTED_REMINDER_TIMES = ['08:00', '20:00', '12:00'];
+
+function ReminderEditor({ times, isTwoStep, onChange }: { times: string[]; isTwoStep: boolean; onChange: (times: string[]) => void }) {
+  const blocked = !areNotificationsSupported()
+    ? "This browser can't show notifications"
+    : Notification.permission === 'denied'
+      ? 'Notifications are blocked for this site in your browser settings'
+      : null;
+
+  const addTime = () => {
+    onChange([...times, SUGGESTED_REMINDER_TIMES.find(t => !times.includes(t)) ?? '12:00']);
+  };
+
+  return (
+    <div>
+      <label className="text-xs font-medium text-[#8b949e]">Reminders</label>
+      <div className="space-y-1.5 mt-1">
+        {times.map((time, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="time"
+              value={time}
+              onChange={e => onChange(times.map((t, i) => i === index ? e.target.value : t))}
+              className="px-2 py-1.5 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff] [color-scheme:dark]"
+            />
+            <button
+              onClick={() => onChange(times.filter((_, i) => i !== index))}
+              className="p-1 text-[#6e7681] hover:text-[#f85149]"
+              title="Remove reminder"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+        <button onClick={addTime} className="flex items-center gap-1 text-xs text-[#58a6ff] hover:underline">
+          <Bell size={12} /> Add reminder
+        </button>
+      </div>
+      {isTwoStep && times.length > 1 && (
+        <p className="text-[10px] text-[#6e7681] mt-1">The last time is for the second step</p>
+      )}
+      {times.length > 0 && blocked && <p className="text-[10px] text-[#d29922] mt-1">{blocked}</p>}
+      {times.length > 0 && !blocked && (
+        <p className="text-[10px] text-[#6e7681] mt-1">Skipped when the habit is already done that day</p>
+      )}
+    </div>
+  );
+}
+
+function ScheduleEditor({ schedule, onChange }: { schedule: HabitSchedule; onChange: (schedule: HabitSchedule) => void }) {
+  const inputClass = 'w-16 px-2 py-1.5 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff]';
+
+  return (
+    <div>
+      <label className="text-xs font-medium text-[#8b949e]">Schedule</label>
+      <div className="grid grid-cols-4 gap-1.5 mt-1">
+        {SCHEDULE_TYPES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => option.value !== schedule.type && onChange(defaultSchedule(option.value))}
+            className={`py-1.5 text-xs font-medium rounded-lg transition-colors ${
+              schedule.type === option.value ? 'bg-[#238636] text-white' : 'bg-[#21262d] text-[#8b949e] hover:bg-[#30363d]'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {schedule.type === 'weekdays' && (
+        <div className="grid grid-cols-7 gap-1 mt-2">
+          {WEEKDAYS.map((label, day) => {
+            const selected = schedule.days.includes(day);
+            return (
+              <button
+                key={label}
+                onClick={() => onChange({
+                  ...schedule,
+                  days: selected ? schedule.days.filter(d => d !== day) : [...schedule.days, day].sort(),
+                })}
+                className={`py-1 text-[10px] font-medium rounded transition-colors ${
+                  selected ? 'bg-[#30363d] text-[#c9d1d9]' : 'bg-[#0d1117] text-[#484f58] hover:text-[#8b949e]'
+                }`}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {schedule.type === 'times_per_period' && (
+        <div className="flex items-center gap-2 mt-2 text-xs text-[#8b949e]">
+          <input
+            type="number"
+            min={1}
+            value={schedule.times}
+            onChange={e => onChange({ ...schedule, times: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            className={inputClass}
+          />
+          <span>times per</span>
+          <select
+            value={schedule.period}
+            onChange={e => onChange({ ...schedule, period: e.target.value as 'week' | 'month' })}
+            className="px-2 py-1.5 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff]"
+          >
+            <option value="week">week</option>
+            <option value="month">month</option>
+          </select>
+        </div>
+      )}
+
+      {schedule.type === 'interval' && (
+        <div className="flex items-center gap-2 mt-2 text-xs text-[#8b949e]">
+          <span>Every</span>
+          <input
+            type="number"
+            min={1}
+            value={schedule.every}
+            onChange={e => onChange({ ...schedule, every: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            className={inputClass}
+          />
+          <span>days from</span>
+          <input
+            type="date"
+            value={schedule.start}
+            onChange={e => e.target.value && onChange({ ...schedule, start: e.target.value })}
+            className="px-2 py-1.5 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff]"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NoteModal({
+  habit,
+  date,
+  note,
+  onClose,
+  onSave,
+}: {
+  habit: Habit;
+  date: string;
+  note: string;
+  onClose: () => void;
+  onSave: (note: string) => void;
+}) {
+  const [draft, setDraft] = useState(note);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70" onClick={onClose}>
+      <div className="bg-[#161b22] border border-[#30363d] rounded-2xl w-full max-w-sm p-5" onClick={e => e.stopPropagation()}>
+        <h3 className="text-lg font-semibold text-[#c9d1d9]">Note</h3>
+        <p className="text-xs text-[#8b949e] mb-4">{habit.icon} {habit.name} · {date}</p>
+
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          rows={4}
+          autoFocus
+          className="w-full px-3 py-2 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff] resize-none"
+          placeholder="How did it go?"
+        />
+
+        <div className="flex gap-2 mt-5">
+          {note && (
+            <button
+              onClick={() => onSave('')}
+              className="px-3 py-2.5 border border-[#30363d] text-[#f85149] rounded-lg font-medium text-sm hover:bg-[#21262d]"
+              title="Delete note"
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="flex-1 py-2.5 border border-[#30363d] text-[#c9d1d9] rounded-lg font-medium text-sm hover:bg-[#21262d]"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={draft.trim() === note.trim()}
+            className="flex-1 py-2.5 bg-[#238636] text-white rounded-lg font-medium text-sm hover:bg-[#2ea043] disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function HabitModal({ 
   habit, 
+  categories,
+  defaultCategory = DEFAULT_CATEGORY,
   onClose, 
   onSave 
 }: { 
   habit?: Habit; 
+  categories: string[];
+  defaultCategory?: string;
   onClose: () => void; 
-  onSave: (name: string, icon: string, color: string, isTwoStep: boolean) => void;
+  onSave: (data: HabitFormData) => void;
 }) {
   const [name, setName] = useState(habit?.name || '');
   const [icon, setIcon] = useState(habit?.icon || '⭐');
   const [color, setColor] = useState(habit?.color || '#3b82f6');
   const [isTwoStep, setIsTwoStep] = useState(habit?.is_two_step || false);
+  const [type, setType] = useState<HabitFormType>(() => {
+    if (habit && isFastingHabit(habit)) return 'fasting';
+    if (habit && isQuantitative(habit)) return 'amount';
+    return 'check';
+  });
+  const [targetValue, setTargetValue] = useState(
+    habit?.target_value ? String(habit.target_value) : type === 'fasting' ? String(DEFAULT_FASTING_HOURS) : ''
+  );
+  const [unit, setUnit] = useState(habit?.unit || '');
+  const [schedule, setSchedule] = useState<HabitSchedule>(habit?.schedule ?? DAILY);
+  const [category, setCategory] = useState(habit ? getCategory(habit) : defaultCategory);
+  const [reminders, setReminders] = useState<string[]>(habit?.reminders ?? []);
+
+  const target = parseFloat(targetValue);
+  const isValid = !!name && isValidSchedule(schedule) && (
+    type === 'check' ||
+    (type === 'fasting' && target > 0) ||
+    (type === 'amount' && target > 0 && !!unit.trim())
+  );
+
+  const handleSave = () => {
+    const kind: HabitKind = type === 'fasting' ? 'fasting' : 'standard';
+    const reminderTimes = normalizeReminders(reminders);
+    // Asked here, inside the click, since browsers only prompt from a user gesture
+    if (reminderTimes) requestNotificationPermission();
+    onSave({
+      name,
+      icon,
+      color,
+      kind,
+      is_two_step: type === 'check' ? isTwoStep : false,
+      target_value: type === 'check' ? null : target,
+      unit: type === 'amount' ? unit.trim() : null,
+      schedule: schedule.type === 'daily' ? null : schedule,
+      category: normalizeCategory(category),
+      reminders: reminderTimes,
+    });
+  };
+
+  const selectType = (next: HabitFormType) => {
+    setType(next);
+    if (next === 'fasting' && !targetValue) setTargetValue(String(DEFAULT_FASTING_HOURS));
+  };
   
   const colors = ['#ef4444', '#f97316', '#f59e0b', '#eab308', '#84cc16', '#22c55e', '#10b981', '#14b8a6', '#06b6d4', '#0ea5e9', '#3b82f6', '#6366f1', '#8b5cf6', '#a855f7', '#d946ef', '#ec4899', '#f43f5e', '#c9d1d9'];
   
@@ -771,6 +1895,21 @@ function HabitModal({
               placeholder="e.g., Exercise"
             />
           </div>
+
+          <div>
+            <label className="text-xs font-medium text-[#8b949e]">Category</label>
+            <input
+              type="text"
+              list="habit-categories"
+              value={category}
+              onChange={e => setCategory(e.target.value)}
+              className="w-full mt-1 px-3 py-2 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff]"
+              placeholder={DEFAULT_CATEGORY}
+            />
+            <datalist id="habit-categories">
+              {categories.map(c => <option key={c} value={c}>{formatCategory(c)}</option>)}
+            </datalist>
+          </div>
           
           <div className="grid grid-cols-2 gap-3">
             <div>
@@ -790,13 +1929,70 @@ function HabitModal({
                 <input
                   type="checkbox"
                   checked={isTwoStep}
+                  disabled={type !== 'check'}
                   onChange={e => setIsTwoStep(e.target.checked)}
-                  className="w-4 h-4 rounded border-[#30363d] bg-[#0d1117]"
+                  className="w-4 h-4 rounded border-[#30363d] bg-[#0d1117] disabled:opacity-40"
                 />
               </div>
             </div>
           </div>
+
+          <div>
+            <label className="text-xs font-medium text-[#8b949e]">Type</label>
+            <div className="grid grid-cols-3 gap-1.5 mt-1">
+              {HABIT_FORM_TYPES.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => selectType(option.value)}
+                  className={`py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                    type === option.value ? 'bg-[#238636] text-white' : 'bg-[#21262d] text-[#8b949e] hover:bg-[#30363d]'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {type === 'fasting' && (
+              <div className="flex items-center gap-2 mt-2">
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="any"
+                  value={targetValue}
+                  onChange={e => setTargetValue(e.target.value)}
+                  className="w-24 px-3 py-2 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff]"
+                />
+                <span className="text-xs text-[#8b949e]">hour goal</span>
+              </div>
+            )}
+            {type === 'amount' && (
+              <div className="grid grid-cols-2 gap-3 mt-2">
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="any"
+                  value={targetValue}
+                  onChange={e => setTargetValue(e.target.value)}
+                  className="w-full px-3 py-2 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff]"
+                  placeholder="Daily target"
+                />
+                <input
+                  type="text"
+                  value={unit}
+                  onChange={e => setUnit(e.target.value)}
+                  className="w-full px-3 py-2 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff]"
+                  placeholder="Unit (L, pages, km)"
+                />
+              </div>
+            )}
+          </div>
           
+          <ScheduleEditor schedule={schedule} onChange={setSchedule} />
+
+          <ReminderEditor times={reminders} isTwoStep={type === 'check' && isTwoStep} onChange={setReminders} />
+
           <div>
             <label className="text-xs font-medium text-[#8b949e]">Color</label>
             <div className="flex flex-wrap gap-1.5 mt-1.5">
@@ -820,8 +2016,8 @@ function HabitModal({
             Cancel
           </button>
           <button
-            onClick={() => onSave(name, icon, color, isTwoStep)}
-            disabled={!name}
+            onClick={handleSave}
+            disabled={!isValid}
             className="flex-1 py-2.5 bg-[#238636] text-white rounded-lg font-medium text-sm hover:bg-[#2ea043] disabled:opacity-50"
           >
             Save
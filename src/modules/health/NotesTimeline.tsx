@@ -0,0 +1,88 @@
+import { useMemo, useState } from 'react';
+import { Search, StickyNote, X } from 'lucide-react';
+import type { Habit, HabitEntry } from './types';
+
+interface NoteItem {
+  entry: HabitEntry;
+  habit: Habit | undefined;
+}
+
+/**
+ * Entries with a note whose text or habit name matches the query, newest first
+ */
+export function searchNotes(entries: HabitEntry[], habits: Habit[], query: string): NoteItem[] {
+  const habitMap = new Map(habits.map(h => [h.id, h]));
+  const needle = query.trim().toLowerCase();
+
+  return entries
+    .filter(e => e.note && e.note.trim())
+    .map(entry => ({ entry, habit: habitMap.get(entry.habit_id) }))
+    .filter(({ entry, habit }) =>
+      !needle ||
+      entry.note!.toLowerCase().includes(needle) ||
+      (habit?.name.toLowerCase().includes(needle) ?? false)
+    )
+    .sort((a, b) => b.entry.date.localeCompare(a.entry.date));
+}
+
+export function NotesTimeline({
+  entries,
+  habits,
+  onOpen,
+  onClose,
+}: {
+  entries: HabitEntry[];
+  habits: Habit[];
+  onOpen: (habit: Habit, date: string) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => searchNotes(entries, habits, query), [entries, habits, query]);
+
+  return (
+    <div className="mb-4 border border-[#30363d] rounded-xl bg-[#161b22] p-3">
+      <div className="flex items-center gap-2 mb-3">
+        <StickyNote size={16} className="text-[#8b949e]" />
+        <span className="text-sm font-medium text-[#c9d1d9] flex-1">Notes</span>
+        <button onClick={onClose} className="p-1 text-[#6e7681] hover:text-[#c9d1d9]" title="Close notes">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="relative mb-3">
+        <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-[#484f58]" />
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          className="w-full pl-8 pr-3 py-2 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm focus:outline-none focus:border-[#58a6ff]"
+          placeholder="Search notes"
+        />
+      </div>
+
+      {results.length === 0 ? (
+        <p className="text-xs text-[#6e7681] text-center py-4">
+          {query ? 'No notes match your search' : 'Right-click or long-press a day to add a note'}
+        </p>
+      ) : (
+        <ul className="space-y-1 max-h-80 overflow-y-auto">
+          {results.map(({ entry, habit }) => (
+            <li key={entry.id}>
+              <button
+                onClick={() => habit && onOpen(habit, entry.date)}
+                disabled={!habit}
+                className="w-full text-left px-2 py-1.5 rounded-lg hover:bg-[#21262d] disabled:hover:bg-transparent transition-colors"
+              >
+                <div className="flex items-center gap-2 text-xs text-[#6e7681]">
+                  <span>{entry.date}</span>
+                  <span className="truncate">{habit ? `${habit.icon} ${habit.name}` : 'Deleted habit'}</span>
+                </div>
+                <p className="text-sm text-[#c9d1d9] whitespace-pre-wrap break-words">{entry.note}</p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
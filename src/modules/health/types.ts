@@ -1,4 +1,12 @@
 // Local sync types - matches Supabase schema
+export type HabitKind = 'standard' | 'fasting';
+
+export type HabitSchedule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; days: number[] }  // 0 = Sunday
+  | { type: 'times_per_period'; times: number; period: 'week' | 'month' }
+  | { type: 'interval'; every: number; start: string };  // Every N days from start (YYYY-MM-DD)
+
 export interface Habit {
   id: string;
   user_id: string;
@@ -7,6 +15,13 @@ export interface Habit {
   color: string;
   order_index: number;
   is_two_step: boolean;
+  kind?: HabitKind;              // Defaults to 'standard'
+  target_value?: number | null;  // Daily goal: an amount, or hours for fasting
+  unit?: string | null;          // Set for quantitative habits (e.g. "L", "pages")
+  archived?: boolean;            // Hidden from tracking and stats, history kept
+  schedule?: HabitSchedule | null;  // Which days count as due; daily when unset
+  category?: string | null;      // Board grouping; 'general' when unset
+  reminders?: string[] | null;   // Local HH:MM times to send a reminder
   created_at: string;
   updated_at: string;
 }
@@ -18,7 +33,9 @@ export interface HabitEntry {
   date: string;
   value: number;
   fasting_hours?: number;
-  note?: string;
+  fasting_started_at?: string | null;  // Set while a fast is running
+  fasting_ended_at?: string | null;
+  note?: string | null;
   updated_at: string;
 }
 
@@ -43,4 +60,4 @@ export interface LegacyHabit {
   entries: Record<string, LegacyHabitEntry>;
 }
 
-export type ViewMode = 'month' | 'year';
+export type ViewMode = 'month' | 'year' | 'hours';
@@ -1,9 +1,74 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useHabits, useHabitEntries } from '../../hooks/useSync';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Habit, HabitEntry } from '../../lib/sync';
+import { isQuantitative, getTarget, getCompletionRatio, formatQuantity } from '../../lib/habitProgress';
+import { isFastingHabit, findActiveFast } from '../../lib/fasting';
+import { buildAmountMaps, dateRange, getCompletionRate, getBestCurrentStreak, isDueToday } from '../../lib/habitStats';
+
+function getToday(): string {
+  return new Date().toLocaleDateString('en-CA');
+}
+
 export function HomeModule() {
+  const { user } = useAuth();
+  const { habits, isLoading } = useHabits();
+  const { entries, setEntry } = useHabitEntries();
+
+  const today = getToday();
+  const activeHabits = useMemo(() => habits.filter(h => !h.archived), [habits]);
+  const amounts = useMemo(() => buildAmountMaps(activeHabits, entries), [activeHabits, entries]);
+
+  const checklist = useMemo(() => activeHabits.filter(h => isDueToday(h, today)), [activeHabits, today]);
+
+  const todayProgress = useMemo(() => {
+    let done = 0;
+    let ratioSum = 0;
+    checklist.forEach(habit => {
+      const ratio = getCompletionRatio(habit, amounts.get(habit.id)?.get(today) ?? 0);
+      ratioSum += ratio;
+      if (ratio >= 1) done += 1;
+    });
+    return {
+      done,
+      total: checklist.length,
+      percent: checklist.length > 0 ? Math.round((ratioSum / checklist.length) * 100) : 0,
+    };
+  }, [checklist, amounts, today]);
+
+  const weekly = useMemo(() => getCompletionRate(activeHabits, amounts, dateRange(7)), [activeHabits, amounts]);
+  const lastWeek = useMemo(() => getCompletionRate(activeHabits, amounts, dateRange(7, 7)), [activeHabits, amounts]);
+  const weeklyDelta = weekly.percent - lastWeek.percent;
+
+  // Month to date
+  const monthly = useMemo(
+    () => getCompletionRate(activeHabits, amounts, dateRange(new Date().getDate())),
+    [activeHabits, amounts]
+  );
+
+  const bestStreak = useMemo(() => getBestCurrentStreak(activeHabits, amounts, today), [activeHabits, amounts, today]);
+
+  const findEntry = useCallback((habitId: string, date: string) => {
+    return entries.find(e => e.habit_id === habitId && e.date === date);
+  }, [entries]);
+
+  const toggleHabit = useCallback(async (habit: Habit) => {
+    const current = amounts.get(habit.id)?.get(today) ?? 0;
+    const value = habit.is_two_step ? (current + 1) % 3 : current === 1 ? 0 : 1;
+    await setEntry(habit.id, today, { value, note: findEntry(habit.id, today)?.note });
+  }, [amounts, today, findEntry, setEntry]);
+
+  const setAmount = useCallback(async (habit: Habit, amount: number) => {
+    await setEntry(habit.id, today, { value: Math.max(0, amount), note: findEntry(habit.id, today)?.note });
+  }, [today, findEntry, setEntry]);
+
+  const displayName = user?.email ? user.email.split('@')[0] : '';
+
   return (
     <div className="space-y-6">
       {/* Welcome Message */}
       <div className="bg-gradient-to-r from-[#1f6feb]/20 to-transparent border border-[#30363d] rounded-xl p-6">
-        <h1 className="text-2xl font-bold text-[#c9d1d9]">Welcome back, Mausam! 👋</h1>
+        <h1 className="text-2xl font-bold text-[#c9d1d9]">Welcome back{displayName ? `, ${displayName}` : ''}! 👋</h1>
         <p className="text-[#8b949e] mt-1">Here's your personal overview for today.</p>
       </div>
 
@@ -17,25 +82,136 @@ export function HomeModule() {
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
           <div className="text-sm text-[#8b949e] mb-1">Current Streak</div>
-          <div className="text-xl font-bold text-[#c9d1d9]">12 days</div>
-          <div className="text-xs text-green-400">🔥 Keep it up!</div>
+          <div className="text-xl font-bold text-[#c9d1d9]">
+            {bestStreak ? `${bestStreak.current} day${bestStreak.current === 1 ? '' : 's'}` : '0 days'}
+          </div>
+          <div className="text-xs text-green-400 truncate">
+            {bestStreak ? `🔥 ${bestStreak.habit.icon} ${bestStreak.habit.name}` : <span className="text-[#6e7681]">Tick a habit to start one</span>}
+          </div>
         </div>
         <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
           <div className="text-sm text-[#8b949e] mb-1">Habits Today</div>
-          <div className="text-xl font-bold text-[#c9d1d9]">5/8</div>
-          <div className="text-xs text-[#58a6ff]">62% complete</div>
+          <div className="text-xl font-bold text-[#c9d1d9]">{todayProgress.done}/{todayProgress.total}</div>
+          <div className="text-xs text-[#58a6ff]">{todayProgress.percent}% complete</div>
         </div>
         <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
           <div className="text-sm text-[#8b949e] mb-1">Weekly Rate</div>
-          <div className="text-xl font-bold text-[#c9d1d9]">78%</div>
-          <div className="text-xs text-green-400">↑ 5% vs last week</div>
+          <div className="text-xl font-bold text-[#c9d1d9]">{weekly.percent}%</div>
+          <div className={`text-xs ${weeklyDelta > 0 ? 'text-green-400' : weeklyDelta < 0 ? 'text-[#f85149]' : 'text-[#6e7681]'}`}>
+            {weeklyDelta > 0 ? `↑ ${weeklyDelta}%` : weeklyDelta < 0 ? `↓ ${-weeklyDelta}%` : 'No change'} vs last week
+          </div>
         </div>
         <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
           <div className="text-sm text-[#8b949e] mb-1">Monthly Progress</div>
-          <div className="text-xl font-bold text-[#c9d1d9]">68%</div>
-          <div className="text-xs text-[#6e7681]">On track 🎯</div>
+          <div className="text-xl font-bold text-[#c9d1d9]">{monthly.percent}%</div>
+          <div className="text-xs text-[#6e7681]">{monthly.count} of {monthly.total} due days</div>
+        </div>
+      </div>
+
+      {/* Today's Checklist */}
+      <div className="bg-[#161b22] border border-[#30363d] rounded-xl p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-[#c9d1d9]">Today's checklist</h3>
+          <span className="text-xs text-[#8b949e]">{today}</span>
         </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#58a6ff]" />
+          </div>
+        ) : checklist.length === 0 ? (
+          <p className="text-sm text-[#6e7681] text-center py-6">Nothing due today</p>
+        ) : (
+          <ul className="divide-y divide-[#21262d]">
+            {checklist.map(habit => (
+              <ChecklistRow
+                key={habit.id}
+                habit={habit}
+                value={amounts.get(habit.id)?.get(today) ?? 0}
+                activeFast={isFastingHabit(habit) ? findActiveFast(entries.filter(e => e.habit_id === habit.id)) : null}
+                onToggle={() => toggleHabit(habit)}
+                onSetAmount={(amount) => setAmount(habit, amount)}
+              />
+            ))}
+          </ul>
+        )}
       </div>
     </div>
   );
 }
+
+function ChecklistRow({
+  habit,
+  value,
+  activeFast,
+  onToggle,
+  onSetAmount,
+}: {
+  habit: Habit;
+  value: number;
+  activeFast: HabitEntry | null;
+  onToggle: () => void;
+  onSetAmount: (amount: number) => void;
+}) {
+  const ratio = getCompletionRatio(habit, value);
+
+  return (
+    <li className="flex items-center gap-3 py-2">
+      <span className="text-xl shrink-0">{habit.icon}</span>
+      <span className={`flex-1 truncate text-sm ${ratio >= 1 ? 'text-[#8b949e] line-through' : 'text-[#c9d1d9]'}`}>
+        {habit.name}
+      </span>
+
+      {isFastingHabit(habit) ? (
+        // Fasts are started and stopped from the Health tab
+        <span className="text-xs text-[#8b949e]">
+          {activeFast ? 'Fasting…' : value > 0 ? formatQuantity(value, 'h') : 'Not started'}
+        </span>
+      ) : isQuantitative(habit) ? (
+        <AmountField key={value} value={value} habit={habit} onSave={onSetAmount} />
+      ) : (
+        <button
+          onClick={onToggle}
+          className={`w-7 h-7 rounded border-2 flex items-center justify-center text-xs font-bold transition-colors ${
+            ratio >= 1
+              ? 'bg-[#238636] border-[#238636] text-white'
+              : ratio > 0
+                ? 'bg-[#238636]/40 border-[#238636] text-white'
+                : 'bg-transparent border-[#30363d] hover:border-[#484f58]'
+          }`}
+          title={habit.is_two_step ? 'Tap again for the second step' : undefined}
+        >
+          {ratio >= 1 ? '✓' : ratio > 0 ? '½' : ''}
+        </button>
+      )}
+    </li>
+  );
+}
+
+function AmountField({ value, habit, onSave }: { value: number; habit: Habit; onSave: (amount: number) => void }) {
+  const [draft, setDraft] = useState(value ? String(value) : '');
+
+  const save = () => {
+    const amount = parseFloat(draft);
+    const next = Number.isFinite(amount) ? amount : 0;
+    if (next !== value) onSave(next);
+  };
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <input
+        type="number"
+        inputMode="decimal"
+        min={0}
+        step="any"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={save}
+        onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        className="w-16 px-2 py-1 bg-[#0d1117] border border-[#30363d] rounded-lg text-[#c9d1d9] text-sm text-right focus:outline-none focus:border-[#58a6ff]"
+        placeholder="0"
+      />
+      <span className="text-xs text-[#6e7681] whitespace-nowrap">/ {formatQuantity(getTarget(habit), habit.unit)}</span>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+-- Enable Supabase Realtime for cross-device updates
+
+-- Publish row changes for both tables
+ALTER PUBLICATION supabase_realtime ADD TABLE habits;
+ALTER PUBLICATION supabase_realtime ADD TABLE habit_entries;
+
+-- Include the full old row on UPDATE so the user_id filter can match it.
+-- Filtered subscriptions never receive DELETEs whatever the replica identity,
+-- so the client listens for deletes unfiltered; with RLS on, Realtime sends
+-- only the deleted row's primary key, which is all the client needs
+ALTER TABLE habits REPLICA IDENTITY FULL;
+ALTER TABLE habit_entries REPLICA IDENTITY FULL;
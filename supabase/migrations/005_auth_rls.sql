@@ -0,0 +1,33 @@
+-- Re-enable per-user access now that the app signs in with Supabase Auth
+-- (002_cloud_first_schema.sql dropped RLS for the fixed user ID mode)
+
+-- ============================================
+-- ROW LEVEL SECURITY POLICIES
+-- ============================================
+
+ALTER TABLE habits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE habit_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only access their own habits" ON habits;
+CREATE POLICY "Users can only access their own habits"
+  ON habits FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can only access their own entries" ON habit_entries;
+CREATE POLICY "Users can only access their own entries"
+  ON habit_entries FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ============================================
+-- EXISTING DATA
+-- ============================================
+
+-- Rows created in fixed user ID mode belong to 895cd28a-37ea-443c-b7bb-eca88c857d05.
+-- To keep them, reassign them to your auth user after first sign-in:
+--   UPDATE habits SET user_id = '<your auth.users id>' WHERE user_id = '895cd28a-37ea-443c-b7bb-eca88c857d05';
+--   UPDATE habit_entries
+--     SET user_id = '<your auth.users id>',
+--         id = '<your auth.users id>' || substring(id from 37)
+--     WHERE user_id = '895cd28a-37ea-443c-b7bb-eca88c857d05';
@@ -0,0 +1,4 @@
+-- Quantitative habits: allow fractional amounts (e.g. 2.5 km, 1.5 L)
+
+ALTER TABLE habits ALTER COLUMN target_value TYPE NUMERIC USING target_value::NUMERIC;
+ALTER TABLE habit_entries ALTER COLUMN value TYPE NUMERIC USING value::NUMERIC;
@@ -0,0 +1,11 @@
+-- Fasting as a habit kind with timed fasts
+
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS kind VARCHAR(20) DEFAULT 'standard';
+
+-- Fasting used to be detected by name
+UPDATE habits SET kind = 'fasting' WHERE lower(name) = 'fasting';
+
+-- Start/stop timestamps; fasting_hours becomes fractional
+ALTER TABLE habit_entries ADD COLUMN IF NOT EXISTS fasting_started_at TIMESTAMPTZ;
+ALTER TABLE habit_entries ADD COLUMN IF NOT EXISTS fasting_ended_at TIMESTAMPTZ;
+ALTER TABLE habit_entries ALTER COLUMN fasting_hours TYPE NUMERIC USING fasting_hours::NUMERIC;
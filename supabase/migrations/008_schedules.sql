@@ -0,0 +1,7 @@
+-- Habit schedules: which days a habit is due
+-- NULL means daily. Otherwise one of:
+--   { "type": "weekdays", "days": [1, 3, 5] }
+--   { "type": "times_per_period", "times": 3, "period": "week" }
+--   { "type": "interval", "every": 2, "start": "2026-01-01" }
+
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS schedule JSONB;
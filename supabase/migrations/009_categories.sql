@@ -0,0 +1,8 @@
+-- Habit categories: the board groups and filters habits by this
+-- Older schemas (schema.sql) never had the column; seeded rows already use
+-- health, fitness, nutrition, wellness, learning, lifestyle, discipline
+
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS category VARCHAR(50) DEFAULT 'general';
+
+UPDATE habits SET category = 'general' WHERE category IS NULL OR trim(category) = '';
+UPDATE habits SET category = lower(trim(category)) WHERE category <> lower(trim(category));
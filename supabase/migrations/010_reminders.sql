@@ -0,0 +1,7 @@
+-- Per-habit reminder times, shown as notifications by the service worker
+-- NULL means no reminders. Otherwise a sorted list of local times, e.g.
+--   ["08:00", "21:30"]
+-- Two-step habits use the earlier times for the first step and the last
+-- one for the second.
+
+ALTER TABLE habits ADD COLUMN IF NOT EXISTS reminders JSONB;
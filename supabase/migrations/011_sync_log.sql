@@ -0,0 +1,40 @@
+-- Sync event log, written by the app when VITE_SYNC_LOG_REMOTE=true
+-- 002_cloud_first_schema.sql dropped the old debug-only sync_log; this one
+-- mirrors the client's SyncEvent (src/lib/syncLog.ts). Successful polls are
+-- not uploaded, so rows are writes and failures.
+
+CREATE TABLE IF NOT EXISTS sync_log (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL,
+    occurred_at TIMESTAMPTZ NOT NULL,
+    operation VARCHAR(30) NOT NULL,      -- upsert_entry, list_habits, ...
+    table_name VARCHAR(30),              -- habits | habit_entries
+    entry_id TEXT,                       -- Habit id or user:habit:date entry id
+    duration_ms INTEGER NOT NULL,
+    outcome VARCHAR(20) NOT NULL,        -- success | queued | failed | superseded | dead_letter
+    error_code VARCHAR(50),
+    error_message TEXT,
+    attempt INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_log_user_time ON sync_log(user_id, occurred_at DESC);
+
+-- ============================================
+-- ROW LEVEL SECURITY POLICIES
+-- ============================================
+
+ALTER TABLE sync_log ENABLE ROW LEVEL SECURITY;
+
+-- Append and read only; nobody edits their own telemetry
+DROP POLICY IF EXISTS "Users can add their own sync log" ON sync_log;
+CREATE POLICY "Users can add their own sync log"
+  ON sync_log FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can read their own sync log" ON sync_log;
+CREATE POLICY "Users can read their own sync log"
+  ON sync_log FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Trim old rows from time to time, e.g.
+--   DELETE FROM sync_log WHERE occurred_at < NOW() - INTERVAL '30 days';
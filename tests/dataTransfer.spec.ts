@@ -0,0 +1,66 @@
+import { test, expect } from '@playwright/test';
+import { EXPORT_FORMAT, EXPORT_VERSION, parseImportFile, planImport } from '../src/lib/dataTransfer';
+import { entry, habit } from './helpers';
+
+function exportWithSchedule(schedule: unknown): string {
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: '2026-01-01T00:00:00.000Z',
+    backend: 'memory',
+    habits: [{ id: 'h1', name: 'Read', schedule }],
+    entries: [],
+  });
+}
+
+test.describe('schedule validation', () => {
+  test('accepts every well-formed variant', () => {
+    const schedules = [
+      null,
+      { type: 'daily' },
+      { type: 'weekdays', days: [1, 3, 5] },
+      { type: 'times_per_period', times: 3, period: 'week' },
+      { type: 'interval', every: 2, start: '2026-01-01' },
+    ];
+    schedules.forEach(schedule => {
+      const { data, errors } = parseImportFile(exportWithSchedule(schedule));
+      expect(errors).toEqual([]);
+      expect(data?.habits[0].schedule).toEqual(schedule);
+    });
+  });
+
+  test('reports each malformed field', () => {
+    const cases: [unknown, string[]][] = [
+      ['daily', ['habits[0].schedule must be an object']],
+      [{ type: 'hourly' }, ['habits[0].schedule.type must be "daily", "weekdays", "times_per_period" or "interval"']],
+      [{ type: 'weekdays' }, ['habits[0].schedule.days must be a list of weekdays 0-6']],
+      [{ type: 'weekdays', days: [1, 7] }, ['habits[0].schedule.days must be a list of weekdays 0-6']],
+      [{ type: 'weekdays', days: [1.5] }, ['habits[0].schedule.days must be a list of weekdays 0-6']],
+      [{ type: 'times_per_period', times: 0, period: 'year' }, [
+        'habits[0].schedule.times must be a whole number of at least 1',
+        'habits[0].schedule.period must be "week" or "month"',
+      ]],
+      [{ type: 'interval', every: '2', start: '01/01/2026' }, [
+        'habits[0].schedule.every must be a whole number of at least 1',
+        'habits[0].schedule.start must be YYYY-MM-DD',
+      ]],
+    ];
+    cases.forEach(([schedule, expected]) => {
+      const { data, errors } = parseImportFile(exportWithSchedule(schedule));
+      expect(data).toBeNull();
+      expect(errors).toEqual(expected);
+    });
+  });
+});
+
+test.describe('planImport', () => {
+  test('an entry whose fasting window moved counts as updated', () => {
+    const started = entry('h1', '2026-01-01', { fasting_hours: 16, fasting_started_at: '2025-12-31T20:00:00.000Z', fasting_ended_at: '2026-01-01T12:00:00.000Z' });
+    const current = { habits: [habit()], entries: [started] };
+    const moved = { ...started, fasting_started_at: '2025-12-31T21:00:00.000Z', fasting_ended_at: '2026-01-01T13:00:00.000Z' };
+
+    const plan = planImport(current, { habits: [habit()], entries: [moved] }, 'merge');
+    expect(plan.entries.updated).toEqual([moved]);
+    expect(planImport(current, current, 'merge').entries.unchanged).toBe(1);
+  });
+});
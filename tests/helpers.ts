@@ -0,0 +1,54 @@
+// Shared fixtures for the specs under tests/, which run in Node without a browser
+import type { Habit, HabitEntry } from '../src/lib/sync';
+import { LOCAL_USER_ID } from '../src/lib/supabase';
+
+const CREATED_AT = '2026-01-01T00:00:00.000Z';
+
+/**
+ * Give Node a localStorage (the outbox, conflicts and sync log live there).
+ * Returns the backing map so specs can clear or inspect it.
+ */
+export function installLocalStorage(): Map<string, string> {
+  const storage = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+    removeItem: (key: string) => { storage.delete(key); },
+    clear: () => storage.clear(),
+    key: (index: number) => [...storage.keys()][index] ?? null,
+    get length() { return storage.size; },
+  };
+  return storage;
+}
+
+export function habit(id = 'h1', overrides: Partial<Habit> = {}): Habit {
+  return {
+    id,
+    user_id: LOCAL_USER_ID,
+    name: `Habit ${id}`,
+    icon: '⭐',
+    color: '#6366f1',
+    order_index: 0,
+    is_two_step: false,
+    created_at: CREATED_AT,
+    updated_at: CREATED_AT,
+    ...overrides,
+  };
+}
+
+/**
+ * An entry with the user:habit:date id sync.ts generates (for the
+ * overridden user, if any)
+ */
+export function entry(habitId = 'h1', date = '2026-01-01', overrides: Partial<HabitEntry> = {}): HabitEntry {
+  const userId = overrides.user_id ?? LOCAL_USER_ID;
+  return {
+    id: `${userId}:${habitId}:${date}`,
+    user_id: userId,
+    habit_id: habitId,
+    date,
+    value: 1,
+    updated_at: CREATED_AT,
+    ...overrides,
+  };
+}
@@ -0,0 +1,137 @@
+import { readFileSync } from 'node:fs';
+import { test, expect } from '@playwright/test';
+import { readImportSources } from '../src/lib/importers';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+const file = (name: string, contents: string | Uint8Array) => new File([contents as BlobPart], name);
+
+test.describe('Loop Habit Tracker backup', () => {
+  test('maps habits, schedules, reminders and check-ins', async () => {
+    const result = await readImportSources([file('Loop Habits Backup.db', fixture('loop-backup.db'))]);
+    expect(result.importer?.id).toBe('loop');
+    expect(result.errors).toEqual([]);
+
+    const [meditation, water] = result.data!.habits;
+    expect(meditation).toMatchObject({ id: 'loop:1', name: 'Meditation', icon: '🧘', unit: null, schedule: null, reminders: ['07:30'] });
+    expect(water).toMatchObject({
+      id: 'loop:2',
+      name: 'Water',
+      unit: 'L',
+      target_value: 2.5,
+      schedule: { type: 'times_per_period', times: 3, period: 'week' },
+      reminders: null,
+    });
+
+    const entries = result.data!.entries;
+    // Only manual check-ins count; every third Meditation day is YES_AUTO
+    expect(entries.filter(e => e.habit_id === 'loop:1')).toHaveLength(201);
+    expect(entries.find(e => e.habit_id === 'loop:1' && e.date === '2025-01-01')).toBeUndefined();
+    expect(entries.find(e => e.habit_id === 'loop:1' && e.date === '2025-01-02')?.value).toBe(1);
+    expect(entries.find(e => e.habit_id === 'loop:1' && e.date === '2025-10-28')?.note).toBe('Long sit. '.repeat(200));
+    expect(entries.filter(e => e.habit_id === 'loop:2').every(e => e.value === 2.5)).toBe(true);
+  });
+
+  test('skips nameless habits and their check-ins', async () => {
+    const result = await readImportSources([file('Loop Habits Backup.db', fixture('loop-backup.db'))]);
+    expect(result.data!.habits.map(h => h.id)).toEqual(['loop:1', 'loop:2']);
+    expect(result.data!.entries.some(e => e.habit_id === 'loop:3')).toBe(false);
+    expect(result.warnings).toEqual(['Skipped habit 3 - it has no name']);
+  });
+
+  test('reports a damaged backup instead of throwing', async () => {
+    const result = await readImportSources([file('Loop Habits Backup.db', fixture('loop-backup.db').subarray(0, 2048))]);
+    expect(result.data).toBeNull();
+    expect(result.errors[0]).toMatch(/^Couldn't read Loop Habits Backup\.db: /);
+  });
+});
+
+test.describe('Loop Habit Tracker CSV export', () => {
+  test('reads the top-level Checkmarks.csv from the ZIP', async () => {
+    const result = await readImportSources([file('Loop Habits CSV 2026-01-03.zip', fixture('loop-csv-export.zip'))]);
+    expect(result.importer?.id).toBe('loop');
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual(['Skipped Habits.csv row 4 - it has no name']);
+
+    expect(result.data!.habits.map(h => h.name)).toEqual(['Meditation', 'Water']);
+    expect(result.data!.habits[1]).toMatchObject({ unit: 'L', target_value: 2.5, color: '#3b82f6' });
+    expect(result.data!.entries.map(e => [e.habit_id, e.date, e.value])).toEqual([
+      ['loop:0', '2026-01-03', 1],
+      ['loop:1', '2026-01-02', 2.5],
+      ['loop:0', '2026-01-01', 1],
+      ['loop:1', '2026-01-01', 1.5],
+    ]);
+  });
+
+  test('survives a Habits.csv without a Name column', async () => {
+    const result = await readImportSources([
+      file('Habits.csv', 'Position,Type\n001,YES_NO\n'),
+      file('Checkmarks.csv', 'Date,Meditation\n2026-01-01,2\n'),
+    ]);
+    expect(result.data).toEqual({ habits: [], entries: [] });
+    expect(result.warnings).toEqual([
+      'Skipped Habits.csv row 2 - it has no name',
+      'Skipped column "meditation" - not in Habits.csv',
+    ]);
+  });
+
+  test('needs both Habits.csv and Checkmarks.csv', async () => {
+    const result = await readImportSources([file('Habits.csv', 'Position,Name\n001,Meditation\n')]);
+    expect(result.data).toBeNull();
+    expect(result.errors).toEqual(['Loop CSV export needs both Habits.csv and Checkmarks.csv']);
+  });
+
+  test('reports an archive that cannot be unpacked', async () => {
+    const result = await readImportSources([file('export.zip', fixture('loop-csv-export.zip').subarray(0, 100))]);
+    expect(result.data).toBeNull();
+    expect(result.errors).toEqual(["Couldn't unpack export.zip: Not a valid ZIP archive"]);
+  });
+});
+
+test.describe('generic CSV', () => {
+  test('groups rows by habit and turns amounts into a target', async () => {
+    const result = await readImportSources([file('log.csv', [
+      'date,habit,value,note',
+      '2026-01-01,Reading,,',
+      '2026-01-02,reading,yes,Good book',
+      '2026-01-01,Water,2,',
+      '2026-01-02,Water,3,',
+      '2026-01-03,Water,4,',
+      '2026-01-03,Water,0,',
+    ].join('\n'))]);
+    expect(result.importer?.id).toBe('generic-csv');
+    expect(result.errors).toEqual([]);
+
+    const [reading, water] = result.data!.habits;
+    expect(reading).toMatchObject({ id: 'csv:reading', name: 'Reading', unit: null, target_value: null });
+    expect(water).toMatchObject({ id: 'csv:water', unit: 'count', target_value: 3 });
+    expect(result.data!.entries.map(e => [e.habit_id, e.date, e.value, e.note])).toEqual([
+      ['csv:reading', '2026-01-01', 1, null],
+      ['csv:reading', '2026-01-02', 1, 'Good book'],
+      ['csv:water', '2026-01-01', 2, null],
+      ['csv:water', '2026-01-02', 3, null],
+    ]);
+  });
+
+  test('reports rows without a name, date or usable value', async () => {
+    const result = await readImportSources([file('log.csv', [
+      'date,name,value',
+      '2026-01-01,,1',
+      'someday,Reading,1',
+      '2026-01-01,Reading,lots',
+      '2026-01-01,Reading,-1',
+    ].join('\n'))]);
+    expect(result.data).toBeNull();
+    expect(result.errors).toEqual([
+      'Row 2: needs a date and a habit name',
+      'Row 3: needs a date and a habit name',
+      'Row 4: "lots" is not a valid value',
+      'Row 5: "-1" is not a valid value',
+    ]);
+  });
+
+  test('rejects files no importer recognises', async () => {
+    const result = await readImportSources([file('notes.txt', 'hello')]);
+    expect(result.importer).toBeNull();
+    expect(result.errors[0]).toMatch(/^Unrecognised file\. Supported: /);
+  });
+});
@@ -0,0 +1,260 @@
+import { test, expect } from '@playwright/test';
+import { adoptLegacyRows, runMigrations, MIGRATIONS, LATEST_SCHEMA_VERSION, type Migration, type MigrationStore } from '../src/lib/migrations';
+import type { Habit, HabitEntry } from '../src/lib/sync';
+import { LEGACY_USER_ID, LOCAL_USER_ID } from '../src/lib/supabase';
+import { entry, habit } from './helpers';
+
+function createStore(options: {
+  version?: number;
+  habits?: Habit[];
+  entries?: HabitEntry[];
+  storage?: Record<string, string>;
+} = {}) {
+  const state = {
+    version: options.version ?? 1,
+    habits: options.habits ?? [],
+    entries: options.entries ?? [],
+    storage: new Map(Object.entries(options.storage ?? {})),
+    saves: 0,
+    failSave: false,
+    snapshots: [] as { habits: Habit[]; entries: HabitEntry[] }[],
+    failSnapshot: false,
+  };
+
+  const store: MigrationStore = {
+    userId: LOCAL_USER_ID,
+    async loadCache() {
+      return { habits: state.habits, entries: state.entries };
+    },
+    async saveCache(habits, entries) {
+      if (state.failSave) throw new Error('disk full');
+      state.habits = habits;
+      state.entries = entries;
+      state.saves += 1;
+    },
+    getItem: (key) => state.storage.get(key) ?? null,
+    setItem: (key, value) => { state.storage.set(key, value); },
+    removeItem: (key) => { state.storage.delete(key); },
+    getVersion: () => state.version,
+    setVersion: (version) => { state.version = version; },
+    async snapshot(habits, entries) {
+      if (state.failSnapshot) throw new Error('quota exceeded');
+      state.snapshots.push({ habits, entries });
+    },
+  };
+
+  return { store, state };
+}
+
+test.describe('runMigrations', () => {
+  test('applies every migration from a fresh install and records the version', async () => {
+    const { store, state } = createStore();
+    const result = await runMigrations(store);
+
+    expect(result).toEqual({ success: true, applied: MIGRATIONS.length, version: LATEST_SCHEMA_VERSION, errors: [] });
+    expect(state.version).toBe(LATEST_SCHEMA_VERSION);
+  });
+
+  test('does nothing when already up to date', async () => {
+    const { store, state } = createStore({ version: LATEST_SCHEMA_VERSION, habits: [habit('h1', { name: 'Fasting' })] });
+    const result = await runMigrations(store);
+
+    expect(result.applied).toBe(0);
+    expect(state.saves).toBe(0);
+    expect(state.habits[0].kind).toBe(undefined);
+  });
+
+  test('is idempotent when run twice', async () => {
+    const { store, state } = createStore({ habits: [habit('h1', { name: 'Fasting' })] });
+    await runMigrations(store);
+    const saves = state.saves;
+    const second = await runMigrations(store);
+
+    expect(second.applied).toBe(0);
+    expect(state.saves).toBe(saves);
+  });
+
+  test('runs only the steps above the stored version, in order', async () => {
+    const order: number[] = [];
+    const migrations: Migration[] = [2, 3, 4].map(version => ({
+      version,
+      name: `step ${version}`,
+      up: () => { order.push(version); },
+    }));
+    const { store } = createStore({ version: 2 });
+    const result = await runMigrations(store, migrations);
+
+    expect(order).toEqual([3, 4]);
+    expect(result.version).toBe(4);
+  });
+
+  test('rejects a registry that is out of order', async () => {
+    const { store, state } = createStore();
+    const result = await runMigrations(store, [
+      { version: 3, name: 'b', up: () => {} },
+      { version: 2, name: 'a', up: () => {} },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.applied).toBe(0);
+    expect(state.version).toBe(1);
+  });
+
+  test('skips everything when nobody is signed in', async () => {
+    const result = await runMigrations(null);
+    expect(result).toEqual({ success: true, applied: 0, version: 1, errors: [] });
+  });
+});
+
+test.describe('transactions', () => {
+  test('a throwing step leaves cache, storage and version untouched and stops the run', async () => {
+    const later: number[] = [];
+    const migrations: Migration[] = [
+      {
+        version: 2,
+        name: 'half done',
+        up(ctx) {
+          ctx.habits.push(habit('h2'));
+          ctx.storage.remove('keep-me');
+          throw new Error('boom');
+        },
+      },
+      { version: 3, name: 'after', up: () => { later.push(3); } },
+    ];
+    const { store, state } = createStore({ habits: [habit()], storage: { 'keep-me': 'x' } });
+    const result = await runMigrations(store, migrations);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['2 (half done): boom']);
+    expect(state.habits).toHaveLength(1);
+    expect(state.storage.get('keep-me')).toBe('x');
+    expect(state.version).toBe(1);
+    expect(later).toEqual([]);
+  });
+
+  test('a failed cache write keeps storage and version, and the step retries next run', async () => {
+    const { store, state } = createStore({
+      habits: [habit('h1', { name: 'Fasting' })],
+      storage: { 'master-mausam-data-v2': JSON.stringify({ habits: [habit('h2')], entries: [] }) },
+    });
+    state.failSave = true;
+    const failed = await runMigrations(store);
+
+    expect(failed.success).toBe(false);
+    expect(failed.applied).toBe(0);
+    expect(state.storage.has('master-mausam-data-v2')).toBe(true);
+    expect(state.version).toBe(1);
+
+    state.failSave = false;
+    const retried = await runMigrations(store);
+
+    expect(retried.success).toBe(true);
+    expect(state.habits.map(h => h.id)).toEqual(['h1', 'h2']);
+    expect(state.storage.has('master-mausam-data-v2')).toBe(false);
+  });
+});
+
+test.describe('snapshots', () => {
+  test('snapshots the cache once before migrating', async () => {
+    const { store, state } = createStore({ habits: [habit('h1', { name: 'Fasting' })] });
+    await runMigrations(store);
+
+    expect(state.snapshots).toHaveLength(1);
+    expect(state.snapshots[0].habits[0].kind).toBe(undefined);
+  });
+
+  test('takes no snapshot when there is nothing to migrate', async () => {
+    const { store, state } = createStore({ version: LATEST_SCHEMA_VERSION, habits: [habit()] });
+    await runMigrations(store);
+
+    expect(state.snapshots).toHaveLength(0);
+  });
+
+  test('does not migrate when the snapshot fails', async () => {
+    const { store, state } = createStore({ habits: [habit('h1', { name: 'Fasting' })] });
+    state.failSnapshot = true;
+    const result = await runMigrations(store);
+
+    expect(result.success).toBe(false);
+    expect(result.applied).toBe(0);
+    expect(state.version).toBe(1);
+    expect(state.habits[0].kind).toBe(undefined);
+  });
+});
+
+test.describe('built-in migrations', () => {
+  test('imports the v2 blob for this user without overwriting cached rows', async () => {
+    const blob = {
+      habits: [habit('h1', { name: 'Stale copy' }), habit('h2', { name: 'Running' }), habit('h3', { user_id: 'someone-else' })],
+      entries: [entry('h1', '2026-01-01', { value: 0 }), entry('h2'), entry('h1', '2026-01-01', { user_id: 'someone-else' })],
+    };
+    const { store, state } = createStore({
+      habits: [habit()],
+      entries: [entry()],
+      storage: { 'master-mausam-data-v2': JSON.stringify(blob), 'master-mausam-data': '{}', 'unrelated': 'x' },
+    });
+    await runMigrations(store);
+
+    expect(state.habits.map(h => h.name)).toEqual(['Habit h1', 'Running']);
+    expect(state.entries.map(e => [e.habit_id, e.value])).toEqual([['h1', 1], ['h2', 1]]);
+    expect(state.storage.has('master-mausam-data-v2')).toBe(false);
+    expect(state.storage.has('master-mausam-data')).toBe(false);
+    expect(state.storage.get('unrelated')).toBe('x');
+  });
+
+  test('adopts v2 blob rows saved under the old fixed user id', async () => {
+    const blob = {
+      habits: [habit('h1', { user_id: LEGACY_USER_ID })],
+      entries: [entry('h1', '2026-01-01', { user_id: LEGACY_USER_ID, value: 4 })],
+    };
+    const { store, state } = createStore({ storage: { 'master-mausam-data-v2': JSON.stringify(blob) } });
+    await runMigrations(store);
+
+    expect(state.habits).toEqual([habit('h1')]);
+    expect(state.entries).toEqual([entry('h1', '2026-01-01', { value: 4 })]);
+    expect(state.storage.has('master-mausam-data-v2')).toBe(false);
+  });
+
+  test('drops an unreadable v2 blob', async () => {
+    const { store, state } = createStore({ storage: { 'master-mausam-data-v2': '{not json' } });
+    const result = await runMigrations(store);
+
+    expect(result.success).toBe(true);
+    expect(state.storage.has('master-mausam-data-v2')).toBe(false);
+  });
+
+  test('removes the pre-sync storage keys', async () => {
+    const { store, state } = createStore({
+      storage: { 'masterMausam.health.habits.v1': '[]', 'habit-tracker-v5': '{}' },
+    });
+    await runMigrations(store);
+
+    expect(state.storage.size).toBe(0);
+  });
+
+  test('marks legacy "Fasting" habits as fasting kind but respects an explicit kind', async () => {
+    const { store, state } = createStore({
+      habits: [
+        habit('a', { name: ' fasting ' }),
+        habit('b', { name: 'Fasting', kind: 'standard' }),
+        habit('c', { name: 'Intermittent fasting' }),
+      ],
+    });
+    await runMigrations(store);
+
+    expect(state.habits.map(h => h.kind)).toEqual(['fasting', 'standard', undefined]);
+  });
+});
+
+test.describe('adoptLegacyRows', () => {
+  test('hands legacy rows to the user with regenerated entry ids and drops other users\' rows', () => {
+    const adopted = adoptLegacyRows(
+      [habit('h1', { user_id: LEGACY_USER_ID }), habit('h2'), habit('h3', { user_id: 'someone-else' })],
+      [entry('h1', '2026-01-01', { user_id: LEGACY_USER_ID }), entry('h2'), entry('h3', '2026-01-01', { user_id: 'someone-else' })],
+      LOCAL_USER_ID
+    );
+
+    expect(adopted.habits).toEqual([habit('h1'), habit('h2')]);
+    expect(adopted.entries).toEqual([entry('h1'), entry('h2')]);
+  });
+});
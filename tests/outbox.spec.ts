@@ -0,0 +1,197 @@
+import { test, expect } from '@playwright/test';
+import {
+  enqueueOperation,
+  getOutbox,
+  getDeadLetters,
+  requeueDeadLetter,
+  MAX_ATTEMPTS,
+  type PendingOperation,
+} from '../src/lib/outbox';
+import { flushPendingChanges, setRepository } from '../src/lib/sync';
+import { createMemoryRepository } from '../src/lib/memoryRepository';
+import type { HabitRepository } from '../src/lib/repository';
+import { LOCAL_USER_ID } from '../src/lib/supabase';
+import { entry, habit, installLocalStorage } from './helpers';
+
+const storage = installLocalStorage();
+
+function describe(op: PendingOperation): string {
+  switch (op.kind) {
+    case 'upsert_habit': return `upsert_habit ${op.habit.id}`;
+    case 'delete_habit': return `delete_habit ${op.habitId}`;
+    case 'reorder_habits': return 'reorder_habits';
+    case 'upsert_entry': return `upsert_entry ${op.entry.habit_id} ${op.entry.date}`;
+    case 'delete_entry': return `delete_entry ${op.entryId.split(':').slice(1).join(' ')}`;
+  }
+}
+
+/**
+ * Memory repository whose entry upserts fail while `failure` is set
+ */
+function createFlakyRepository() {
+  const inner = createMemoryRepository();
+  const state = { failure: null as unknown, upserts: [] as string[] };
+  const repo: HabitRepository = {
+    ...inner,
+    async upsertHabit(h) {
+      state.upserts.push(`habit ${h.id}`);
+      return inner.upsertHabit(h);
+    },
+    async upsertEntry(e) {
+      if (state.failure) throw state.failure;
+      state.upserts.push(`entry ${e.habit_id} ${e.date}`);
+      return inner.upsertEntry(e);
+    },
+  };
+  return { repo, inner, state };
+}
+
+test.beforeEach(() => {
+  storage.clear();
+  setRepository(null);
+});
+
+test.describe('collapsing writes', () => {
+  test('a newer write to a queued habit keeps its place ahead of the habit\'s entries', () => {
+    enqueueOperation({ kind: 'upsert_habit', habit: habit('h1') });
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h1', '2026-01-01') });
+    enqueueOperation({ kind: 'upsert_habit', habit: habit('h1', { name: 'Renamed' }) });
+
+    const queue = getOutbox();
+    expect(queue.map(describe)).toEqual(['upsert_habit h1', 'upsert_entry h1 2026-01-01']);
+    expect(queue[0].kind === 'upsert_habit' && queue[0].habit.name).toBe('Renamed');
+  });
+
+  test('a re-upserted entry stays ahead of a later habit delete', () => {
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h2', '2026-01-01') });
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h1', '2026-01-01') });
+    enqueueOperation({ kind: 'delete_habit', habitId: 'h2' });
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h1', '2026-01-01', { value: 2 }) });
+
+    expect(getOutbox().map(describe)).toEqual(['upsert_entry h1 2026-01-01', 'delete_habit h2']);
+  });
+
+  test('deleting a habit drops its queued entry writes and takes the habit\'s place', () => {
+    enqueueOperation({ kind: 'upsert_habit', habit: habit('h1') });
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h1', '2026-01-01') });
+    enqueueOperation({ kind: 'delete_entry', entryId: entry('h1', '2026-01-02').id });
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h2', '2026-01-01') });
+    enqueueOperation({ kind: 'delete_habit', habitId: 'h1' });
+
+    expect(getOutbox().map(describe)).toEqual(['delete_habit h1', 'upsert_entry h2 2026-01-01']);
+  });
+
+  test('reorders are never collapsed', () => {
+    enqueueOperation({ kind: 'reorder_habits', habitIds: ['a', 'b'], updated_at: '2026-01-01T00:00:00.000Z' });
+    enqueueOperation({ kind: 'reorder_habits', habitIds: ['b', 'a'], updated_at: '2026-01-01T00:00:01.000Z' });
+    expect(getOutbox()).toHaveLength(2);
+  });
+});
+
+test.describe('replay after a failure', () => {
+  test('a connectivity failure stops the replay and keeps everything queued in order', async () => {
+    const { repo, state } = createFlakyRepository();
+    setRepository(repo);
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h1', '2026-01-01') });
+    enqueueOperation({ kind: 'upsert_habit', habit: habit('h2') });
+
+    state.failure = new TypeError('Failed to fetch');
+    expect(await flushPendingChanges()).toBe(2);
+    expect(getOutbox().map(op => op.attempts)).toEqual([1, 0]);
+    expect(state.upserts).toEqual([]);
+
+    state.failure = null;
+    expect(await flushPendingChanges({ force: true })).toBe(0);
+    expect(state.upserts).toEqual(['entry h1 2026-01-01', 'habit h2']);
+  });
+
+  test('connectivity failures never use up the attempts', async () => {
+    const { repo, state } = createFlakyRepository();
+    setRepository(repo);
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h1', '2026-01-01') });
+
+    state.failure = new TypeError('Failed to fetch');
+    for (let i = 0; i < MAX_ATTEMPTS + 2; i++) await flushPendingChanges({ force: true });
+
+    expect(getOutbox()).toHaveLength(1);
+    expect(getDeadLetters()).toEqual([]);
+  });
+
+  test('a rejected write is dead-lettered and the rest of the queue still goes out', async () => {
+    const { repo, inner, state } = createFlakyRepository();
+    setRepository(repo);
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('missing', '2026-01-01') });
+    enqueueOperation({ kind: 'upsert_habit', habit: habit('h2') });
+
+    state.failure = { code: '23503', message: 'violates foreign key constraint' };
+    expect(await flushPendingChanges()).toBe(0);
+
+    expect((await inner.listHabits(LOCAL_USER_ID)).map(h => h.id)).toEqual(['h2']);
+    const [deadLetter] = getDeadLetters();
+    expect(describe(deadLetter)).toBe('upsert_entry missing 2026-01-01');
+    expect(deadLetter.reason).toBe('rejected');
+    expect(deadLetter.last_error).toBe('violates foreign key constraint');
+  });
+
+  test('a REST 4xx is a rejection but a 5xx is retried', async () => {
+    const { repo, state } = createFlakyRepository();
+    setRepository(repo);
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h1', '2026-01-01') });
+
+    state.failure = Object.assign(new Error('REST PUT failed with 503'), { status: 503 });
+    await flushPendingChanges();
+    expect(getOutbox()).toHaveLength(1);
+
+    state.failure = Object.assign(new Error('REST PUT failed with 422'), { status: 422 });
+    await flushPendingChanges({ force: true });
+    expect(getOutbox()).toHaveLength(0);
+    expect(getDeadLetters()[0].reason).toBe('rejected');
+  });
+
+  test('other failures are dead-lettered after the maximum attempts', async () => {
+    const { repo, state } = createFlakyRepository();
+    setRepository(repo);
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h1', '2026-01-01') });
+
+    state.failure = new Error('Internal error');
+    for (let i = 1; i < MAX_ATTEMPTS; i++) {
+      expect(await flushPendingChanges({ force: true })).toBe(1);
+    }
+    expect(await flushPendingChanges({ force: true })).toBe(0);
+    expect(getDeadLetters()[0]).toMatchObject({ reason: 'max_attempts', attempts: MAX_ATTEMPTS });
+  });
+
+  test('a retried dead letter goes to the back of the queue with fresh attempts', async () => {
+    const { repo, state } = createFlakyRepository();
+    setRepository(repo);
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h1', '2026-01-01') });
+    state.failure = { code: '23503', message: 'violates foreign key constraint' };
+    await flushPendingChanges();
+
+    state.failure = null;
+    setRepository(null);
+    enqueueOperation({ kind: 'upsert_habit', habit: habit('h1') });
+    expect(requeueDeadLetter(getDeadLetters()[0].id)).toBe(2);
+    expect(getOutbox().map(describe)).toEqual(['upsert_habit h1', 'upsert_entry h1 2026-01-01']);
+    expect(getOutbox()[1].attempts).toBe(0);
+    expect(Object.keys(getOutbox()[1]).sort()).toEqual(['attempts', 'created_at', 'entry', 'id', 'kind', 'next_attempt_at']);
+    expect(getDeadLetters()).toEqual([]);
+
+    setRepository(repo);
+    expect(await flushPendingChanges()).toBe(0);
+    expect(state.upserts).toEqual(['habit h1', 'entry h1 2026-01-01']);
+  });
+
+  test('a dead letter is dropped instead of requeued when a newer write to the row is queued', async () => {
+    const { repo, state } = createFlakyRepository();
+    setRepository(repo);
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h1', '2026-01-01') });
+    state.failure = { code: '23503', message: 'violates foreign key constraint' };
+    await flushPendingChanges();
+
+    setRepository(null);
+    enqueueOperation({ kind: 'upsert_entry', entry: entry('h1', '2026-01-01', { value: 3 }) });
+    expect(requeueDeadLetter(getDeadLetters()[0].id)).toBe(1);
+    expect(getDeadLetters()).toEqual([]);
+  });
+});
@@ -0,0 +1,257 @@
+import { test, expect } from '@playwright/test';
+import type { Habit, HabitEntry } from '../src/lib/sync';
+import type { HabitRepository } from '../src/lib/repository';
+import { createMemoryRepository } from '../src/lib/memoryRepository';
+import { createRestRepository } from '../src/lib/restRepository';
+import { applyRowChange, createLocalChangeFeed, type RowChange } from '../src/lib/changeFeed';
+import { LOCAL_USER_ID } from '../src/lib/supabase';
+import { entry, habit } from './helpers';
+
+const ALICE = LOCAL_USER_ID;
+const BOB = 'user-bob';
+const REST_URL = 'https://habits.example.test/api/';
+const REST_TOKEN = 'secret-token';
+
+/**
+ * fetch() that serves the API restRepository.ts documents, backed by a
+ * memory repository, so the REST client can run the same contract
+ */
+function createFakeRestServer(): typeof fetch {
+  const store = createMemoryRepository();
+  const json = (data: unknown) => Response.json(data);
+  const noContent = () => new Response(null, { status: 204 });
+
+  return async (input, init) => {
+    const url = new URL(String(input));
+    const method = init?.method ?? 'GET';
+    const headers = (init?.headers ?? {}) as Record<string, string>;
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+    const [resource, rawId] = url.pathname.replace(/^\/api\//, '').split('/');
+    const id = rawId === undefined ? undefined : decodeURIComponent(rawId);
+    const userId = headers['X-User-Id'];
+
+    if (resource === 'health') return json({ ok: true });
+    if (headers.Authorization !== `Bearer ${REST_TOKEN}`) return new Response(null, { status: 401 });
+    if (!userId) return new Response(null, { status: 400 });
+
+    if (resource === 'habits') {
+      if (method === 'GET' && !id) return json(await store.listHabits(userId));
+      if (method === 'POST' && id === 'reorder') {
+        await store.reorderHabits(userId, body.habit_ids, body.updated_at);
+        return noContent();
+      }
+      if (method === 'PUT' && id) return json(await store.upsertHabit(body));
+      if (method === 'DELETE' && id) {
+        await store.deleteHabit(userId, id);
+        return noContent();
+      }
+    }
+    if (resource === 'entries') {
+      if (method === 'GET' && !id) {
+        return json(await store.listEntries(userId, {
+          habitId: url.searchParams.get('habit_id') ?? undefined,
+          date: url.searchParams.get('date') ?? undefined,
+        }));
+      }
+      if (method === 'GET' && id) {
+        const found = await store.getEntry(userId, id);
+        return found ? json(found) : new Response(null, { status: 404 });
+      }
+      if (method === 'PUT' && id) return json(await store.upsertEntry(body));
+      if (method === 'DELETE' && id) {
+        await store.deleteEntry(userId, id);
+        return noContent();
+      }
+    }
+    return new Response(null, { status: 404 });
+  };
+}
+
+const backends: { name: string; create: () => HabitRepository }[] = [
+  { name: 'memory', create: () => createMemoryRepository() },
+  {
+    name: 'rest',
+    create: () => {
+      globalThis.fetch = createFakeRestServer();
+      return createRestRepository(REST_URL, REST_TOKEN);
+    },
+  },
+];
+
+const realFetch = globalThis.fetch;
+test.afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+for (const backend of backends) {
+  test.describe(`${backend.name} repository contract`, () => {
+    let repo: HabitRepository;
+    test.beforeEach(() => {
+      repo = backend.create();
+    });
+
+    test('is reachable', async () => {
+      expect(await repo.ping()).toBe(true);
+    });
+
+    test('lists only the user\'s habits, in order', async () => {
+      expect(await repo.listHabits(ALICE)).toEqual([]);
+      await repo.upsertHabit(habit('b', { order_index: 1 }));
+      await repo.upsertHabit(habit('a', { order_index: 0 }));
+      await repo.upsertHabit(habit('c', { user_id: BOB }));
+
+      expect((await repo.listHabits(ALICE)).map(h => h.id)).toEqual(['a', 'b']);
+      expect((await repo.listHabits(BOB)).map(h => h.id)).toEqual(['c']);
+    });
+
+    test('upserting a habit returns the saved row and replaces the old one', async () => {
+      expect(await repo.upsertHabit(habit('a'))).toEqual(habit('a'));
+      const renamed = habit('a', { name: 'Renamed', updated_at: '2026-01-02T00:00:00.000Z' });
+      expect(await repo.upsertHabit(renamed)).toEqual(renamed);
+      expect(await repo.listHabits(ALICE)).toEqual([renamed]);
+    });
+
+    test('deleting a habit removes it and its entries only', async () => {
+      await repo.upsertHabit(habit('a'));
+      await repo.upsertHabit(habit('b'));
+      await repo.upsertEntry(entry('a', '2026-01-01'));
+      await repo.upsertEntry(entry('b', '2026-01-01'));
+
+      await repo.deleteHabit(ALICE, 'a');
+      expect((await repo.listHabits(ALICE)).map(h => h.id)).toEqual(['b']);
+      expect((await repo.listEntries(ALICE)).map(e => e.habit_id)).toEqual(['b']);
+    });
+
+    test('a user can\'t delete someone else\'s habit', async () => {
+      await repo.upsertHabit(habit('c', { user_id: BOB }));
+      await repo.deleteHabit(ALICE, 'c');
+      expect(await repo.listHabits(BOB)).toHaveLength(1);
+    });
+
+    test('reordering sets the order and timestamp of the user\'s habits', async () => {
+      await repo.upsertHabit(habit('a', { order_index: 0 }));
+      await repo.upsertHabit(habit('b', { order_index: 1 }));
+      await repo.upsertHabit(habit('c', { user_id: BOB, order_index: 5 }));
+
+      await repo.reorderHabits(ALICE, ['b', 'a', 'c'], '2026-01-03T00:00:00.000Z');
+      const habits = await repo.listHabits(ALICE);
+      expect(habits.map(h => [h.id, h.order_index, h.updated_at])).toEqual([
+        ['b', 0, '2026-01-03T00:00:00.000Z'],
+        ['a', 1, '2026-01-03T00:00:00.000Z'],
+      ]);
+      expect((await repo.listHabits(BOB))[0].order_index).toBe(5);
+    });
+
+    test('lists entries by habit and date', async () => {
+      await repo.upsertEntry(entry('a', '2026-01-01'));
+      await repo.upsertEntry(entry('a', '2026-01-02'));
+      await repo.upsertEntry(entry('b', '2026-01-01'));
+      await repo.upsertEntry(entry('a', '2026-01-01', { user_id: BOB }));
+
+      const ids = (entries: HabitEntry[]) => entries.map(e => e.id).sort();
+      expect(ids(await repo.listEntries(ALICE))).toEqual([
+        `${ALICE}:a:2026-01-01`, `${ALICE}:a:2026-01-02`, `${ALICE}:b:2026-01-01`,
+      ]);
+      expect(ids(await repo.listEntries(ALICE, { habitId: 'a' }))).toEqual([`${ALICE}:a:2026-01-01`, `${ALICE}:a:2026-01-02`]);
+      expect(ids(await repo.listEntries(ALICE, { date: '2026-01-01' }))).toEqual([`${ALICE}:a:2026-01-01`, `${ALICE}:b:2026-01-01`]);
+      expect(ids(await repo.listEntries(ALICE, { habitId: 'b', date: '2026-01-02' }))).toEqual([]);
+    });
+
+    test('gets, replaces and deletes a single entry', async () => {
+      const first = entry('a', '2026-01-01');
+      expect(await repo.getEntry(ALICE, first.id)).toBeNull();
+
+      expect(await repo.upsertEntry(first)).toEqual(first);
+      const updated = { ...first, value: 3, note: 'Extra', updated_at: '2026-01-02T00:00:00.000Z' };
+      expect(await repo.upsertEntry(updated)).toEqual(updated);
+      expect(await repo.getEntry(ALICE, first.id)).toEqual(updated);
+      expect(await repo.getEntry(BOB, first.id)).toBeNull();
+
+      await repo.deleteEntry(ALICE, first.id);
+      expect(await repo.getEntry(ALICE, first.id)).toBeNull();
+      await repo.deleteEntry(ALICE, first.id);
+    });
+  });
+}
+
+test.describe('rest repository', () => {
+  test('reports HTTP failures with their status, and a failed health check as unreachable', async () => {
+    globalThis.fetch = async () => new Response(null, { status: 503 });
+    const repo = createRestRepository(REST_URL, REST_TOKEN);
+    await expect(repo.listHabits(ALICE)).rejects.toMatchObject({ status: 503, message: 'REST GET /habits failed with 503' });
+    expect(await repo.ping()).toBe(false);
+  });
+
+  test('has no change feed', () => {
+    expect(createRestRepository(REST_URL).createChangeFeed(ALICE)).toBeNull();
+  });
+});
+
+test.describe('memory repository change feed', () => {
+  test('echoes each user\'s own writes', async () => {
+    const repo = createMemoryRepository();
+    const changes: RowChange<HabitEntry>[] = [];
+    const unsubscribe = repo.createChangeFeed(ALICE)!.subscribe<HabitEntry>('habit_entries', change => changes.push(change));
+
+    const first = entry('a', '2026-01-01');
+    await repo.upsertEntry(first);
+    await repo.upsertEntry({ ...first, value: 2 });
+    await repo.upsertEntry(entry('a', '2026-01-01', { user_id: BOB }));
+    await repo.deleteEntry(ALICE, first.id);
+    unsubscribe();
+    await repo.upsertEntry(first);
+
+    expect(changes.map(c => [c.type, c.new?.value ?? null, c.old?.value ?? null])).toEqual([
+      ['INSERT', 1, null],
+      ['UPDATE', 2, 1],
+      ['DELETE', null, 2],
+    ]);
+  });
+
+  test('reports deleting a habit as deletes of its entries, then the habit', async () => {
+    const repo = createMemoryRepository({ habits: [habit('a')], entries: [entry('a', '2026-01-01')] });
+    const feed = repo.createChangeFeed(ALICE)!;
+    const seen: string[] = [];
+    const stopHabits = feed.subscribe<Habit>('habits', change => seen.push(`habits ${change.type} ${change.old?.id}`));
+    const stopEntries = feed.subscribe<HabitEntry>('habit_entries', change => seen.push(`habit_entries ${change.type} ${change.old?.id}`));
+
+    await repo.deleteHabit(ALICE, 'a');
+    stopHabits();
+    stopEntries();
+    expect(seen).toEqual([`habit_entries DELETE ${ALICE}:a:2026-01-01`, 'habits DELETE a']);
+  });
+});
+
+test.describe('local change feed', () => {
+  test('delivers emitted changes per table until unsubscribed', () => {
+    const feed = createLocalChangeFeed();
+    const habits: RowChange<Habit>[] = [];
+    const unsubscribe = feed.subscribe<Habit>('habits', change => habits.push(change));
+
+    feed.emit<Habit>('habits', { type: 'INSERT', new: habit('a'), old: null });
+    feed.emit<HabitEntry>('habit_entries', { type: 'INSERT', new: entry('a', '2026-01-01'), old: null });
+    unsubscribe();
+    feed.emit<Habit>('habits', { type: 'DELETE', new: null, old: { id: 'a' } });
+
+    expect(habits).toEqual([{ type: 'INSERT', new: habit('a'), old: null }]);
+  });
+
+  test('reports the live state on subscribe and when it changes', () => {
+    const feed = createLocalChangeFeed(false);
+    const live: boolean[] = [];
+    const unsubscribe = feed.subscribe('habits', () => {}, state => live.push(state));
+
+    feed.setLive(true);
+    unsubscribe();
+    feed.setLive(false);
+    expect(live).toEqual([false, true]);
+  });
+
+  test('applies changes to a list of rows', () => {
+    const rows = [habit('a'), habit('b')];
+    expect(applyRowChange(rows, { type: 'INSERT', new: habit('c'), old: null }).map(h => h.id)).toEqual(['a', 'b', 'c']);
+    expect(applyRowChange(rows, { type: 'UPDATE', new: habit('a', { name: 'Renamed' }), old: { id: 'a' } })).toContainEqual(habit('a', { name: 'Renamed' }));
+    expect(applyRowChange(rows, { type: 'DELETE', new: null, old: { id: 'a' } })).toEqual([habit('b')]);
+    expect(applyRowChange(rows, { type: 'DELETE', new: null, old: null })).toBe(rows);
+  });
+});
@@ -0,0 +1,47 @@
+import { readFileSync } from 'node:fs';
+import { test, expect } from '@playwright/test';
+import { isSqlite, openSqlite } from '../src/lib/sqlite';
+
+// Loop Habit Tracker schema with 1KB pages, so Repetitions spans interior
+// pages and one long note spills onto overflow pages
+const backup = new Uint8Array(readFileSync(new URL('./fixtures/loop-backup.db', import.meta.url)));
+
+test.describe('isSqlite', () => {
+  test('recognises the file header', () => {
+    expect(isSqlite(backup)).toBe(true);
+    expect(isSqlite(backup.subarray(0, 99))).toBe(false);
+    expect(isSqlite(new TextEncoder().encode('Date,Habit\n'.repeat(20)))).toBe(false);
+  });
+});
+
+test.describe('openSqlite', () => {
+  test('lists tables but not indexes', () => {
+    const db = openSqlite(backup);
+    expect(db.tableNames()).toEqual(['Habits', 'sqlite_sequence', 'Repetitions']);
+  });
+
+  test('reads rows by column name with the rowid filled in', () => {
+    const [meditation, water, unnamed] = openSqlite(backup).readTable('habits');
+    expect(meditation).toMatchObject({ id: 1, name: 'Meditation', color: 7, freq_num: 1, freq_den: 1, reminder_hour: 7, reminder_min: 30, type: 0 });
+    expect(water).toMatchObject({ id: 2, name: 'Water', type: 1, target_value: 2.5, unit: 'L', reminder_hour: null });
+    expect(unnamed).toMatchObject({ id: 3, name: '', archived: 1 });
+  });
+
+  test('walks every page of a multi-level table in rowid order', () => {
+    const rows = openSqlite(backup).readTable('Repetitions');
+    expect(rows).toHaveLength(452);
+    expect(rows.map(r => r.id)).toEqual(rows.map((_, i) => i + 1));
+    expect(rows[0]).toMatchObject({ habit: 1, timestamp: Date.UTC(2025, 0, 1), value: 1, notes: null });
+  });
+
+  test('follows overflow pages for long values', () => {
+    const note = openSqlite(backup).readTable('Repetitions').find(r => typeof r.notes === 'string');
+    expect(note?.notes).toBe('Long sit. '.repeat(200));
+  });
+
+  test('rejects anything that is not a readable database', () => {
+    expect(() => openSqlite(new Uint8Array(200))).toThrow('Not a SQLite database');
+    expect(() => openSqlite(backup).readTable('Checkmarks')).toThrow('Table Checkmarks not found');
+    expect(() => openSqlite(backup.slice(0, 2048)).readTable('Repetitions')).toThrow();
+  });
+});
@@ -0,0 +1,174 @@
+import { test, expect } from '@playwright/test';
+
+// Use a zone with DST so the clock-change cases actually cross one.
+// Must be set before any Date is created.
+process.env.TZ = 'America/New_York';
+
+import { calculateStreaks } from '../src/lib/streaks';
+import type { Habit, HabitSchedule } from '../src/lib/sync';
+
+type StreakHabit = Pick<Habit, 'is_two_step' | 'kind' | 'target_value' | 'unit' | 'schedule'>;
+
+function habit(overrides: Partial<StreakHabit> = {}): StreakHabit {
+  return { is_two_step: false, kind: 'standard', target_value: null, unit: null, schedule: null, ...overrides };
+}
+
+function values(dates: string[], value = 1): Map<string, number> {
+  return new Map(dates.map(date => [date, value]));
+}
+
+test.describe('calculateStreaks', () => {
+  test('returns zeros without any completions', () => {
+    expect(calculateStreaks(habit(), new Map(), '2026-05-10')).toEqual({ current: 0, best: 0, runs: [] });
+  });
+
+  test('counts consecutive days up to today', () => {
+    const result = calculateStreaks(habit(), values(['2026-05-08', '2026-05-09', '2026-05-10']), '2026-05-10');
+    expect(result.current).toBe(3);
+    expect(result.best).toBe(3);
+    expect(result.runs).toEqual([{ start: '2026-05-08', end: '2026-05-10', length: 3 }]);
+  });
+
+  test('does not break the current streak before today is logged', () => {
+    const result = calculateStreaks(habit(), values(['2026-05-08', '2026-05-09']), '2026-05-10');
+    expect(result.current).toBe(2);
+  });
+
+  test('a missed day ends the streak and keeps it in history', () => {
+    const entries = values(['2026-05-01', '2026-05-02', '2026-05-03', '2026-05-05', '2026-05-06']);
+    const result = calculateStreaks(habit(), entries, '2026-05-06');
+    expect(result.current).toBe(2);
+    expect(result.best).toBe(3);
+    expect(result.runs).toEqual([
+      { start: '2026-05-01', end: '2026-05-03', length: 3 },
+      { start: '2026-05-05', end: '2026-05-06', length: 2 },
+    ]);
+  });
+
+  test('current is 0 once yesterday was missed', () => {
+    const result = calculateStreaks(habit(), values(['2026-05-07', '2026-05-08']), '2026-05-10');
+    expect(result.current).toBe(0);
+    expect(result.best).toBe(2);
+  });
+
+  test('ignores entries after today', () => {
+    const result = calculateStreaks(habit(), values(['2026-05-10', '2026-05-12']), '2026-05-10');
+    expect(result.runs).toEqual([{ start: '2026-05-10', end: '2026-05-10', length: 1 }]);
+  });
+
+  test('zero values do not count as completions', () => {
+    const entries = new Map([['2026-05-09', 1], ['2026-05-10', 0]]);
+    expect(calculateStreaks(habit(), entries, '2026-05-10').current).toBe(1);
+  });
+});
+
+test.describe('two-step habits', () => {
+  test('half-done days keep the streak alive and count as half', () => {
+    const entries = new Map([['2026-05-08', 2], ['2026-05-09', 1], ['2026-05-10', 2]]);
+    const result = calculateStreaks(habit({ is_two_step: true }), entries, '2026-05-10');
+    expect(result.current).toBe(2.5);
+    expect(result.runs).toHaveLength(1);
+  });
+});
+
+test.describe('schedules', () => {
+  const monWedFri: HabitSchedule = { type: 'weekdays', days: [1, 3, 5] };
+
+  test('rest days between due weekdays do not break the streak', () => {
+    // Mon 4, Wed 6, Fri 8 May 2026
+    const entries = values(['2026-05-04', '2026-05-06', '2026-05-08']);
+    const result = calculateStreaks(habit({ schedule: monWedFri }), entries, '2026-05-10');
+    expect(result.current).toBe(3);
+  });
+
+  test('a missed due weekday breaks the streak', () => {
+    const entries = values(['2026-05-04', '2026-05-08']);
+    const result = calculateStreaks(habit({ schedule: monWedFri }), entries, '2026-05-10');
+    expect(result.current).toBe(1);
+    expect(result.best).toBe(1);
+  });
+
+  test('interval schedules only expect every Nth day', () => {
+    const everyOther: HabitSchedule = { type: 'interval', every: 2, start: '2026-05-01' };
+    const entries = values(['2026-05-01', '2026-05-03', '2026-05-05']);
+    expect(calculateStreaks(habit({ schedule: everyOther }), entries, '2026-05-06').current).toBe(3);
+  });
+
+  test('times per week breaks only after a week falls short', () => {
+    const threePerWeek: HabitSchedule = { type: 'times_per_period', times: 3, period: 'week' };
+    // Week of Mon 4 May: 3 runs. Week of Mon 11 May: only 1, so it ends on Sun 17 May.
+    const entries = values(['2026-05-04', '2026-05-07', '2026-05-09', '2026-05-12', '2026-05-19']);
+    const result = calculateStreaks(habit({ schedule: threePerWeek }), entries, '2026-05-20');
+    expect(result.runs).toEqual([
+      { start: '2026-05-04', end: '2026-05-12', length: 4 },
+      { start: '2026-05-19', end: '2026-05-19', length: 1 },
+    ]);
+    expect(result.current).toBe(1);
+  });
+
+  test('the week in progress never breaks a times-per-week streak', () => {
+    const twoPerWeek: HabitSchedule = { type: 'times_per_period', times: 2, period: 'week' };
+    const entries = values(['2026-05-04', '2026-05-05', '2026-05-11']);
+    expect(calculateStreaks(habit({ schedule: twoPerWeek }), entries, '2026-05-15').current).toBe(3);
+  });
+});
+
+test.describe('calendar boundaries', () => {
+  test('continues across a month boundary', () => {
+    const result = calculateStreaks(habit(), values(['2026-01-30', '2026-01-31', '2026-02-01']), '2026-02-01');
+    expect(result.current).toBe(3);
+  });
+
+  test('continues through Feb 29 in a leap year', () => {
+    const result = calculateStreaks(habit(), values(['2024-02-28', '2024-02-29', '2024-03-01']), '2024-03-01');
+    expect(result.current).toBe(3);
+  });
+
+  test('a missing Feb 29 breaks the streak in a leap year', () => {
+    const result = calculateStreaks(habit(), values(['2024-02-28', '2024-03-01']), '2024-03-01');
+    expect(result.current).toBe(1);
+  });
+
+  test('continues across a year boundary', () => {
+    const result = calculateStreaks(habit(), values(['2025-12-30', '2025-12-31', '2026-01-01']), '2026-01-01');
+    expect(result.current).toBe(3);
+  });
+
+  test('times per month checks the month that just ended', () => {
+    const twicePerMonth: HabitSchedule = { type: 'times_per_period', times: 2, period: 'month' };
+    const entries = values(['2026-01-05', '2026-01-20', '2026-02-03']);
+    expect(calculateStreaks(habit({ schedule: twicePerMonth }), entries, '2026-02-10').current).toBe(3);
+
+    const shortJanuary = values(['2026-01-20', '2026-02-03']);
+    expect(calculateStreaks(habit({ schedule: twicePerMonth }), shortJanuary, '2026-02-10').current).toBe(1);
+  });
+});
+
+test.describe('daylight saving time', () => {
+  test('the spring-forward day is neither skipped nor doubled', () => {
+    // Clocks go forward on 8 Mar 2026 in New York (a 23-hour day)
+    const result = calculateStreaks(habit(), values(['2026-03-07', '2026-03-08', '2026-03-09']), '2026-03-09');
+    expect(result.current).toBe(3);
+    expect(result.runs).toHaveLength(1);
+  });
+
+  test('the fall-back day is neither skipped nor doubled', () => {
+    // Clocks go back on 1 Nov 2026 in New York (a 25-hour day)
+    const result = calculateStreaks(habit(), values(['2026-10-31', '2026-11-01', '2026-11-02']), '2026-11-02');
+    expect(result.current).toBe(3);
+  });
+
+  test('missing the spring-forward day still breaks the streak', () => {
+    const result = calculateStreaks(habit(), values(['2026-03-07', '2026-03-09']), '2026-03-09');
+    expect(result.current).toBe(1);
+  });
+
+  test('weekday schedules resolve the right weekday across DST', () => {
+    // Sun 8 Mar and Sun 1 Nov 2026 are both DST change days
+    const sundays: HabitSchedule = { type: 'weekdays', days: [0] };
+    const spring = values(['2026-03-01', '2026-03-08', '2026-03-15']);
+    expect(calculateStreaks(habit({ schedule: sundays }), spring, '2026-03-15').current).toBe(3);
+    const fall = values(['2026-10-25', '2026-11-01', '2026-11-08']);
+    expect(calculateStreaks(habit({ schedule: sundays }), fall, '2026-11-08').current).toBe(3);
+  });
+});
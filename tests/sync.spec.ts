@@ -0,0 +1,281 @@
+import 'fake-indexeddb/auto';
+import { test, expect } from '@playwright/test';
+import { enqueueOperation, getOutbox } from '../src/lib/outbox';
+import {
+  flushPendingChanges,
+  getConflicts,
+  getHabitEntries,
+  hasNoHabits,
+  setChangeFeed,
+  setRepository,
+  subscribeToEntryChanges,
+  subscribeToHabitChanges,
+  type Habit,
+  type HabitEntry,
+} from '../src/lib/sync';
+import { clearCache, getCachedEntries, getCachedEntry, getCachedHabits, putCachedEntries, putCachedHabits } from '../src/lib/localDb';
+import { createMemoryRepository } from '../src/lib/memoryRepository';
+import { applyRowChange, createLocalChangeFeed, type RowChange } from '../src/lib/changeFeed';
+import { LOCAL_USER_ID } from '../src/lib/supabase';
+import { entry, habit, installLocalStorage } from './helpers';
+
+const storage = installLocalStorage();
+
+const EARLIER = '2026-01-01T08:00:00.000Z';
+const LATER = '2026-01-01T09:00:00.000Z';
+
+// Every conflict case is about one habit's entry, differing in value and timestamp
+function version(value: number, updatedAt: string, date = '2026-01-01'): HabitEntry {
+  return entry('h1', date, { value, updated_at: updatedAt });
+}
+
+function queueUpsert(e: HabitEntry): void {
+  enqueueOperation({ kind: 'upsert_entry', entry: e });
+}
+
+function queueDelete(e: HabitEntry, updatedAt: string): void {
+  enqueueOperation({ kind: 'delete_entry', entryId: e.id, updated_at: updatedAt });
+}
+
+test.beforeEach(async () => {
+  storage.clear();
+  setRepository(null);
+  setChangeFeed(undefined);
+  await clearCache();
+});
+
+test.describe('reading entries with queued edits', () => {
+  test('a queued edit newer than the cloud row wins', async () => {
+    setRepository(createMemoryRepository({ entries: [version(1, EARLIER)] }));
+    queueUpsert(version(3, LATER));
+
+    expect(await getHabitEntries()).toEqual([version(3, LATER)]);
+    expect(await getCachedEntries()).toEqual([version(3, LATER)]);
+    expect(getConflicts()).toEqual([]);
+  });
+
+  test('a cloud row newer than the queued edit wins and is recorded as a conflict', async () => {
+    setRepository(createMemoryRepository({ entries: [version(2, LATER)] }));
+    queueUpsert(version(3, EARLIER));
+
+    expect(await getHabitEntries()).toEqual([version(2, LATER)]);
+    expect(await getCachedEntries()).toEqual([version(2, LATER)]);
+    const [conflict] = getConflicts();
+    expect(conflict).toMatchObject({ entry_id: version(0, LATER).id, local: version(3, EARLIER), remote: version(2, LATER) });
+  });
+
+  test('equal timestamps go to the queued edit', async () => {
+    setRepository(createMemoryRepository({ entries: [version(2, EARLIER)] }));
+    queueUpsert(version(3, EARLIER));
+
+    expect(await getHabitEntries()).toEqual([version(3, EARLIER)]);
+    expect(getConflicts()).toEqual([]);
+  });
+
+  test('a queued edit to a row deleted in the cloud is still shown', async () => {
+    setRepository(createMemoryRepository());
+    queueUpsert(version(3, EARLIER));
+
+    expect(await getHabitEntries()).toEqual([version(3, EARLIER)]);
+    expect(getConflicts()).toEqual([]);
+  });
+
+  test('a queued delete hides an older cloud row but loses to a newer one', async () => {
+    const kept = version(2, LATER, '2026-01-02');
+    setRepository(createMemoryRepository({ entries: [version(1, EARLIER), kept] }));
+    queueDelete(version(1, EARLIER), LATER);
+    queueDelete(kept, EARLIER);
+
+    expect(await getHabitEntries()).toEqual([kept]);
+    expect(await getCachedEntries()).toEqual([kept]);
+    const [conflict] = getConflicts();
+    expect(conflict).toMatchObject({ entry_id: kept.id, local: null, remote: kept });
+  });
+
+  test('the same lost edit is only recorded once', async () => {
+    setRepository(createMemoryRepository({ entries: [version(2, LATER)] }));
+    queueUpsert(version(3, EARLIER));
+
+    await getHabitEntries();
+    await getHabitEntries();
+    expect(getConflicts()).toHaveLength(1);
+  });
+});
+
+test.describe('replaying queued edits', () => {
+  test('a queued edit newer than the cloud row is pushed', async () => {
+    const repo = createMemoryRepository({ entries: [version(1, EARLIER)] });
+    queueUpsert(version(3, LATER));
+    setRepository(repo);
+
+    expect(await flushPendingChanges()).toBe(0);
+    expect(await repo.getEntry(LOCAL_USER_ID, version(0, LATER).id)).toEqual(version(3, LATER));
+  });
+
+  test('a queued edit older than the cloud row is dropped as superseded', async () => {
+    const repo = createMemoryRepository({ entries: [version(2, LATER)] });
+    queueUpsert(version(3, EARLIER));
+    setRepository(repo);
+
+    expect(await flushPendingChanges()).toBe(0);
+    expect(await repo.getEntry(LOCAL_USER_ID, version(0, LATER).id)).toEqual(version(2, LATER));
+    expect(await getCachedEntry(version(0, LATER).id)).toEqual(version(2, LATER));
+    expect(getOutbox()).toEqual([]);
+    expect(getConflicts()).toHaveLength(1);
+  });
+
+  test('equal timestamps push the queued edit', async () => {
+    const repo = createMemoryRepository({ entries: [version(2, EARLIER)] });
+    queueUpsert(version(3, EARLIER));
+    setRepository(repo);
+
+    await flushPendingChanges();
+    expect((await repo.getEntry(LOCAL_USER_ID, version(0, EARLIER).id))?.value).toBe(3);
+    expect(getConflicts()).toEqual([]);
+  });
+
+  test('a queued edit to a row deleted in the cloud recreates it', async () => {
+    const repo = createMemoryRepository();
+    queueUpsert(version(3, EARLIER));
+    setRepository(repo);
+
+    expect(await flushPendingChanges()).toBe(0);
+    expect(await repo.getEntry(LOCAL_USER_ID, version(0, EARLIER).id)).toEqual(version(3, EARLIER));
+  });
+
+  test('a queued delete older than the cloud row leaves the row in place', async () => {
+    const repo = createMemoryRepository({ entries: [version(2, LATER)] });
+    queueDelete(version(2, LATER), EARLIER);
+    setRepository(repo);
+
+    expect(await flushPendingChanges()).toBe(0);
+    expect(await repo.getEntry(LOCAL_USER_ID, version(0, LATER).id)).toEqual(version(2, LATER));
+    expect(getConflicts()[0]).toMatchObject({ local: null, remote: version(2, LATER) });
+  });
+});
+
+test.describe('remote changes with queued edits', () => {
+  function listen() {
+    const changes: RowChange<HabitEntry>[] = [];
+    const unsubscribe = subscribeToEntryChanges(change => changes.push(change));
+    return { changes, unsubscribe };
+  }
+
+  test('a newer remote row is passed on as is', async () => {
+    const repo = createMemoryRepository();
+    setRepository(repo);
+    queueUpsert(version(3, EARLIER));
+    const { changes, unsubscribe } = listen();
+
+    await repo.upsertEntry(version(2, LATER));
+    unsubscribe();
+    expect(changes.map(c => c.new)).toEqual([version(2, LATER)]);
+    await expect.poll(() => getCachedEntry(version(0, LATER).id)).toEqual(version(2, LATER));
+    expect(getConflicts()).toHaveLength(1);
+  });
+
+  test('an older or equally old remote row is replaced by the queued edit', async () => {
+    const repo = createMemoryRepository();
+    setRepository(repo);
+    queueUpsert(version(3, LATER));
+    const { changes, unsubscribe } = listen();
+
+    await repo.upsertEntry(version(1, EARLIER));
+    await repo.upsertEntry(version(2, LATER));
+    unsubscribe();
+    expect(changes.map(c => c.new)).toEqual([version(3, LATER), version(3, LATER)]);
+    await expect.poll(() => getCachedEntry(version(0, LATER).id)).toEqual(version(3, LATER));
+    expect(getConflicts()).toEqual([]);
+  });
+
+  test('a remote row older than a queued delete is swallowed', async () => {
+    const repo = createMemoryRepository();
+    setRepository(repo);
+    queueDelete(version(1, EARLIER), LATER);
+    const { changes, unsubscribe } = listen();
+
+    await repo.upsertEntry(version(1, EARLIER));
+    unsubscribe();
+    expect(changes).toEqual([]);
+    expect(await getCachedEntries()).toEqual([]);
+  });
+});
+
+// Supabase only sends deletes on an unfiltered subscription, and with RLS the
+// old record is just the primary key
+test.describe('remote deletes while the feed is live', () => {
+  test('a deleted entry is dropped from the cache and the shown rows', async () => {
+    const feed = createLocalChangeFeed();
+    setChangeFeed(feed);
+    const kept = version(1, EARLIER, '2026-01-02');
+    const deleted = version(2, EARLIER);
+    await putCachedEntries([kept, deleted]);
+
+    let rows = [kept, deleted];
+    const unsubscribe = subscribeToEntryChanges(change => { rows = applyRowChange(rows, change); });
+    feed.emit<HabitEntry>('habit_entries', { type: 'DELETE', new: null, old: { id: deleted.id } });
+    unsubscribe();
+
+    expect(rows).toEqual([kept]);
+    await expect.poll(() => getCachedEntries()).toEqual([kept]);
+  });
+
+  test('a deleted habit is dropped from the cache and the shown rows', async () => {
+    const feed = createLocalChangeFeed();
+    setChangeFeed(feed);
+    await putCachedHabits([habit('h1'), habit('h2')]);
+
+    let rows: Habit[] = [habit('h1'), habit('h2')];
+    const unsubscribe = subscribeToHabitChanges(change => { rows = applyRowChange(rows, change); });
+    feed.emit<Habit>('habits', { type: 'DELETE', new: null, old: { id: 'h2' } });
+    unsubscribe();
+
+    expect(rows).toEqual([habit('h1')]);
+    await expect.poll(async () => (await getCachedHabits()).map(h => h.id)).toEqual(['h1']);
+  });
+
+  test('a delete for a row this device never had changes nothing', async () => {
+    const feed = createLocalChangeFeed();
+    setChangeFeed(feed);
+    const kept = version(1, EARLIER);
+    await putCachedEntries([kept]);
+
+    let rows = [kept];
+    const unsubscribe = subscribeToEntryChanges(change => { rows = applyRowChange(rows, change); });
+    feed.emit<HabitEntry>('habit_entries', { type: 'DELETE', new: null, old: { id: 'someone-else:h9:2026-01-01' } });
+    unsubscribe();
+
+    expect(rows).toEqual([kept]);
+    expect(await getCachedEntries()).toEqual([kept]);
+  });
+});
+
+test.describe('hasNoHabits', () => {
+  test('is true only when the cache, the outbox and the cloud are all empty', async () => {
+    expect(await hasNoHabits()).toBe(true);
+
+    setRepository(createMemoryRepository());
+    expect(await hasNoHabits()).toBe(true);
+
+    setRepository(createMemoryRepository({ habits: [habit()] }));
+    expect(await hasNoHabits()).toBe(false);
+  });
+
+  test('counts cached and queued habits without asking the cloud', async () => {
+    setRepository(createMemoryRepository());
+    enqueueOperation({ kind: 'upsert_habit', habit: habit() });
+    expect(await hasNoHabits()).toBe(false);
+
+    storage.clear();
+    await putCachedHabits([habit()]);
+    expect(await hasNoHabits()).toBe(false);
+  });
+
+  test('throws when the cloud cannot be asked', async () => {
+    setRepository({
+      ...createMemoryRepository(),
+      listHabits: async () => { throw new Error('offline'); },
+    });
+    await expect(hasNoHabits()).rejects.toThrow('offline');
+  });
+});
@@ -0,0 +1,40 @@
+import { readFileSync } from 'node:fs';
+import { test, expect } from '@playwright/test';
+import { isZip, readZip } from '../src/lib/zip';
+
+// Loop Habit Tracker CSV export: deflated files plus one stored entry
+const archive = new Uint8Array(readFileSync(new URL('./fixtures/loop-csv-export.zip', import.meta.url)));
+
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+test.describe('readZip', () => {
+  test('recognises the local file header', () => {
+    expect(isZip(archive)).toBe(true);
+    expect(isZip(new TextEncoder().encode('{"format":'))).toBe(false);
+    expect(isZip(new Uint8Array(2))).toBe(false);
+  });
+
+  test('extracts stored and deflated entries', async () => {
+    const entries = await readZip(archive);
+    expect(entries.map(e => e.name)).toEqual([
+      'Habits.csv',
+      'Checkmarks.csv',
+      '001 Meditation/Checkmarks.csv',
+      '002 Water/Checkmarks.csv',
+    ]);
+    expect(text(entries[1].data)).toBe('Date,Meditation,Water,\n2026-01-03,2,0,\n2026-01-02,1,2500,\n2026-01-01,2,1500,\n');
+    expect(text(entries[2].data)).toBe('2026-01-03,2\n2026-01-02,1\n2026-01-01,2\n');
+  });
+
+  test('rejects a truncated archive', async () => {
+    await expect(readZip(archive.slice(0, archive.length - 30))).rejects.toThrow('Not a valid ZIP archive');
+  });
+
+  test('rejects a corrupt central directory', async () => {
+    const corrupt = archive.slice();
+    const view = new DataView(corrupt.buffer);
+    const eocd = corrupt.length - 22;
+    view.setUint32(eocd + 16, view.getUint32(eocd + 16, true) + 1, true);
+    await expect(readZip(corrupt)).rejects.toThrow('Corrupt ZIP central directory');
+  });
+});
@@ -1,9 +1,64 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
+import fs from 'fs'
+import { createHash } from 'crypto'
+
+// Placeholder in public/sw.js replaced with the build's file list
+const PRECACHE_TOKEN = 'self.__PRECACHE_MANIFEST'
+
+function listFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name)
+    return entry.isDirectory() ? listFiles(full) : [full]
+  })
+}
+
+/**
+ * Writes every emitted file (hashed bundles, index.html, public assets) into
+ * dist/sw.js with a version hashed from their contents, so each deploy gets
+ * a fresh cache and the worker can precache a complete offline launch.
+ */
+function precacheManifest(): Plugin {
+  let outDir = ''
+  let base = '/'
+
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir)
+      base = config.base
+    },
+    // After Vite has copied public/, so sw.js and the icons are in place
+    closeBundle() {
+      const swPath = path.join(outDir, 'sw.js')
+      if (!fs.existsSync(swPath)) return
+
+      const files = listFiles(outDir)
+        .map(file => path.relative(outDir, file).split(path.sep).join('/'))
+        .filter(file => file !== 'sw.js' && !file.endsWith('.map'))
+        .sort()
+
+      const hash = createHash('sha256')
+      files.forEach(file => {
+        hash.update(file)
+        hash.update(fs.readFileSync(path.join(outDir, file)))
+      })
+
+      const manifest = { version: hash.digest('hex').slice(0, 12), urls: files.map(file => base + file) }
+      const source = fs.readFileSync(swPath, 'utf8')
+      if (!source.includes(PRECACHE_TOKEN)) {
+        throw new Error(`[precache-manifest] ${PRECACHE_TOKEN} not found in sw.js`)
+      }
+      fs.writeFileSync(swPath, source.replace(PRECACHE_TOKEN, JSON.stringify(manifest)))
+      console.log(`[precache-manifest] ${files.length} files, version ${manifest.version}`)
+    },
+  }
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   base: '/mausam-master-dashboard/',
   resolve: {
     alias: {